@@ -0,0 +1,124 @@
+/**
+ * simulate
+ * Command-line entry point for the headless runner
+ *
+ * Usage:
+ *   npm run simulate -- <spec.json|spec.yaml> [--out <file>] [--format csv|json]
+ *   npm run simulate -- --list
+ *
+ * The format defaults to the output file's extension, or CSV when writing to
+ * stdout. CSV columns match the in-app Export CSV button.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseRunSpec, runSimulation } from '../src/simulations/runner';
+import { simulationRegistry } from '../src/simulations/registry';
+import { formatCSV, formatJSON } from '../src/utils/format';
+import { parseYaml } from '../src/utils/yaml';
+
+type OutputFormat = 'csv' | 'json';
+
+const USAGE = `Usage:
+  simulate <spec.json|spec.yaml> [--out <file>] [--format csv|json]
+  simulate --list
+
+Run spec keys:
+  model        model id (see --list)
+  params       overrides of the model's default parameters
+  integrator   euler | verlet | rk4 | yoshida4 | midpoint | gauss4 | dopri5
+  timestep     fixed-step size in seconds (default: the model's own)
+  tolerances   { absolute, relative } for dopri5
+  duration     simulated seconds
+  sampleRate   rows per simulated second (default 60)`;
+
+interface Options {
+  specPath?: string;
+  outPath?: string;
+  format?: OutputFormat;
+  list: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { list: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out' || arg === '-o') {
+      options.outPath = argv[++i];
+      if (!options.outPath) throw new Error(`${arg} needs a file path`);
+    } else if (arg === '--format' || arg === '-f') {
+      const format = argv[++i];
+      if (format !== 'csv' && format !== 'json') throw new Error('--format must be csv or json');
+      options.format = format;
+    } else if (arg === '--list') {
+      options.list = true;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (options.specPath) {
+      throw new Error(`Only one run spec can be given (got ${options.specPath} and ${arg})`);
+    } else {
+      options.specPath = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Models and their parameters with defaults
+ */
+function listModels(): string {
+  return Object.entries(simulationRegistry)
+    .map(([id, Model]) => {
+      const params = Object.entries(new Model().config.defaultParams)
+        .map(([key, def]) => `    ${key} = ${JSON.stringify(def.value)}  (${def.label})`)
+        .join('\n');
+      return `${id}\n${params}`;
+    })
+    .join('\n\n');
+}
+
+function readSpec(path: string): unknown {
+  const text = readFileSync(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') return parseYaml(text);
+  if (extension === '.json') return JSON.parse(text);
+  throw new Error(`Run spec must be a .json, .yaml or .yml file, got ${path}`);
+}
+
+function main(argv: string[]): void {
+  const options = parseArgs(argv);
+
+  if (options.list) {
+    console.log(listModels());
+    return;
+  }
+  if (!options.specPath) throw new Error(`No run spec given\n\n${USAGE}`);
+
+  const spec = parseRunSpec(readSpec(options.specPath));
+  const format =
+    options.format ?? (options.outPath && extname(options.outPath).toLowerCase() === '.json' ? 'json' : 'csv');
+
+  const started = performance.now();
+  const data = runSimulation(spec);
+  const output = `${format === 'json' ? formatJSON(data) : formatCSV(data)}\n`;
+
+  if (options.outPath) {
+    writeFileSync(options.outPath, output);
+    const seconds = ((performance.now() - started) / 1000).toFixed(2);
+    console.error(`${spec.model}: ${data.timeSeries.time.length} rows to ${options.outPath} in ${seconds}s`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(`simulate: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,102 @@
+/**
+ * sweep
+ * Command-line entry point for parameter sweeps
+ *
+ * Usage:
+ *   npm run sweep -- <sweep.json|sweep.yaml> [--out <file>]
+ *
+ * Points run one after another in this process; results are written as CSV,
+ * with the same columns as the in-app Export CSV button of the Sweep folder.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { createSweepResults, formatSweepCSV, parseSweepSpec, runSweepPoint, sweepMetrics } from '../src/analysis/sweep';
+import { parseYaml } from '../src/utils/yaml';
+
+const USAGE = `Usage:
+  sweep <sweep.json|sweep.yaml> [--out <file>]
+
+Sweep spec keys:
+  run        run spec of the base run (see simulate --help); duration is per point
+  axes       list of { param, min, max, steps, scale: linear | log };
+             min and max default to the parameter's slider range
+  sampling   grid (every combination) | latin-hypercube
+  samples    points drawn by Latin hypercube sampling (default 100)
+  seed       integer seed for Latin hypercube sampling (default 1)
+  metrics    list of: ${Object.keys(sweepMetrics).join(', ')}`;
+
+// Progress is reported to stderr this often (ms)
+const PROGRESS_INTERVAL = 1000;
+
+interface Options {
+  specPath?: string;
+  outPath?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out' || arg === '-o') {
+      options.outPath = argv[++i];
+      if (!options.outPath) throw new Error(`${arg} needs a file path`);
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (options.specPath) {
+      throw new Error(`Only one sweep spec can be given (got ${options.specPath} and ${arg})`);
+    } else {
+      options.specPath = arg;
+    }
+  }
+
+  return options;
+}
+
+function readSpec(path: string): unknown {
+  const text = readFileSync(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') return parseYaml(text);
+  if (extension === '.json') return JSON.parse(text);
+  throw new Error(`Sweep spec must be a .json, .yaml or .yml file, got ${path}`);
+}
+
+function main(argv: string[]): void {
+  const options = parseArgs(argv);
+  if (!options.specPath) throw new Error(`No sweep spec given\n\n${USAGE}`);
+
+  const spec = parseSweepSpec(readSpec(options.specPath));
+  const results = createSweepResults(spec);
+  const total = results.points.length;
+
+  const started = performance.now();
+  let lastReport = started;
+  results.points.forEach((point, i) => {
+    results.values[i] = runSweepPoint(spec.run, spec.axes, point, spec.metrics);
+    const now = performance.now();
+    if (options.outPath && now - lastReport >= PROGRESS_INTERVAL) {
+      lastReport = now;
+      console.error(`${i + 1}/${total} points`);
+    }
+  });
+
+  const output = `${formatSweepCSV(results)}\n`;
+  if (options.outPath) {
+    writeFileSync(options.outPath, output);
+    const seconds = ((performance.now() - started) / 1000).toFixed(2);
+    console.error(`${spec.run.model}: ${total} points to ${options.outPath} in ${seconds}s`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(`sweep: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -31,9 +31,19 @@ import {
   SimplePendulumScene,
   DoublePendulumScene,
   NPendulumScene,
+  DrivenPendulumScene,
+  SphericalPendulumScene,
+  FoucaultPendulumScene,
+  ElasticPendulumScene,
+  CartPoleScene,
+  KapitzaPendulumScene,
+  CoupledPendulumsScene,
+  PendulumWaveScene,
+  NewtonsCradleScene,
+  MagneticPendulumScene,
 } from './simulations';
 
-type SimulationType = 'simple' | 'double' | 'n-pendulum';
+type SimulationType = 'simple' | 'double' | 'n-pendulum' | 'driven' | 'spherical' | 'foucault' | 'elastic' | 'cart-pole' | 'kapitza' | 'coupled' | 'wave' | 'cradle' | 'magnetic';
 
 interface SimulationOption {
   id: SimulationType;
@@ -61,6 +71,66 @@ const simulations: SimulationOption[] = [
     description: 'Variable length chain',
     icon: 'N',
   },
+  {
+    id: 'driven',
+    name: 'Driven Pendulum',
+    description: 'Forced, damped, period doubling',
+    icon: 'F',
+  },
+  {
+    id: 'spherical',
+    name: 'Spherical Pendulum',
+    description: '3D swing, precessing apsides',
+    icon: 'S',
+  },
+  {
+    id: 'foucault',
+    name: 'Foucault Pendulum',
+    description: 'Swing plane turns with the Earth',
+    icon: 'E',
+  },
+  {
+    id: 'elastic',
+    name: 'Elastic Pendulum',
+    description: 'Spring rod, 2:1 resonance',
+    icon: 'K',
+  },
+  {
+    id: 'cart-pole',
+    name: 'Cart-Pole',
+    description: 'Balance it with PID, LQR, swing-up',
+    icon: 'C',
+  },
+  {
+    id: 'kapitza',
+    name: 'Kapitza Pendulum',
+    description: 'Shaken pivot, stable upside down',
+    icon: 'V',
+  },
+  {
+    id: 'coupled',
+    name: 'Coupled Pendulums',
+    description: 'Spring-linked row, normal modes',
+    icon: 'M',
+  },
+  {
+    id: 'wave',
+    name: 'Pendulum Wave',
+    description: 'Tuned lengths, travelling patterns',
+    icon: 'W',
+  },
+  {
+    id: 'cradle',
+    name: "Newton's Cradle",
+    description: 'Colliding bobs, restitution, Hertz contact',
+    icon: 'O',
+  },
+  {
+    id: 'magnetic',
+    name: 'Magnetic Pendulum',
+    description: 'Competing magnets, fractal basins',
+    icon: 'G',
+  },
 ];
 
 function SimulationPicker({
@@ -270,6 +340,16 @@ export default function App() {
       {currentSim === 'simple' && <SimplePendulumScene />}
       {currentSim === 'double' && <DoublePendulumScene />}
       {currentSim === 'n-pendulum' && <NPendulumScene />}
+      {currentSim === 'driven' && <DrivenPendulumScene />}
+      {currentSim === 'spherical' && <SphericalPendulumScene />}
+      {currentSim === 'foucault' && <FoucaultPendulumScene />}
+      {currentSim === 'elastic' && <ElasticPendulumScene />}
+      {currentSim === 'cart-pole' && <CartPoleScene />}
+      {currentSim === 'kapitza' && <KapitzaPendulumScene />}
+      {currentSim === 'coupled' && <CoupledPendulumsScene />}
+      {currentSim === 'wave' && <PendulumWaveScene />}
+      {currentSim === 'cradle' && <NewtonsCradleScene />}
+      {currentSim === 'magnetic' && <MagneticPendulumScene />}
     </>
   );
 }
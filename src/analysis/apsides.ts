@@ -0,0 +1,136 @@
+/**
+ * Apsidal Precession
+ * Records the apoapsides (maxima of a radial coordinate) of an orbit and the
+ * azimuth at which each occurs
+ *
+ * A closed ellipse reaches its apoapsis twice per revolution, half a turn
+ * apart. Any extra azimuth advance between successive apoapsides is the
+ * precession of the apsides. Maxima are detected from a sign change of the
+ * radial velocity between integrator steps and located by linear
+ * interpolation within the step.
+ *
+ * Nearly planar swings (a Foucault pendulum) pass so close to the centre that
+ * the sense of each half turn is ill-defined. With `halfTurnSymmetric` the
+ * apsides are compared mod π instead, which measures the turning of the swing
+ * plane directly.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import type { StepSample } from '../core/types';
+import { normalizeAngle } from '../utils/physics';
+
+export interface ApsideTrackerConfig {
+  // Radial coordinate, its rate of change, and the azimuth, read from a state
+  radius: (state: number[]) => number;
+  radialVelocity: (state: number[]) => number;
+  // Must be unwrapped (continuous) unless halfTurnSymmetric is set
+  azimuth: (state: number[]) => number;
+  // Compare successive apsides mod π (see above)
+  halfTurnSymmetric?: boolean;
+  // Oldest apsides are dropped beyond this
+  maxApsides?: number;
+}
+
+export interface Apside {
+  time: number;
+  radius: number;
+  azimuth: number;
+}
+
+// Also the window the precession rate is averaged over
+const DEFAULT_MAX_APSIDES = 64;
+
+export class ApsideTracker {
+  private config: ApsideTrackerConfig;
+  private apsides: Apside[] = [];
+  private lastTime: number = -Infinity;
+  private unsubscribe: (() => void) | null = null;
+  private sim: BaseSimulation | null = null;
+
+  constructor(config: ApsideTrackerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start observing a simulation's integrator steps
+   */
+  attach(sim: BaseSimulation): void {
+    this.detach();
+    this.sim = sim;
+    this.lastTime = -Infinity;
+    const unsubscribeSteps = sim.addStepObserver((prev, curr) => this.observe(prev, curr));
+    // Apsides missed in a jump would throw off the count of half turns
+    const unsubscribeJumps = sim.addDiscontinuityObserver(() => this.clear());
+    this.unsubscribe = () => {
+      unsubscribeSteps();
+      unsubscribeJumps();
+    };
+  }
+
+  detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.sim = null;
+  }
+
+  isAttachedTo(sim: BaseSimulation): boolean {
+    return this.sim === sim;
+  }
+
+  getApsides(): Apside[] {
+    return this.apsides;
+  }
+
+  clear(): void {
+    this.apsides = [];
+  }
+
+  /**
+   * Mean precession rate over the recorded apsides (rad/s), signed with the sense of rotation
+   * Zero until two apsides have been recorded
+   */
+  getPrecessionRate(): number {
+    const n = this.apsides.length;
+    if (n < 2) return 0;
+
+    const first = this.apsides[0];
+    const last = this.apsides[n - 1];
+
+    if (this.config.halfTurnSymmetric) {
+      // Sum of advances wrapped to (-π/2, π/2]
+      let excess = 0;
+      for (let i = 1; i < n; i++) {
+        excess += normalizeAngle(2 * (this.apsides[i].azimuth - this.apsides[i - 1].azimuth)) / 2;
+      }
+      return excess / (last.time - first.time);
+    }
+
+    const advance = last.azimuth - first.azimuth;
+    const excess = advance - Math.sign(advance) * Math.PI * (n - 1);
+    return excess / (last.time - first.time);
+  }
+
+  private observe(prev: StepSample, curr: StepSample): void {
+    const { radius, radialVelocity, azimuth, halfTurnSymmetric = false, maxApsides = DEFAULT_MAX_APSIDES } = this.config;
+
+    // Simulation was reset: earlier apsides belong to a different orbit
+    if (prev.time < this.lastTime) this.apsides = [];
+    this.lastTime = curr.time;
+
+    const v0 = radialVelocity(prev.state);
+    const v1 = radialVelocity(curr.state);
+    if (!(v0 > 0 && v1 <= 0)) return;
+
+    const s = v0 / (v0 - v1);
+    const r0 = radius(prev.state);
+    const a0 = azimuth(prev.state);
+    const da = azimuth(curr.state) - a0;
+
+    this.apsides.push({
+      time: prev.time + s * (curr.time - prev.time),
+      radius: r0 + s * (radius(curr.state) - r0),
+      azimuth: a0 + s * (halfTurnSymmetric ? normalizeAngle(da) : da),
+    });
+    if (this.apsides.length > maxApsides) this.apsides.shift();
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Basins of Attraction
+ * Runs a simulation from every point of a grid of initial conditions and
+ * records which attractor each run settles on, and how long it took.
+ * Where the basins meet the boundaries are often fractal, so the map only
+ * shows its structure at a fine resolution.
+ *
+ * Grid points are visited coarse to fine: every 8th pixel first, then the
+ * points halfway between, and so on. Each result is meant to be painted over
+ * the block of pixels it stands for until the finer passes fill them in, so a
+ * rough picture of the whole map appears long before it is finished.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+
+export interface GridAxis {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface GridPoint {
+  column: number;
+  row: number;
+  // Side of the square block of pixels, starting at this one, that nothing
+  // finer has been computed for yet
+  size: number;
+}
+
+// Stride of the first, coarsest pass
+const COARSEST_STRIDE = 8;
+
+/**
+ * Every point of a columns × rows grid exactly once, coarse to fine
+ * @param skip Points to pass over, so an interrupted sweep can resume
+ */
+export function* progressiveGrid(columns: number, rows: number, skip = 0): Generator<GridPoint> {
+  let index = 0;
+  for (let stride = COARSEST_STRIDE; stride >= 1; stride /= 2) {
+    for (let row = 0; row < rows; row += stride) {
+      for (let column = 0; column < columns; column += stride) {
+        // Points on the coarser lattice were visited in an earlier pass
+        if (stride < COARSEST_STRIDE && row % (2 * stride) === 0 && column % (2 * stride) === 0) continue;
+        if (index++ < skip) continue;
+        yield { column, row, size: stride };
+      }
+    }
+  }
+}
+
+export function gridValue(axis: GridAxis, index: number): number {
+  return axis.steps > 1 ? axis.min + ((axis.max - axis.min) * index) / (axis.steps - 1) : axis.min;
+}
+
+export interface BasinOptions<S extends BaseSimulation = BaseSimulation> {
+  createSimulation: () => S;
+  params: Record<string, unknown>;
+  // Initial conditions swept along each axis
+  x: GridAxis;
+  y: GridAxis;
+  // Parameter overrides that start a run at grid point (x, y)
+  initialConditions: (x: number, y: number) => Record<string, unknown>;
+  // Attractor the run has settled on, or -1 while it is still undecided
+  classify: (sim: S) => number;
+  timestep?: number;
+  // Runs still undecided after this long are recorded as -1
+  maxTime?: number;
+  // Steps between calls to classify
+  checkInterval?: number;
+  // Runs that can be ruled out up front (on energy, say) are recorded as -1
+  // without integrating
+  unreachable?: (sim: S) => boolean;
+  // Grid points already computed, so an interrupted sweep can resume
+  skip?: number;
+}
+
+export interface BasinCell extends GridPoint {
+  attractor: number;
+  // Simulated time until the run was classified
+  time: number;
+}
+
+export function* basinSweep<S extends BaseSimulation>(options: BasinOptions<S>): Generator<BasinCell> {
+  const {
+    createSimulation,
+    params,
+    x,
+    y,
+    initialConditions,
+    classify,
+    timestep = 0.01,
+    maxTime = 40,
+    checkInterval = 10,
+    unreachable,
+    skip = 0,
+  } = options;
+
+  const sim = createSimulation();
+  sim.config.physics.fixedTimestep = timestep;
+  sim.setIntegrationMethod('rk4');
+  const maxSteps = Math.ceil(maxTime / timestep);
+
+  for (const point of progressiveGrid(x.steps, y.steps, skip)) {
+    sim.init({ ...params, ...initialConditions(gridValue(x, point.column), gridValue(y, point.row)) });
+
+    let attractor = classify(sim);
+    let steps = 0;
+    if (attractor < 0 && unreachable?.(sim)) {
+      yield { ...point, attractor, time: maxTime };
+      continue;
+    }
+    while (attractor < 0 && steps < maxSteps) {
+      for (let k = 0; k < checkInterval; k++) sim.step(0);
+      steps += checkInterval;
+      attractor = classify(sim);
+    }
+
+    yield { ...point, attractor, time: steps * timestep };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Bifurcation Diagrams
+ * Sweeps one parameter of a periodically forced simulation and records
+ * stroboscopic samples (one per drive period) after transients die out.
+ * A single value per column means a period-1 orbit, two means period 2, and a
+ * smear of points means chaos.
+ *
+ * The sweep is a generator yielding one column at a time so the UI can spread
+ * the work over many frames.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import { normalizeAngle } from '../utils/physics';
+
+export interface BifurcationOptions {
+  createSimulation: () => BaseSimulation;
+  params: Record<string, unknown>;
+  // Parameter to sweep and its range
+  parameter: string;
+  min: number;
+  max: number;
+  steps: number;
+  // Stroboscopic sampling period (the drive period)
+  period: number;
+  // Drive periods discarded before sampling
+  transientPeriods?: number;
+  // Drive periods sampled per column
+  samplePeriods?: number;
+  // Integration steps per drive period (sets the timestep so samples land exactly)
+  stepsPerPeriod?: number;
+  // Quantity recorded at each sample (defaults to the first state component as an angle)
+  observable?: (state: number[]) => number;
+}
+
+export interface BifurcationColumn {
+  value: number;
+  samples: number[];
+}
+
+export function* bifurcationSweep(options: BifurcationOptions): Generator<BifurcationColumn> {
+  const {
+    createSimulation,
+    params,
+    parameter,
+    min,
+    max,
+    steps,
+    period,
+    transientPeriods = 200,
+    samplePeriods = 64,
+    stepsPerPeriod = 200,
+    observable = (state: number[]) => normalizeAngle(state[0]),
+  } = options;
+
+  for (let i = 0; i < steps; i++) {
+    const value = steps > 1 ? min + ((max - min) * i) / (steps - 1) : min;
+
+    const sim = createSimulation();
+    sim.config.physics.fixedTimestep = period / stepsPerPeriod;
+    sim.setIntegrationMethod('rk4');
+    sim.init({ ...params, [parameter]: value });
+
+    // Discard transients
+    for (let k = 0; k < transientPeriods * stepsPerPeriod; k++) sim.step(0);
+
+    // One sample per drive period
+    const samples: number[] = [];
+    for (let s = 0; s < samplePeriods; s++) {
+      for (let k = 0; k < stepsPerPeriod; k++) sim.step(0);
+      samples.push(observable(sim.getState()));
+    }
+
+    yield { value, samples };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Shadow Ensembles
+ * Copies of a run whose initial angles are nudged by a tiny ε, integrated
+ * alongside it. In a chaotic system their distance from the reference grows
+ * roughly like ε·e^(λt) until it saturates at the size of the attractor, so the
+ * slope of log separation against time reads off the largest Lyapunov exponent.
+ *
+ * States are laid out as [angles..., rates...]; angle differences are wrapped
+ * so a copy that has gone once more round the pivot is not counted as far away.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import type { PhysicsState } from '../core/types';
+import { normalizeAngle } from '../utils/physics';
+
+export interface EnsembleOptions {
+  count: number;
+  // Size of the initial perturbation (rad)
+  epsilon: number;
+  // Leading state components that are angles (defaults to the first half)
+  angleCount?: number;
+}
+
+// Separation of every copy at a point in time, for plots
+export interface SeparationSample {
+  // Time since the ensemble was spawned
+  time: number;
+  // log₁₀ of each copy's distance from the reference
+  logSeparations: number[];
+}
+
+// Separation history is decimated beyond this many samples
+const MAX_HISTORY = 1000;
+
+export class Ensemble {
+  private reference: BaseSimulation;
+  private copies: BaseSimulation[] = [];
+  private states: PhysicsState[] = [];
+  private angleCount: number;
+  private startTime: number;
+
+  private history: SeparationSample[] = [];
+  private historyStride: number = 1;
+  private samples: number = 0;
+
+  /**
+   * @param createSimulation Builds a blank instance of the reference's model
+   */
+  constructor(reference: BaseSimulation, createSimulation: () => BaseSimulation, options: EnsembleOptions) {
+    this.reference = reference;
+    this.startTime = reference.getTime();
+
+    const state = reference.getState();
+    this.angleCount = options.angleCount ?? Math.floor(state.length / 2);
+
+    for (let k = 0; k < options.count; k++) {
+      const copy = createSimulation();
+      // Same integrator, timestep and tolerances as the reference
+      Object.assign(copy.config.physics, reference.config.physics);
+      copy.init(reference.getParams());
+
+      // Random direction in angle space, scaled to length ε
+      const direction = Array.from({ length: this.angleCount }, () => Math.random() - 0.5);
+      const norm = Math.hypot(...direction) || 1;
+      const perturbed = [...state];
+      for (let i = 0; i < this.angleCount; i++) {
+        perturbed[i] += (options.epsilon * direction[i]) / norm;
+      }
+      copy.setState(perturbed, this.startTime);
+      this.copies.push(copy);
+    }
+
+    this.recordSample();
+  }
+
+  /**
+   * Step every copy up to the reference's time
+   */
+  advanceTo(targetTime: number): void {
+    for (let k = 0; k < this.copies.length; k++) {
+      const copy = this.copies[k];
+      if (copy.getIntegrationMethod() === 'dopri5') {
+        if (targetTime > copy.getTime()) this.states[k] = copy.step(targetTime - copy.getTime());
+      } else {
+        const h = copy.config.physics.fixedTimestep;
+        while (copy.getTime() + h <= targetTime + h * 1e-9) {
+          this.states[k] = copy.step(h);
+        }
+      }
+    }
+
+    this.recordSample();
+  }
+
+  /**
+   * Distance of each copy from the reference's current state
+   */
+  getSeparations(): number[] {
+    const reference = this.reference.getState();
+    return this.copies.map((copy) => {
+      const state = copy.getState();
+      let sum = 0;
+      for (let i = 0; i < state.length; i++) {
+        const delta = i < this.angleCount ? normalizeAngle(state[i] - reference[i]) : state[i] - reference[i];
+        sum += delta * delta;
+      }
+      return Math.sqrt(sum);
+    });
+  }
+
+  /**
+   * Latest rendered state of each copy (empty until the first advance)
+   */
+  getStates(): PhysicsState[] {
+    return this.states;
+  }
+
+  /**
+   * Log-separation history since the copies were spawned
+   */
+  getHistory(): SeparationSample[] {
+    return this.history;
+  }
+
+  /**
+   * Time the copies have been integrated to
+   */
+  getTime(): number {
+    return this.copies[0]?.getTime() ?? this.startTime;
+  }
+
+  private recordSample(): void {
+    if (this.samples++ % this.historyStride !== 0) return;
+
+    this.history.push({
+      time: this.reference.getTime() - this.startTime,
+      logSeparations: this.getSeparations().map((d) => Math.log10(Math.max(d, Number.MIN_VALUE))),
+    });
+
+    // Keep the whole curve by halving resolution when full
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.filter((_, i) => i % 2 === 1);
+      this.historyStride *= 2;
+    }
+  }
+}
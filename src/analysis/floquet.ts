@@ -0,0 +1,109 @@
+/**
+ * Floquet Stability
+ * Linear stability of equilibria of periodically driven systems
+ *
+ * The linearized equations about an equilibrium of a system with period T are
+ * integrated over one period from each unit vector, giving the monodromy matrix
+ * M. Perturbations grow by M every period, so the equilibrium is stable when
+ * every Floquet multiplier (eigenvalue of M) lies inside or on the unit circle.
+ *
+ * Only two-dimensional systems (one degree of freedom, [q, q̇]) are handled,
+ * where the multipliers come straight from the trace and determinant.
+ */
+
+import { rk4, createIntegratorWorkspace } from '../utils/physics';
+import type { DerivativeFunc } from '../utils/physics';
+
+export interface FloquetSystem {
+  // Linearized derivatives of the 2D perturbation [q, q̇]
+  derivatives: DerivativeFunc;
+  period: number;
+}
+
+export interface StabilityAxis {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface StabilityMap {
+  x: StabilityAxis;
+  y: StabilityAxis;
+  // Row-major spectral radii, row 0 at y.min
+  radii: Float32Array;
+  // 1 where the equilibrium is stable
+  stable: Uint8Array;
+}
+
+// Multipliers this close to the unit circle count as stable (undamped centres sit exactly on it)
+const UNIT_CIRCLE_TOLERANCE = 1e-6;
+
+/**
+ * Monodromy matrix [m00, m01, m10, m11] over one period
+ */
+export function computeMonodromy(system: FloquetSystem, stepsPerPeriod = 200): number[] {
+  const { derivatives, period } = system;
+  const dt = period / stepsPerPeriod;
+  const workspace = createIntegratorWorkspace(2);
+  const monodromy = [0, 0, 0, 0];
+
+  for (let column = 0; column < 2; column++) {
+    let state = column === 0 ? [1, 0] : [0, 1];
+    let t = 0;
+    for (let i = 0; i < stepsPerPeriod; i++) {
+      state = rk4(state, t, dt, derivatives, workspace);
+      t += dt;
+    }
+    monodromy[column] = state[0];
+    monodromy[2 + column] = state[1];
+  }
+
+  return monodromy;
+}
+
+/**
+ * Largest Floquet multiplier modulus; the equilibrium is stable when it is ≤ 1
+ */
+export function floquetSpectralRadius(system: FloquetSystem, stepsPerPeriod = 200): number {
+  const [a, b, c, d] = computeMonodromy(system, stepsPerPeriod);
+  const trace = a + d;
+  const det = a * d - b * c;
+  const discriminant = (trace * trace) / 4 - det;
+
+  if (discriminant >= 0) {
+    const root = Math.sqrt(discriminant);
+    return Math.max(Math.abs(trace / 2 + root), Math.abs(trace / 2 - root));
+  }
+  // Complex pair, both with modulus √det
+  return Math.sqrt(Math.abs(det));
+}
+
+export function isFloquetStable(spectralRadius: number): boolean {
+  return spectralRadius <= 1 + UNIT_CIRCLE_TOLERANCE;
+}
+
+/**
+ * Spectral radius over a grid of two parameters
+ * @param createSystem Builds the linearized system for one grid point
+ */
+export function computeStabilityMap(
+  x: StabilityAxis,
+  y: StabilityAxis,
+  createSystem: (x: number, y: number) => FloquetSystem,
+  stepsPerPeriod = 200
+): StabilityMap {
+  const radii = new Float32Array(x.steps * y.steps);
+  const stable = new Uint8Array(x.steps * y.steps);
+
+  for (let row = 0; row < y.steps; row++) {
+    const yValue = y.steps > 1 ? y.min + ((y.max - y.min) * row) / (y.steps - 1) : y.min;
+    for (let col = 0; col < x.steps; col++) {
+      const xValue = x.steps > 1 ? x.min + ((x.max - x.min) * col) / (x.steps - 1) : x.min;
+      const radius = floquetSpectralRadius(createSystem(xValue, yValue), stepsPerPeriod);
+      radii[row * x.steps + col] = radius;
+      stable[row * x.steps + col] = isFloquetStable(radius) ? 1 : 0;
+    }
+  }
+
+  return { x, y, radii, stable };
+}
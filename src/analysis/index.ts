@@ -0,0 +1,17 @@
+export * from './lyapunov';
+export { useLyapunovEstimator } from './useLyapunovEstimator';
+export * from './poincare';
+export { usePoincareSection } from './usePoincareSection';
+export * from './bifurcation';
+export { useBifurcationSweep } from './useBifurcationSweep';
+export * from './apsides';
+export { useApsideTracker } from './useApsideTracker';
+export * from './floquet';
+export * from './basins';
+export { useBasinMap, type BasinMap } from './useBasinMap';
+export * from './ensemble';
+export { useEnsemble } from './useEnsemble';
+export * from './spectrum';
+export { useSpectrum, MAX_SPECTRUM_SIZE } from './useSpectrum';
+export * from './sweep';
+export { useSweep } from './useSweep';
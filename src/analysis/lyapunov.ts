@@ -0,0 +1,231 @@
+/**
+ * Lyapunov Exponents
+ * Tangent-space (Benettin) estimation for any BaseSimulation
+ *
+ * A set of tangent vectors is evolved with the linearized equations of motion
+ * alongside a reference trajectory. They are periodically re-orthonormalized
+ * (QR via modified Gram-Schmidt); the accumulated log stretch factors divided by
+ * elapsed time converge to the Lyapunov spectrum, largest first.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import { rk4, createIntegratorWorkspace } from '../utils/physics';
+import type { IntegratorWorkspace, State } from '../utils/physics';
+
+export interface LyapunovOptions {
+  // Number of exponents to track (defaults to the full spectrum)
+  exponents?: number;
+  // Integration steps between QR re-orthonormalizations
+  renormalizeInterval?: number;
+  // Integration timestep (defaults to the simulation's fixed timestep)
+  timestep?: number;
+}
+
+// Running estimate at a point in time, for convergence plots
+export interface LyapunovSample {
+  time: number;
+  exponents: number[];
+}
+
+// Relative size of the finite-difference step used for Jacobian-vector products
+const JVP_EPSILON = 1e-7;
+
+// Convergence history is decimated beyond this many samples
+const MAX_HISTORY = 1000;
+
+export class LyapunovEstimator {
+  private sim: BaseSimulation;
+  private dim: number;
+  private count: number;
+  private timestep: number;
+  private renormalizeInterval: number;
+
+  // Augmented state: [reference (dim), tangent 0 (dim), tangent 1 (dim), ...]
+  private augmented: State;
+  private time: number;
+  private startTime: number;
+  private stepCount: number = 0;
+  private logSums: number[];
+  private workspace: IntegratorWorkspace = createIntegratorWorkspace();
+
+  // Scratch buffers for the augmented derivative
+  private _derivBuffer: number[];
+  private _baseDeriv: number[];
+  private _perturbed: number[];
+
+  private history: LyapunovSample[] = [];
+  private historyStride: number = 1;
+  private renormalizations: number = 0;
+
+  constructor(sim: BaseSimulation, options: LyapunovOptions = {}) {
+    this.sim = sim;
+
+    const state = sim.getState();
+    this.dim = state.length;
+    this.count = Math.max(1, Math.min(options.exponents ?? this.dim, this.dim));
+    this.timestep = options.timestep ?? sim.config.physics.fixedTimestep;
+    this.renormalizeInterval = options.renormalizeInterval ?? 10;
+    this.time = sim.getTime();
+    this.startTime = this.time;
+    this.logSums = new Array(this.count).fill(0);
+
+    // Reference trajectory followed by orthonormal tangent vectors
+    this.augmented = new Array(this.dim * (1 + this.count)).fill(0);
+    for (let i = 0; i < this.dim; i++) this.augmented[i] = state[i];
+    for (let k = 0; k < this.count; k++) {
+      this.augmented[this.dim * (1 + k) + k] = 1;
+    }
+
+    this._derivBuffer = new Array(this.augmented.length).fill(0);
+    this._baseDeriv = new Array(this.dim).fill(0);
+    this._perturbed = new Array(this.dim).fill(0);
+  }
+
+  /**
+   * Integrate until the estimator reaches the given time
+   */
+  advanceTo(targetTime: number): void {
+    const h = this.timestep;
+    while (this.time + h <= targetTime + h * 1e-9) {
+      this.augmented = rk4(
+        this.augmented,
+        this.time,
+        h,
+        (t, s) => this.computeAugmentedDerivatives(t, s),
+        this.workspace
+      );
+      this.time += h;
+      this.stepCount++;
+
+      if (this.stepCount % this.renormalizeInterval === 0) {
+        this.renormalize();
+      }
+    }
+  }
+
+  /**
+   * Integrate for a fixed duration
+   */
+  advance(duration: number): void {
+    this.advanceTo(this.time + duration);
+  }
+
+  /**
+   * Current estimate of the spectrum (largest first)
+   */
+  getExponents(): number[] {
+    const elapsed = this.time - this.startTime;
+    if (this.renormalizations === 0 || elapsed <= 0) {
+      return new Array(this.count).fill(0);
+    }
+    // Only count time up to the last renormalization, where the logs were taken
+    const measured = this.renormalizations * this.renormalizeInterval * this.timestep;
+    return this.logSums.map((sum) => sum / measured);
+  }
+
+  /**
+   * Current estimate of the maximal exponent
+   */
+  getMaximalExponent(): number {
+    return this.getExponents()[0];
+  }
+
+  /**
+   * Convergence history of the running estimates
+   */
+  getHistory(): LyapunovSample[] {
+    return this.history;
+  }
+
+  /**
+   * Time reached by the reference trajectory
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Variational equations: y' = f(y), v' = J(y)·v
+   * J·v is approximated with a forward difference along v
+   */
+  private computeAugmentedDerivatives(t: number, aug: number[]): number[] {
+    const d = this.dim;
+    const out = this._derivBuffer;
+    const base = this._baseDeriv;
+    const perturbed = this._perturbed;
+
+    const f0 = this.sim.evaluateDerivatives(t, aug.slice(0, d));
+    let yNorm = 0;
+    for (let i = 0; i < d; i++) {
+      base[i] = f0[i];
+      out[i] = f0[i];
+      yNorm += aug[i] * aug[i];
+    }
+    yNorm = Math.sqrt(yNorm);
+
+    for (let k = 0; k < this.count; k++) {
+      const offset = d * (1 + k);
+
+      let vNorm = 0;
+      for (let i = 0; i < d; i++) vNorm += aug[offset + i] * aug[offset + i];
+      vNorm = Math.sqrt(vNorm);
+
+      if (vNorm === 0) {
+        for (let i = 0; i < d; i++) out[offset + i] = 0;
+        continue;
+      }
+
+      const eps = (JVP_EPSILON * Math.max(1, yNorm)) / vNorm;
+      for (let i = 0; i < d; i++) perturbed[i] = aug[i] + eps * aug[offset + i];
+
+      const f1 = this.sim.evaluateDerivatives(t, perturbed);
+      for (let i = 0; i < d; i++) out[offset + i] = (f1[i] - base[i]) / eps;
+    }
+
+    return out;
+  }
+
+  /**
+   * QR re-orthonormalization of the tangent vectors (modified Gram-Schmidt)
+   * The diagonal of R holds each vector's stretch since the last renormalization.
+   */
+  private renormalize(): void {
+    const d = this.dim;
+    const aug = this.augmented;
+
+    for (let k = 0; k < this.count; k++) {
+      const ok = d * (1 + k);
+
+      for (let j = 0; j < k; j++) {
+        const oj = d * (1 + j);
+        let dot = 0;
+        for (let i = 0; i < d; i++) dot += aug[ok + i] * aug[oj + i];
+        for (let i = 0; i < d; i++) aug[ok + i] -= dot * aug[oj + i];
+      }
+
+      let norm = 0;
+      for (let i = 0; i < d; i++) norm += aug[ok + i] * aug[ok + i];
+      norm = Math.sqrt(norm);
+
+      if (norm > 0) {
+        this.logSums[k] += Math.log(norm);
+        for (let i = 0; i < d; i++) aug[ok + i] /= norm;
+      }
+    }
+
+    this.renormalizations++;
+    this.recordSample();
+  }
+
+  private recordSample(): void {
+    if (this.renormalizations % this.historyStride !== 0) return;
+
+    this.history.push({ time: this.time, exponents: this.getExponents() });
+
+    // Keep the whole convergence curve by halving resolution when full
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.filter((_, i) => i % 2 === 1);
+      this.historyStride *= 2;
+    }
+  }
+}
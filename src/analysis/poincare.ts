@@ -0,0 +1,155 @@
+/**
+ * Poincaré Sections
+ * Records where a trajectory pierces a surface of section
+ *
+ * The surface is defined by one state component reaching a value (mod 2π for
+ * angles), crossed in a chosen direction. Crossings are detected between
+ * consecutive integrator steps and refined with cubic Hermite interpolation,
+ * so points do not depend on the frame rate or step size.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import type { StepSample } from '../core/types';
+import { cubicHermite, normalizeAngle } from '../utils/physics';
+
+export type CrossingDirection = 'positive' | 'negative' | 'both';
+
+export interface PoincareSectionConfig {
+  // State component defining the surface and the value it must reach
+  surfaceIndex: number;
+  surfaceValue: number;
+  direction: CrossingDirection;
+  // Treat the surface component as an angle (crossings mod 2π)
+  angular?: boolean;
+  // State components recorded at each crossing
+  xIndex: number;
+  yIndex: number;
+  // Wrap the recorded x component to [-π, π]
+  wrapX?: boolean;
+  // Oldest points are dropped beyond this
+  maxPoints?: number;
+}
+
+export interface PoincarePoint {
+  x: number;
+  y: number;
+  time: number;
+  // Increments each time the trajectory is restarted, for per-orbit colouring
+  orbit: number;
+}
+
+const DEFAULT_MAX_POINTS = 20000;
+
+// Bisection iterations used to locate the crossing within a step
+const REFINE_ITERATIONS = 40;
+
+export class PoincareSection {
+  private config: PoincareSectionConfig;
+  private points: PoincarePoint[] = [];
+  private orbit: number = 0;
+  private lastTime: number = -Infinity;
+  private unsubscribe: (() => void) | null = null;
+  private sim: BaseSimulation | null = null;
+
+  constructor(config: PoincareSectionConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start observing a simulation's integrator steps
+   */
+  attach(sim: BaseSimulation): void {
+    this.detach();
+    this.sim = sim;
+    this.lastTime = -Infinity;
+    const unsubscribeSteps = sim.addStepObserver((prev, curr) => this.observe(prev, curr));
+    // A jump in the trajectory leaves a gap, so what follows is a new orbit
+    const unsubscribeJumps = sim.addDiscontinuityObserver(() => this.orbit++);
+    this.unsubscribe = () => {
+      unsubscribeSteps();
+      unsubscribeJumps();
+    };
+  }
+
+  detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.sim = null;
+  }
+
+  isAttachedTo(sim: BaseSimulation): boolean {
+    return this.sim === sim;
+  }
+
+  getPoints(): PoincarePoint[] {
+    return this.points;
+  }
+
+  clear(): void {
+    this.points = [];
+    this.orbit = 0;
+  }
+
+  private observe(prev: StepSample, curr: StepSample): void {
+    const sim = this.sim;
+    if (!sim) return;
+
+    // Time went backwards: the simulation was reset or re-initialized
+    if (prev.time < this.lastTime) {
+      this.orbit++;
+    }
+    this.lastTime = curr.time;
+
+    const { surfaceIndex, surfaceValue, direction, angular = true } = this.config;
+
+    // Signed distance from the surface, unwrapped across the step
+    const delta = curr.state[surfaceIndex] - prev.state[surfaceIndex];
+    const s0 = angular
+      ? normalizeAngle(prev.state[surfaceIndex] - surfaceValue)
+      : prev.state[surfaceIndex] - surfaceValue;
+    const s1 = s0 + delta;
+
+    const upward = s0 < 0 && s1 >= 0;
+    const downward = s0 > 0 && s1 <= 0;
+    if (!upward && !downward) return;
+    if (direction === 'positive' && !upward) return;
+    if (direction === 'negative' && !downward) return;
+
+    // Hermite interpolation needs the slopes at both ends of the step
+    const h = curr.time - prev.time;
+    const f0 = sim.evaluateDerivatives(prev.time, prev.state).slice();
+    const f1 = sim.evaluateDerivatives(curr.time, curr.state).slice();
+
+    const interpolate = (i: number, tau: number): number =>
+      cubicHermite(prev.state[i], curr.state[i], h * f0[i], h * f1[i], tau);
+
+    // Bisection on the interpolated surface function
+    const y0 = prev.state[surfaceIndex];
+    let lo = 0;
+    let hi = 1;
+    for (let iter = 0; iter < REFINE_ITERATIONS; iter++) {
+      const mid = 0.5 * (lo + hi);
+      const s = s0 + interpolate(surfaceIndex, mid) - y0;
+      if ((s < 0) === upward) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    const tau = 0.5 * (lo + hi);
+
+    const { xIndex, yIndex, wrapX = true, maxPoints = DEFAULT_MAX_POINTS } = this.config;
+    const x = interpolate(xIndex, tau);
+
+    this.points.push({
+      x: wrapX ? normalizeAngle(x) : x,
+      y: interpolate(yIndex, tau),
+      time: prev.time + tau * h,
+      orbit: this.orbit,
+    });
+
+    if (this.points.length > maxPoints) {
+      this.points = this.points.slice(-maxPoints);
+    }
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Power Spectra
+ * Windowed FFTs of a state component or energy time series
+ *
+ * The signal is sampled at a fixed rate in simulation time, interpolated
+ * between integrator steps with cubic Hermite polynomials, so the spectrum
+ * does not depend on the frame rate or step size. Periodic motion shows as
+ * isolated lines, quasi-periodic motion as a comb of lines at combinations of
+ * a few base frequencies, and chaos as a broadband floor.
+ */
+
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import type { StepSample } from '../core/types';
+import { cubicHermite } from '../utils/physics';
+
+export type SpectrumWindow = 'rectangular' | 'hann' | 'blackman';
+
+// Leva select options for the window and transform length
+export const spectrumWindowOptions: Record<string, SpectrumWindow> = {
+  Hann: 'hann',
+  Blackman: 'blackman',
+  Rectangular: 'rectangular',
+};
+export const spectrumSizeOptions = [1024, 2048, 4096, 8192, 16384];
+
+export type SpectrumSignal =
+  | { kind: 'state'; index: number }
+  | { kind: 'energy'; component: 'kinetic' | 'potential' };
+
+export interface SpectrumPeak {
+  frequency: number;
+  amplitude: number;
+}
+
+export interface Spectrum {
+  // Bin centre frequencies (Hz), from 0 to the Nyquist frequency
+  frequencies: Float64Array;
+  // Amplitude of a sinusoid at each bin, in the signal's units
+  amplitudes: Float64Array;
+  // Strongest local maxima, loudest first
+  peaks: SpectrumPeak[];
+  // Samples actually analysed (the rest of the transform is zero padding)
+  sampleCount: number;
+  // Frequency resolution set by the analysed duration (Hz)
+  resolution: number;
+}
+
+export interface SpectrumOptions {
+  window: SpectrumWindow;
+  // Transform length, a power of two
+  size: number;
+  // Number of peaks to report
+  peakCount?: number;
+}
+
+const DEFAULT_PEAK_COUNT = 4;
+
+// Peaks this far below the strongest are treated as leakage, not lines
+const PEAK_FLOOR = 1e-3;
+
+// Weaker peaks closer than this many frequency resolutions to a stronger one
+// are window sidelobes rather than separate lines
+const PEAK_SEPARATION = 8;
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let uRe = 1;
+      let uIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * uRe - im[b] * uIm;
+        const tIm = re[b] * uIm + im[b] * uRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = uRe * wRe - uIm * wIm;
+        uIm = uRe * wIm + uIm * wRe;
+        uRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Window coefficients of length n
+ */
+export function windowCoefficients(window: SpectrumWindow, n: number): Float64Array {
+  const w = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const x = (2 * Math.PI * i) / Math.max(n - 1, 1);
+    switch (window) {
+      case 'hann':
+        w[i] = 0.5 - 0.5 * Math.cos(x);
+        break;
+      case 'blackman':
+        w[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+        break;
+      default:
+        w[i] = 1;
+    }
+  }
+  return w;
+}
+
+/**
+ * One-sided amplitude spectrum of uniformly spaced samples
+ * The mean is removed first so the DC bin does not swamp the plot, and the
+ * result is scaled by the window's coherent gain so a pure sinusoid reads its
+ * own amplitude at the peak.
+ */
+export function amplitudeSpectrum(
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  { window, size, peakCount = DEFAULT_PEAK_COUNT }: SpectrumOptions
+): Spectrum {
+  const count = Math.min(samples.length, size);
+  const offset = samples.length - count;
+
+  let mean = 0;
+  for (let i = 0; i < count; i++) mean += samples[offset + i];
+  mean /= Math.max(count, 1);
+
+  const w = windowCoefficients(window, count);
+  let gain = 0;
+  for (let i = 0; i < count; i++) gain += w[i];
+
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < count; i++) re[i] = (samples[offset + i] - mean) * w[i];
+  fft(re, im);
+
+  const bins = size / 2 + 1;
+  const frequencies = new Float64Array(bins);
+  const amplitudes = new Float64Array(bins);
+  const scale = gain > 0 ? 2 / gain : 0;
+  for (let k = 0; k < bins; k++) {
+    frequencies[k] = (k * sampleRate) / size;
+    amplitudes[k] = Math.hypot(re[k], im[k]) * scale;
+  }
+
+  const resolution = sampleRate / Math.max(count, 1);
+  return {
+    frequencies,
+    amplitudes,
+    peaks: findPeaks(frequencies, amplitudes, peakCount, PEAK_SEPARATION * resolution),
+    sampleCount: count,
+    resolution,
+  };
+}
+
+/**
+ * Strongest local maxima at least minSeparation apart (Hz), refined by fitting
+ * a parabola to the log amplitude of the peak bin and its neighbours
+ */
+export function findPeaks(
+  frequencies: Float64Array,
+  amplitudes: Float64Array,
+  count: number,
+  minSeparation: number = 0
+): SpectrumPeak[] {
+  let max = 0;
+  for (let k = 1; k < amplitudes.length; k++) max = Math.max(max, amplitudes[k]);
+  if (max === 0) return [];
+
+  const binWidth = frequencies[1] - frequencies[0];
+  const peaks: SpectrumPeak[] = [];
+  for (let k = 1; k < amplitudes.length - 1; k++) {
+    const a = amplitudes[k];
+    if (a < max * PEAK_FLOOR || a <= amplitudes[k - 1] || a < amplitudes[k + 1]) continue;
+
+    const l0 = Math.log(Math.max(amplitudes[k - 1], Number.MIN_VALUE));
+    const l1 = Math.log(a);
+    const l2 = Math.log(Math.max(amplitudes[k + 1], Number.MIN_VALUE));
+    const curvature = l0 - 2 * l1 + l2;
+    const shift = curvature < 0 ? (0.5 * (l0 - l2)) / curvature : 0;
+
+    peaks.push({
+      frequency: frequencies[k] + shift * binWidth,
+      amplitude: Math.exp(l1 - 0.25 * (l0 - l2) * shift),
+    });
+  }
+
+  const accepted: SpectrumPeak[] = [];
+  for (const peak of peaks.sort((p, q) => q.amplitude - p.amplitude)) {
+    if (accepted.length === count) break;
+    if (accepted.every((other) => Math.abs(other.frequency - peak.frequency) >= minSeparation)) {
+      accepted.push(peak);
+    }
+  }
+  return accepted;
+}
+
+/**
+ * Samples a signal from a running simulation at a fixed rate
+ */
+export class SpectrumRecorder {
+  private signal: SpectrumSignal;
+  private sampleRate: number;
+  private capacity: number;
+  private samples: Float64Array;
+  // Samples taken since the start time, including those overwritten
+  private count: number = 0;
+  private startTime: number = 0;
+  private lastTime: number = -Infinity;
+  private unsubscribe: (() => void) | null = null;
+  private sim: BaseSimulation | null = null;
+
+  /**
+   * @param capacity Most recent samples kept, at least the largest transform size
+   */
+  constructor(signal: SpectrumSignal, sampleRate: number, capacity: number) {
+    this.signal = signal;
+    this.sampleRate = sampleRate;
+    this.capacity = capacity;
+    this.samples = new Float64Array(capacity);
+  }
+
+  /**
+   * Start observing a simulation's integrator steps
+   */
+  attach(sim: BaseSimulation): void {
+    this.detach();
+    this.sim = sim;
+    this.clear();
+    const unsubscribeSteps = sim.addStepObserver((prev, curr) => this.observe(prev, curr));
+    // Samples must be evenly spaced, so a jump starts a new recording
+    const unsubscribeJumps = sim.addDiscontinuityObserver(() => this.clear());
+    this.unsubscribe = () => {
+      unsubscribeSteps();
+      unsubscribeJumps();
+    };
+  }
+
+  detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.sim = null;
+  }
+
+  isAttachedTo(sim: BaseSimulation): boolean {
+    return this.sim === sim;
+  }
+
+  clear(): void {
+    this.count = 0;
+    this.lastTime = -Infinity;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  /**
+   * Samples taken since the recording (re)started
+   */
+  getSampleCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Recorded samples, oldest first
+   */
+  getSamples(): Float64Array {
+    const n = Math.min(this.count, this.capacity);
+    const out = new Float64Array(n);
+    const start = this.count - n;
+    for (let i = 0; i < n; i++) out[i] = this.samples[(start + i) % this.capacity];
+    return out;
+  }
+
+  compute(options: SpectrumOptions): Spectrum {
+    return amplitudeSpectrum(this.getSamples(), this.sampleRate, options);
+  }
+
+  private observe(prev: StepSample, curr: StepSample): void {
+    const sim = this.sim;
+    if (!sim) return;
+
+    const sampleTime = () => this.startTime + this.count / this.sampleRate;
+
+    // Start over on the first step, when time went backwards (the simulation
+    // was reset or re-initialized) or when it skipped past samples still due.
+    // Steps need not join exactly (event sub-steps, states replayed from a
+    // worker), so small mismatches carry on with the current recording.
+    const restarted = this.lastTime === -Infinity || prev.time < this.lastTime;
+    if (restarted || sampleTime() < prev.time - 1 / this.sampleRate) {
+      this.count = 0;
+      this.startTime = prev.time;
+    }
+    this.lastTime = curr.time;
+
+    if (sampleTime() > curr.time) return;
+
+    // Hermite interpolation needs the slopes at both ends of the step
+    const h = curr.time - prev.time;
+    const f0 = sim.evaluateDerivatives(prev.time, prev.state).slice();
+    const f1 = sim.evaluateDerivatives(curr.time, curr.state).slice();
+    const state = new Array<number>(curr.state.length);
+
+    for (let t = sampleTime(); t <= curr.time; t = sampleTime()) {
+      const tau = h > 0 ? (t - prev.time) / h : 1;
+      for (let i = 0; i < state.length; i++) {
+        state[i] = cubicHermite(prev.state[i], curr.state[i], h * f0[i], h * f1[i], tau);
+      }
+
+      const signal = this.signal;
+      this.samples[this.count % this.capacity] =
+        signal.kind === 'state' ? state[signal.index] : sim.evaluateEnergy(t, state)[signal.component];
+      this.count++;
+    }
+  }
+}
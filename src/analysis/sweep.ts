@@ -0,0 +1,398 @@
+/**
+ * Parameter Sweeps
+ * Runs a model once per point of a parameter grid (or a Latin hypercube
+ * sample of it) and reduces each run to a few scalar metrics
+ *
+ * Everything here is DOM-free, so the same code runs in the browser's sweep
+ * workers and in the headless CLI (npm run sweep). A point is an ordinary run
+ * spec with the swept parameters overridden, so results match single runs of
+ * the headless runner.
+ */
+
+import type { ParameterSchema } from '../core/types';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import { createSimulationById } from '../simulations/registry';
+import { createRunSimulation, parseRunSpec } from '../simulations/runner';
+import type { RunSpec } from '../simulations/runner';
+import { LyapunovEstimator } from './lyapunov';
+import { PoincareSection } from './poincare';
+
+export type SweepScale = 'linear' | 'log';
+export type SweepSampling = 'grid' | 'latin-hypercube';
+
+export const sweepSamplingOptions: Record<string, SweepSampling> = {
+  Grid: 'grid',
+  'Latin hypercube': 'latin-hypercube',
+};
+
+export interface SweepAxis {
+  // Numeric model parameter varied along this axis
+  param: string;
+  min: number;
+  max: number;
+  // Grid points along the axis (ignored by Latin hypercube sampling)
+  steps: number;
+  // Log axes space points evenly in log(value); both ends must be positive
+  scale?: SweepScale;
+}
+
+export interface SweepSpec {
+  // Base run; swept parameters override its params
+  run: RunSpec;
+  axes: SweepAxis[];
+  sampling?: SweepSampling;
+  // Points drawn by Latin hypercube sampling
+  samples?: number;
+  // Seed for Latin hypercube sampling, so a sweep can be repeated exactly
+  seed?: number;
+  // Ids from sweepMetrics
+  metrics: string[];
+}
+
+export interface SweepResults {
+  axes: SweepAxis[];
+  sampling: SweepSampling;
+  // Parameter values of each point, in axis order; for grids axis 0 varies fastest
+  points: number[][];
+  metrics: string[];
+  // Metric values of each point, in metric order; null until computed
+  values: (number[] | null)[];
+}
+
+export interface SweepMetric {
+  label: string;
+  unit: string;
+  description: string;
+  // Called on a freshly initialized simulation before it is run for the
+  // duration; the returned function reads the metric once the run is over
+  start: (sim: BaseSimulation, duration: number) => () => number;
+  // Whether the metric means anything for a model; all models if omitted
+  supports?: (sim: BaseSimulation) => boolean;
+}
+
+/**
+ * Largest relative deviation of the total energy from its initial value
+ * Absolute when the initial energy is zero.
+ */
+function startEnergyDrift(sim: BaseSimulation): () => number {
+  const initial = sim.getEnergy().total;
+  const scale = Math.abs(initial) || 1;
+  let drift = 0;
+  const unsubscribe = sim.addStepObserver((_prev, curr) => {
+    const total = sim.evaluateEnergy(curr.time, curr.state).total;
+    drift = Math.max(drift, Math.abs(total - initial) / scale);
+  });
+  return () => {
+    unsubscribe();
+    return drift;
+  };
+}
+
+/**
+ * Maximal Lyapunov exponent from the tangent dynamics over the whole run
+ * The estimator integrates its own copy of the trajectory with RK4.
+ */
+function startLyapunov(sim: BaseSimulation, duration: number): () => number {
+  const estimator = new LyapunovEstimator(sim, { exponents: 1 });
+  return () => {
+    estimator.advance(duration);
+    return estimator.getMaximalExponent();
+  };
+}
+
+/**
+ * Whether a model declares which of its state entries are swing angles
+ */
+function hasAngles(sim: BaseSimulation): boolean {
+  return sim.getAngleIndices !== undefined;
+}
+
+/**
+ * Time until any angle first passes ±π, to within a step; NaN if none does
+ */
+function startFlipTime(sim: BaseSimulation): () => number {
+  let flipTime = NaN;
+  const angles = sim.getAngleIndices?.() ?? [];
+  const unsubscribe = sim.addStepObserver((_prev, curr) => {
+    if (!Number.isNaN(flipTime)) return;
+    for (const i of angles) {
+      if (Math.abs(curr.state[i]) > Math.PI) {
+        flipTime = curr.time;
+        return;
+      }
+    }
+  });
+  return () => {
+    unsubscribe();
+    return flipTime;
+  };
+}
+
+/**
+ * Mean time between upward crossings of the first angle through zero
+ * NaN unless there were at least two crossings.
+ */
+function startPeriod(sim: BaseSimulation): () => number {
+  const [angle = 0] = sim.getAngleIndices?.() ?? [];
+  const section = new PoincareSection({ surfaceIndex: angle, surfaceValue: 0, direction: 'positive', xIndex: angle, yIndex: angle });
+  section.attach(sim);
+  return () => {
+    section.detach();
+    const points = section.getPoints();
+    if (points.length < 2) return NaN;
+    return (points[points.length - 1].time - points[0].time) / (points.length - 1);
+  };
+}
+
+export const sweepMetrics: Record<string, SweepMetric> = {
+  energyDrift: {
+    label: 'Energy drift',
+    unit: '',
+    description: 'Largest |E − E₀| / |E₀| over the run',
+    start: startEnergyDrift,
+  },
+  lyapunov: {
+    label: 'Lyapunov λ₁',
+    unit: '1/s',
+    description: 'Maximal Lyapunov exponent over the run',
+    start: startLyapunov,
+  },
+  flipTime: {
+    label: 'Flip time',
+    unit: 's',
+    description: 'Time until an angle first passes ±π (blank if never)',
+    start: startFlipTime,
+    supports: hasAngles,
+  },
+  period: {
+    label: 'Period',
+    unit: 's',
+    description: 'Mean time between upward zero crossings of the first angle',
+    start: startPeriod,
+    supports: hasAngles,
+  },
+};
+
+/**
+ * Ids of the metrics defined for a registered model, in sweepMetrics order
+ */
+export function supportedSweepMetrics(model: string): string[] {
+  const sim = createSimulationById(model);
+  return Object.keys(sweepMetrics).filter((id) => sweepMetrics[id].supports?.(sim) ?? true);
+}
+
+/**
+ * Run one point of a sweep and return its metrics, in the order given
+ */
+export function runSweepPoint(
+  run: RunSpec,
+  axes: SweepAxis[],
+  point: number[],
+  metrics: string[]
+): number[] {
+  const params: Record<string, unknown> = { ...run.params };
+  axes.forEach((axis, i) => {
+    params[axis.param] = point[i];
+  });
+
+  const sim = createRunSimulation({ ...run, params });
+  const finishers = metrics.map((id) => sweepMetrics[id].start(sim, run.duration));
+
+  if (sim.getIntegrationMethod() === 'dopri5') {
+    sim.step(run.duration);
+  } else {
+    const h = sim.config.physics.fixedTimestep;
+    const steps = Math.round(run.duration / h);
+    for (let i = 0; i < steps; i++) sim.step(h);
+  }
+
+  return finishers.map((finish) => finish());
+}
+
+/**
+ * Value of an axis at a fraction u ∈ [0, 1] of its range
+ */
+function axisValue(axis: SweepAxis, u: number): number {
+  if (axis.scale === 'log') {
+    return Math.exp(Math.log(axis.min) + u * (Math.log(axis.max) - Math.log(axis.min)));
+  }
+  return axis.min + u * (axis.max - axis.min);
+}
+
+/**
+ * Small seeded generator (mulberry32), so Latin hypercube samples repeat
+ */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Parameter values of every point of the sweep
+ * A grid takes every combination of the axes' steps, axis 0 varying fastest.
+ * A Latin hypercube splits each axis into as many strata as samples and puts
+ * exactly one point in each stratum of each axis, at random within it.
+ */
+export function sweepPoints(
+  axes: SweepAxis[],
+  sampling: SweepSampling = 'grid',
+  samples: number = 100,
+  seed: number = 1
+): number[][] {
+  if (axes.length === 0) return [];
+
+  if (sampling === 'latin-hypercube') {
+    const random = seededRandom(seed);
+    const columns = axes.map((axis) => {
+      // Fisher-Yates shuffle of the strata
+      const strata = Array.from({ length: samples }, (_, i) => i);
+      for (let i = samples - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [strata[i], strata[j]] = [strata[j], strata[i]];
+      }
+      return strata.map((stratum) => axisValue(axis, (stratum + random()) / samples));
+    });
+    return Array.from({ length: samples }, (_, i) => columns.map((column) => column[i]));
+  }
+
+  const values = axes.map((axis) =>
+    Array.from({ length: axis.steps }, (_, i) => axisValue(axis, axis.steps > 1 ? i / (axis.steps - 1) : 0))
+  );
+  const total = axes.reduce((n, axis) => n * axis.steps, 1);
+  return Array.from({ length: total }, (_, index) => {
+    let rest = index;
+    return values.map((axisValues) => {
+      const value = axisValues[rest % axisValues.length];
+      rest = Math.floor(rest / axisValues.length);
+      return value;
+    });
+  });
+}
+
+/**
+ * Empty results for a sweep, ready to be filled in point by point
+ */
+export function createSweepResults(spec: SweepSpec): SweepResults {
+  const sampling = spec.sampling ?? 'grid';
+  const points = sweepPoints(spec.axes, sampling, spec.samples, spec.seed);
+  return {
+    axes: spec.axes,
+    sampling,
+    points,
+    metrics: spec.metrics,
+    values: new Array(points.length).fill(null),
+  };
+}
+
+const SPEC_KEYS = ['run', 'axes', 'sampling', 'samples', 'seed', 'metrics'];
+const AXIS_KEYS = ['param', 'min', 'max', 'steps', 'scale'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function positiveInteger(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function parseAxis(raw: unknown, index: number, schema: ParameterSchema, model: string): SweepAxis {
+  const name = `axes[${index}]`;
+  if (!isRecord(raw)) throw new Error(`${name} must be a mapping`);
+  for (const key of Object.keys(raw)) {
+    if (!AXIS_KEYS.includes(key)) {
+      throw new Error(`Unknown key "${key}" in ${name} (expected one of: ${AXIS_KEYS.join(', ')})`);
+    }
+  }
+
+  const param = raw.param;
+  if (typeof param !== 'string') throw new Error(`${name}.param must be a parameter name`);
+  const def = schema[param];
+  if (!def || typeof def.value !== 'number') {
+    const numeric = Object.keys(schema).filter((key) => typeof schema[key].value === 'number');
+    throw new Error(`${name}.param "${param}" is not a numeric parameter of ${model} (expected one of: ${numeric.join(', ')})`);
+  }
+
+  // The range defaults to the parameter's own slider range
+  const min = raw.min ?? def.min;
+  const max = raw.max ?? def.max;
+  if (typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max)) {
+    throw new Error(`${name} needs a numeric min and max (${param} has no default range)`);
+  }
+
+  const scale = raw.scale ?? 'linear';
+  if (scale !== 'linear' && scale !== 'log') throw new Error(`${name}.scale must be linear or log`);
+  if (scale === 'log' && (min <= 0 || max <= 0)) throw new Error(`${name} has a log scale, so min and max must be positive`);
+
+  const steps = raw.steps === undefined ? 1 : positiveInteger(raw.steps, `${name}.steps`);
+  return { param, min, max, steps, scale };
+}
+
+/**
+ * Check a parsed JSON/YAML document against the sweep spec shape
+ * The run is checked as a run spec; axis ranges default to the parameter
+ * schema's min and max.
+ */
+export function parseSweepSpec(raw: unknown): SweepSpec {
+  if (!isRecord(raw)) throw new Error('Sweep spec must be a mapping');
+  for (const key of Object.keys(raw)) {
+    if (!SPEC_KEYS.includes(key)) {
+      throw new Error(`Unknown sweep spec key "${key}" (expected one of: ${SPEC_KEYS.join(', ')})`);
+    }
+  }
+
+  const run = parseRunSpec(raw.run);
+  const schema = createSimulationById(run.model).config.defaultParams;
+
+  if (!Array.isArray(raw.axes) || raw.axes.length === 0) throw new Error('axes must be a non-empty list');
+  const axes = raw.axes.map((axis, i) => parseAxis(axis, i, schema, run.model));
+
+  const sampling = raw.sampling ?? 'grid';
+  const samplings: unknown[] = Object.values(sweepSamplingOptions);
+  if (!samplings.includes(sampling)) throw new Error(`sampling must be one of: ${samplings.join(', ')}`);
+
+  if (!Array.isArray(raw.metrics) || raw.metrics.length === 0) throw new Error('metrics must be a non-empty list');
+  const supported = supportedSweepMetrics(run.model);
+  const metrics = raw.metrics.map((id) => {
+    if (typeof id !== 'string' || !sweepMetrics[id]) {
+      throw new Error(`Unknown metric ${JSON.stringify(id)} (expected one of: ${Object.keys(sweepMetrics).join(', ')})`);
+    }
+    if (!supported.includes(id)) {
+      throw new Error(`Metric "${id}" is not defined for ${run.model} (expected one of: ${supported.join(', ')})`);
+    }
+    return id;
+  });
+
+  const spec: SweepSpec = { run, axes, sampling: sampling as SweepSampling, metrics };
+  if (raw.samples !== undefined) spec.samples = positiveInteger(raw.samples, 'samples');
+  if (raw.seed !== undefined) {
+    if (typeof raw.seed !== 'number' || !Number.isInteger(raw.seed)) throw new Error('seed must be an integer');
+    spec.seed = raw.seed;
+  }
+  return spec;
+}
+
+/**
+ * Results as CSV: swept parameters, then metrics, one row per point
+ * Points not computed yet and NaN metrics (e.g. never flipped) are left blank.
+ */
+export function formatSweepCSV(results: SweepResults): string {
+  const lines = [[...results.axes.map((axis) => axis.param), ...results.metrics].join(',')];
+  results.points.forEach((point, i) => {
+    const values = results.values[i];
+    const metrics = results.metrics.map((_, m) => {
+      const value = values?.[m];
+      return value === undefined || Number.isNaN(value) ? '' : String(value);
+    });
+    lines.push([...point.map(String), ...metrics].join(','));
+  });
+  return lines.join('\n');
+}
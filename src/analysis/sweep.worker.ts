@@ -0,0 +1,39 @@
+/**
+ * Sweep Worker
+ * Runs batches of sweep points off the main thread and posts each point's
+ * metrics back as soon as it is done
+ */
+
+import { runSweepPoint } from './sweep';
+import type { SweepAxis } from './sweep';
+import type { RunSpec } from '../simulations/runner';
+
+export interface SweepBatchMessage {
+  type: 'run';
+  run: RunSpec;
+  axes: SweepAxis[];
+  metrics: string[];
+  // Indices into the sweep's point list, with their parameter values
+  tasks: { index: number; point: number[] }[];
+}
+
+export type SweepWorkerMessage =
+  | { type: 'result'; index: number; values: number[] }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+function post(message: SweepWorkerMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<SweepBatchMessage>) => {
+  const { run, axes, metrics, tasks } = event.data;
+  try {
+    for (const { index, point } of tasks) {
+      post({ type: 'result', index, values: runSweepPoint(run, axes, point, metrics) });
+    }
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * useApsideTracker Hook
+ * Attaches an ApsideTracker to a live simulation and streams its apsides
+ * Must be used inside the Canvas (driven by useFrame)
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { ApsideTracker } from './apsides';
+import type { Apside, ApsideTrackerConfig } from './apsides';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+
+interface UseApsideTrackerOptions {
+  enabled: boolean;
+  config: ApsideTrackerConfig;
+  onUpdate: (apsides: Apside[], precessionRate: number) => void;
+}
+
+// How often to push apsides to the UI (ms)
+const UPDATE_INTERVAL = 250;
+
+export function useApsideTracker(
+  simulation: RefObject<BaseSimulation | null>,
+  { enabled, config, onUpdate }: UseApsideTrackerOptions
+): void {
+  const trackerRef = useRef<ApsideTracker | null>(null);
+  const lastUpdateRef = useRef<number>(0);
+  const lastApsideRef = useRef<Apside | null>(null);
+
+  // New tracker whenever the coordinates change
+  useEffect(() => {
+    if (!enabled) return;
+
+    const tracker = new ApsideTracker(config);
+    trackerRef.current = tracker;
+    lastApsideRef.current = null;
+    onUpdate([], 0);
+
+    return () => {
+      tracker.detach();
+      trackerRef.current = null;
+    };
+  }, [enabled, config, onUpdate]);
+
+  useFrame(() => {
+    const tracker = trackerRef.current;
+    const sim = simulation.current;
+    if (!tracker || !sim) return;
+
+    // Attach lazily so a re-created simulation instance is picked up
+    if (!tracker.isAttachedTo(sim)) {
+      tracker.attach(sim);
+    }
+
+    const now = performance.now();
+    const apsides = tracker.getApsides();
+    const latest = apsides[apsides.length - 1] ?? null;
+    if (now - lastUpdateRef.current >= UPDATE_INTERVAL && latest !== lastApsideRef.current) {
+      lastUpdateRef.current = now;
+      lastApsideRef.current = latest;
+      onUpdate([...apsides], tracker.getPrecessionRate());
+    }
+  });
+}
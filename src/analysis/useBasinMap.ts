@@ -0,0 +1,141 @@
+/**
+ * useBasinMap Hook
+ * Runs a basin-of-attraction sweep in time-sliced chunks, filling the map in
+ * place so it can be drawn while it is still being computed. A stopped sweep
+ * can be resumed where it left off.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { basinSweep } from './basins';
+import type { BasinOptions, GridAxis } from './basins';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+
+export interface BasinMap {
+  x: GridAxis;
+  y: GridAxis;
+  // Row-major attractor index per pixel, row 0 at y.min; -1 never settled, -2 not computed
+  attractors: Int16Array;
+  // Simulated time until the run was classified
+  times: Float32Array;
+  // Pixels painted per outcome, indexed by attractor + 1 (so unsettled first)
+  counts: number[];
+}
+
+interface UseBasinMapReturn {
+  map: BasinMap | null;
+  // Bumped after every slice that changed the map
+  version: number;
+  running: boolean;
+  progress: number;
+  start: <S extends BaseSimulation>(options: BasinOptions<S>) => void;
+  // Continue a stopped sweep from the first grid point it had not reached
+  resume: () => void;
+  cancel: () => void;
+}
+
+// Work per slice before yielding back to the browser (ms)
+const SLICE_BUDGET = 12;
+
+export function useBasinMap(): UseBasinMapReturn {
+  const [map, setMap] = useState<BasinMap | null>(null);
+  const [version, setVersion] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Sweep in progress and how far it has got, kept for resuming
+  const sweepRef = useRef<{ options: BasinOptions; map: BasinMap; computed: number } | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    setRunning(false);
+  }, []);
+
+  // Runs the stored sweep from its first uncomputed point
+  const run = useCallback(() => {
+    const current = sweepRef.current;
+    if (!current) return;
+
+    const { options, map: target } = current;
+    const { x, y } = options;
+    const total = x.steps * y.steps;
+    const sweep = basinSweep({ ...options, skip: current.computed });
+    setRunning(true);
+
+    const runSlice = () => {
+      const sliceStart = performance.now();
+      let done = false;
+
+      while (performance.now() - sliceStart < SLICE_BUDGET) {
+        const result = sweep.next();
+        if (result.done) {
+          done = true;
+          break;
+        }
+
+        // Paint the block this point stands for until finer passes reach it
+        const cell = result.value;
+        const rowEnd = Math.min(cell.row + cell.size, y.steps);
+        const columnEnd = Math.min(cell.column + cell.size, x.steps);
+        for (let row = cell.row; row < rowEnd; row++) {
+          for (let column = cell.column; column < columnEnd; column++) {
+            const i = row * x.steps + column;
+            const previous = target.attractors[i];
+            if (previous !== -2) target.counts[previous + 1]--;
+            target.counts[cell.attractor + 1] = (target.counts[cell.attractor + 1] ?? 0) + 1;
+            target.attractors[i] = cell.attractor;
+            target.times[i] = cell.time;
+          }
+        }
+        current.computed++;
+      }
+
+      setVersion((v) => v + 1);
+      setProgress(current.computed / total);
+
+      if (done) {
+        timerRef.current = null;
+        setRunning(false);
+      } else {
+        timerRef.current = setTimeout(runSlice, 0);
+      }
+    };
+
+    timerRef.current = setTimeout(runSlice, 0);
+  }, []);
+
+  const start = useCallback(
+    <S extends BaseSimulation>(options: BasinOptions<S>) => {
+      cancel();
+
+      const { x, y } = options;
+      const total = x.steps * y.steps;
+      const next: BasinMap = {
+        x,
+        y,
+        attractors: new Int16Array(total).fill(-2),
+        times: new Float32Array(total),
+        counts: [],
+      };
+      sweepRef.current = { options: options as unknown as BasinOptions, map: next, computed: 0 };
+      setMap(next);
+      setProgress(0);
+      run();
+    },
+    [cancel, run]
+  );
+
+  const resume = useCallback(() => {
+    const current = sweepRef.current;
+    if (timerRef.current !== null || !current) return;
+    if (current.computed >= current.options.x.steps * current.options.y.steps) return;
+    run();
+  }, [run]);
+
+  // Stop any running sweep on unmount
+  useEffect(() => cancel, [cancel]);
+
+  return { map, version, running, progress, start, resume, cancel };
+}
@@ -0,0 +1,78 @@
+/**
+ * useBifurcationSweep Hook
+ * Runs a bifurcation sweep in time-sliced chunks so the UI stays responsive
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { bifurcationSweep } from './bifurcation';
+import type { BifurcationColumn, BifurcationOptions } from './bifurcation';
+
+interface UseBifurcationSweepReturn {
+  columns: BifurcationColumn[];
+  running: boolean;
+  progress: number;
+  start: (options: BifurcationOptions) => void;
+  cancel: () => void;
+}
+
+// Work per slice before yielding back to the browser (ms)
+const SLICE_BUDGET = 12;
+
+export function useBifurcationSweep(): UseBifurcationSweepReturn {
+  const [columns, setColumns] = useState<BifurcationColumn[]>([]);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    setRunning(false);
+  }, []);
+
+  const start = useCallback(
+    (options: BifurcationOptions) => {
+      cancel();
+
+      const sweep = bifurcationSweep(options);
+      const collected: BifurcationColumn[] = [];
+      setColumns([]);
+      setProgress(0);
+      setRunning(true);
+
+      const runSlice = () => {
+        const sliceStart = performance.now();
+        let done = false;
+
+        while (performance.now() - sliceStart < SLICE_BUDGET) {
+          const next = sweep.next();
+          if (next.done) {
+            done = true;
+            break;
+          }
+          collected.push(next.value);
+        }
+
+        setColumns([...collected]);
+        setProgress(collected.length / options.steps);
+
+        if (done) {
+          timerRef.current = null;
+          setRunning(false);
+        } else {
+          timerRef.current = setTimeout(runSlice, 0);
+        }
+      };
+
+      timerRef.current = setTimeout(runSlice, 0);
+    },
+    [cancel]
+  );
+
+  // Stop any running sweep on unmount
+  useEffect(() => cancel, [cancel]);
+
+  return { columns, running, progress, start, cancel };
+}
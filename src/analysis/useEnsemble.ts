@@ -0,0 +1,81 @@
+/**
+ * useEnsemble Hook
+ * Runs perturbed shadow copies in lockstep with a live simulation
+ * Must be used inside the Canvas (driven by useFrame)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Ensemble } from './ensemble';
+import type { SeparationSample } from './ensemble';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+import type { IntegrationMethod, PhysicsState } from '../core/types';
+
+interface UseEnsembleOptions {
+  enabled: boolean;
+  count: number;
+  epsilon: number;
+  // Builds a blank instance of the live simulation's model
+  createSimulation: () => BaseSimulation;
+  onUpdate: (history: SeparationSample[]) => void;
+}
+
+// How often to push the separation history to the UI (ms)
+const UPDATE_INTERVAL = 100;
+
+/**
+ * @returns Current state of every shadow copy, for rendering
+ */
+export function useEnsemble(
+  simulation: RefObject<BaseSimulation | null>,
+  { enabled, count, epsilon, createSimulation, onUpdate }: UseEnsembleOptions
+): PhysicsState[] {
+  const ensembleRef = useRef<Ensemble | null>(null);
+  const methodRef = useRef<IntegrationMethod | null>(null);
+  const lastUpdateRef = useRef<number>(0);
+  const [states, setStates] = useState<PhysicsState[]>([]);
+
+  // Respawn whenever the settings change
+  useEffect(() => {
+    ensembleRef.current = null;
+    onUpdate([]);
+  }, [enabled, count, epsilon, createSimulation, onUpdate]);
+
+  useFrame(() => {
+    const sim = simulation.current;
+    if (!enabled || !sim) {
+      if (states.length > 0) setStates([]);
+      return;
+    }
+
+    let ensemble = ensembleRef.current;
+
+    // Simulation was reset, re-initialized or switched integrator: respawn from its current state
+    if (
+      !ensemble ||
+      sim.getTime() < ensemble.getTime() - sim.config.physics.fixedTimestep ||
+      sim.getIntegrationMethod() !== methodRef.current
+    ) {
+      ensemble = new Ensemble(sim, createSimulation, { count, epsilon });
+      ensembleRef.current = ensemble;
+      methodRef.current = sim.getIntegrationMethod();
+      onUpdate([]);
+    }
+
+    const previousTime = ensemble.getTime();
+    ensemble.advanceTo(sim.getTime());
+    const shadows = ensemble.getStates();
+    if (shadows.length > 0 && (ensemble.getTime() !== previousTime || states.length === 0)) {
+      setStates([...shadows]);
+    }
+
+    const now = performance.now();
+    if (now - lastUpdateRef.current >= UPDATE_INTERVAL) {
+      lastUpdateRef.current = now;
+      onUpdate([...ensemble.getHistory()]);
+    }
+  });
+
+  return states;
+}
@@ -0,0 +1,76 @@
+/**
+ * useLyapunovEstimator Hook
+ * Runs a LyapunovEstimator in lockstep with a live simulation
+ * Must be used inside the Canvas (driven by useFrame)
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { LyapunovEstimator } from './lyapunov';
+import type { LyapunovSample } from './lyapunov';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+
+interface UseLyapunovEstimatorOptions {
+  enabled: boolean;
+  exponents?: number;
+  onUpdate: (history: LyapunovSample[]) => void;
+}
+
+// How often to push the convergence history to the UI (ms)
+const UPDATE_INTERVAL = 250;
+
+export function useLyapunovEstimator(
+  simulation: RefObject<BaseSimulation | null>,
+  { enabled, exponents, onUpdate }: UseLyapunovEstimatorOptions
+): void {
+  const estimatorRef = useRef<LyapunovEstimator | null>(null);
+  const lastUpdateRef = useRef<number>(0);
+  // Set when the simulation's trajectory jumps (e.g. a worker mirror catching up)
+  const jumpedRef = useRef(false);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  // Start over whenever the settings change
+  useEffect(() => {
+    estimatorRef.current = null;
+    onUpdate([]);
+  }, [enabled, exponents, onUpdate]);
+
+  useEffect(() => {
+    return () => {
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = null;
+    };
+  }, []);
+
+  useFrame(() => {
+    const sim = simulation.current;
+    if (!enabled || !sim) return;
+
+    let estimator = estimatorRef.current;
+
+    // Simulation was reset, re-initialized or jumped: restart from its current state
+    if (
+      !estimator ||
+      jumpedRef.current ||
+      sim.getTime() < estimator.getTime() - sim.config.physics.fixedTimestep
+    ) {
+      estimator = new LyapunovEstimator(sim, { exponents });
+      estimatorRef.current = estimator;
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = sim.addDiscontinuityObserver(() => {
+        jumpedRef.current = true;
+      });
+      jumpedRef.current = false;
+      onUpdate([]);
+    }
+
+    estimator.advanceTo(sim.getTime());
+
+    const now = performance.now();
+    if (now - lastUpdateRef.current >= UPDATE_INTERVAL) {
+      lastUpdateRef.current = now;
+      onUpdate([...estimator.getHistory()]);
+    }
+  });
+}
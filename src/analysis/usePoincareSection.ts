@@ -0,0 +1,73 @@
+/**
+ * usePoincareSection Hook
+ * Attaches a PoincareSection to a live simulation and streams its points
+ * Must be used inside the Canvas (driven by useFrame)
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PoincareSection } from './poincare';
+import type { PoincarePoint, PoincareSectionConfig } from './poincare';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+
+interface UsePoincareSectionOptions {
+  enabled: boolean;
+  config: PoincareSectionConfig;
+  // Changing this value discards the accumulated points
+  clearToken?: number;
+  onUpdate: (points: PoincarePoint[]) => void;
+}
+
+// How often to push points to the UI (ms)
+const UPDATE_INTERVAL = 250;
+
+export function usePoincareSection(
+  simulation: RefObject<BaseSimulation | null>,
+  { enabled, config, clearToken = 0, onUpdate }: UsePoincareSectionOptions
+): void {
+  const sectionRef = useRef<PoincareSection | null>(null);
+  const lastUpdateRef = useRef<number>(0);
+  const lastPointRef = useRef<PoincarePoint | null>(null);
+
+  // New section whenever the surface definition changes
+  useEffect(() => {
+    if (!enabled) return;
+
+    const section = new PoincareSection(config);
+    sectionRef.current = section;
+    lastPointRef.current = null;
+    onUpdate([]);
+
+    return () => {
+      section.detach();
+      sectionRef.current = null;
+    };
+  }, [enabled, config, onUpdate]);
+
+  useEffect(() => {
+    sectionRef.current?.clear();
+    lastPointRef.current = null;
+    onUpdate([]);
+  }, [clearToken, onUpdate]);
+
+  useFrame(() => {
+    const section = sectionRef.current;
+    const sim = simulation.current;
+    if (!section || !sim) return;
+
+    // Attach lazily so a re-created simulation instance is picked up
+    if (!section.isAttachedTo(sim)) {
+      section.attach(sim);
+    }
+
+    const now = performance.now();
+    const points = section.getPoints();
+    const latest = points[points.length - 1] ?? null;
+    if (now - lastUpdateRef.current >= UPDATE_INTERVAL && latest !== lastPointRef.current) {
+      lastUpdateRef.current = now;
+      lastPointRef.current = latest;
+      onUpdate([...points]);
+    }
+  });
+}
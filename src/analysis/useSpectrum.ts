@@ -0,0 +1,82 @@
+/**
+ * useSpectrum Hook
+ * Records a signal from a live simulation and streams its spectrum
+ * Must be used inside the Canvas (driven by useFrame)
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { SpectrumRecorder } from './spectrum';
+import type { Spectrum, SpectrumSignal, SpectrumWindow } from './spectrum';
+import type { BaseSimulation } from '../simulations/templates/BaseSimulation';
+
+interface UseSpectrumOptions {
+  enabled: boolean;
+  signal: SpectrumSignal;
+  window: SpectrumWindow;
+  // Transform length, a power of two no larger than MAX_SPECTRUM_SIZE
+  size: number;
+  // Samples per second of simulation time
+  sampleRate?: number;
+  onUpdate: (spectrum: Spectrum | null) => void;
+}
+
+// Largest transform the recorder keeps samples for
+export const MAX_SPECTRUM_SIZE = 16384;
+
+// Fast enough for the harmonics of any pendulum in the collection
+const DEFAULT_SAMPLE_RATE = 50;
+
+// How often to recompute the spectrum (ms)
+const UPDATE_INTERVAL = 250;
+
+export function useSpectrum(
+  simulation: RefObject<BaseSimulation | null>,
+  { enabled, signal, window, size, sampleRate = DEFAULT_SAMPLE_RATE, onUpdate }: UseSpectrumOptions
+): void {
+  const recorderRef = useRef<SpectrumRecorder | null>(null);
+  const lastUpdateRef = useRef<number>(0);
+  const lastCountRef = useRef<number>(-1);
+
+  // New recording whenever the signal changes
+  useEffect(() => {
+    if (!enabled) return;
+
+    const recorder = new SpectrumRecorder(signal, sampleRate, MAX_SPECTRUM_SIZE);
+    recorderRef.current = recorder;
+    lastCountRef.current = -1;
+    onUpdate(null);
+
+    return () => {
+      recorder.detach();
+      recorderRef.current = null;
+    };
+  }, [enabled, signal, sampleRate, onUpdate]);
+
+  // Recompute from the samples already held when only the analysis changes
+  useEffect(() => {
+    lastCountRef.current = -1;
+  }, [window, size]);
+
+  useFrame(() => {
+    const recorder = recorderRef.current;
+    const sim = simulation.current;
+    if (!recorder || !sim) return;
+
+    // Attach lazily so a re-created simulation instance is picked up
+    if (!recorder.isAttachedTo(sim)) {
+      recorder.attach(sim);
+    }
+
+    // Nothing new while paused
+    const count = recorder.getSampleCount();
+    const now = performance.now();
+    if (now - lastUpdateRef.current < UPDATE_INTERVAL || count === lastCountRef.current) return;
+    lastUpdateRef.current = now;
+    lastCountRef.current = count;
+
+    const spectrum = recorder.compute({ window, size });
+    onUpdate(spectrum.sampleCount >= 2 ? spectrum : null);
+  });
+}
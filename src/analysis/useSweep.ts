@@ -0,0 +1,124 @@
+/**
+ * useSweep Hook
+ * Runs a parameter sweep on a pool of Web Workers, filling the results in
+ * place as points finish so they can be drawn while the sweep is running
+ *
+ * Points are handed out in small batches, so a worker that draws cheap points
+ * (runs that flip early, say) simply takes more batches.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createSweepResults } from './sweep';
+import type { SweepResults, SweepSpec } from './sweep';
+import type { SweepBatchMessage, SweepWorkerMessage } from './sweep.worker';
+
+interface UseSweepReturn {
+  results: SweepResults | null;
+  // Bumped whenever points have been filled in
+  version: number;
+  running: boolean;
+  progress: number;
+  // Message of the first point that failed, which stops the sweep
+  error: string | null;
+  start: (spec: SweepSpec) => void;
+  cancel: () => void;
+}
+
+// Points per message to a worker
+const BATCH_SIZE = 4;
+
+// Upper bound on the pool, whatever the core count
+const MAX_WORKERS = 8;
+
+// Results are pushed to React at most this often (ms)
+const SWEEP_UPDATE_INTERVAL = 100;
+
+export function useSweep(): UseSweepReturn {
+  const [results, setResults] = useState<SweepResults | null>(null);
+  const [version, setVersion] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const workersRef = useRef<Worker[]>([]);
+
+  const cancel = useCallback(() => {
+    workersRef.current.forEach((worker) => worker.terminate());
+    workersRef.current = [];
+    setRunning(false);
+  }, []);
+
+  const start = useCallback(
+    (spec: SweepSpec) => {
+      cancel();
+
+      const target = createSweepResults(spec);
+      const total = target.points.length;
+      let next = 0;
+      let completed = 0;
+      let lastUpdate = 0;
+
+      setResults(target);
+      setProgress(0);
+      setError(null);
+      if (total === 0) return;
+
+      const publish = () => {
+        lastUpdate = performance.now();
+        setVersion((v) => v + 1);
+        setProgress(completed / total);
+      };
+
+      // Hand the worker the next batch, if any points are left
+      const dispatch = (worker: Worker) => {
+        if (next >= total) return;
+        const end = Math.min(next + BATCH_SIZE, total);
+        const tasks: SweepBatchMessage['tasks'] = [];
+        for (let index = next; index < end; index++) tasks.push({ index, point: target.points[index] });
+        next = end;
+        const message: SweepBatchMessage = { type: 'run', run: spec.run, axes: spec.axes, metrics: spec.metrics, tasks };
+        worker.postMessage(message);
+      };
+
+      const poolSize = Math.max(
+        1,
+        Math.min((navigator.hardwareConcurrency || 2) - 1, MAX_WORKERS, Math.ceil(total / BATCH_SIZE))
+      );
+      const workers = Array.from(
+        { length: poolSize },
+        () => new Worker(new URL('./sweep.worker.ts', import.meta.url), { type: 'module' })
+      );
+      workersRef.current = workers;
+
+      for (const worker of workers) {
+        worker.onmessage = (event: MessageEvent<SweepWorkerMessage>) => {
+          const message = event.data;
+          if (message.type === 'result') {
+            target.values[message.index] = message.values;
+            completed++;
+            if (completed === total) {
+              publish();
+              cancel();
+            } else if (performance.now() - lastUpdate >= SWEEP_UPDATE_INTERVAL) {
+              publish();
+            }
+          } else if (message.type === 'done') {
+            dispatch(worker);
+          } else {
+            setError(message.message);
+            publish();
+            cancel();
+          }
+        };
+        dispatch(worker);
+      }
+
+      setRunning(true);
+    },
+    [cancel]
+  );
+
+  // Stop the workers on unmount
+  useEffect(() => cancel, [cancel]);
+
+  return { results, version, running, progress, error, start, cancel };
+}
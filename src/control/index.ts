@@ -0,0 +1,4 @@
+export * from './types';
+export * from './pid';
+export * from './lqr';
+export * from './swingUp';
@@ -0,0 +1,207 @@
+/**
+ * LQR Controller
+ * Linear-quadratic regulator about the upright equilibrium
+ *
+ * The cart-pole is linearized in z = [x, φ, ẋ, φ̇] with φ = θ - π, discretized
+ * with a zero-order hold at the controller's sample period, and the discrete
+ * algebraic Riccati equation is solved for the optimal gain. The feedback
+ * u = -K (z - z_ref) minimizes Σ zᵀQz + Ru² for the linear model; it is only
+ * trustworthy near upright, so far from it the force simply saturates.
+ *
+ * Matrices are row-major flat arrays, like solveLinearSystem.
+ */
+
+import { normalizeAngle, solveLinearSystem } from '../utils/physics';
+import type { CartPoleModel, Controller } from './types';
+
+export interface LQRWeights {
+  // Diagonal of Q for [x, φ, ẋ, φ̇]
+  q: [number, number, number, number];
+  r: number;
+}
+
+export interface LinearSystem {
+  // n×n state matrix
+  A: number[];
+  // n×1 input matrix
+  B: number[];
+  n: number;
+}
+
+// Terms kept in the matrix exponential series; ‖A dt‖ is well below 1 at physics timesteps
+const EXPONENTIAL_TERMS = 16;
+
+const RICCATI_TOLERANCE = 1e-12;
+const RICCATI_MAX_ITERATIONS = 64;
+
+/**
+ * Continuous-time linearization of the cart-pole about upright (z = 0, F = 0)
+ */
+export function linearizeCartPole(model: CartPoleModel): LinearSystem {
+  const { cartMass: M, poleMass: m, length: L, gravity: g, cartFriction: b, poleDamping: c } = model;
+
+  // Mass matrix [[M+m, -mL], [-mL, mL²]] at θ = π has determinant mL²M
+  const A = [
+    0, 0, 1, 0,
+    0, 0, 0, 1,
+    0, (m * g) / M, -b / M, -c / (L * M),
+    0, ((M + m) * g) / (L * M), -b / (L * M), -((M + m) * c) / (m * L * L * M),
+  ];
+  const B = [0, 0, 1 / M, 1 / (L * M)];
+
+  return { A, B, n: 4 };
+}
+
+function multiply(X: number[], Y: number[], n: number): number[] {
+  const out = new Array<number>(n * n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) {
+      const x = X[i * n + k];
+      if (x === 0) continue;
+      for (let j = 0; j < n; j++) {
+        out[i * n + j] += x * Y[k * n + j];
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Zero-order-hold discretization: Ad = e^{A dt}, Bd = ∫₀^dt e^{As} ds · B
+ */
+export function discretize(system: LinearSystem, dt: number): LinearSystem {
+  const { A, B, n } = system;
+
+  // Power series: e^{A dt} = Σ (A dt)^k / k!, and the integral Σ A^k dt^{k+1} / (k+1)!
+  const Ad = new Array<number>(n * n).fill(0);
+  const integral = new Array<number>(n * n).fill(0);
+  let term = new Array<number>(n * n).fill(0);
+  for (let i = 0; i < n; i++) term[i * n + i] = 1;
+
+  for (let k = 0; k < EXPONENTIAL_TERMS; k++) {
+    // term = (A dt)^k / k!
+    for (let i = 0; i < n * n; i++) {
+      Ad[i] += term[i];
+      integral[i] += (term[i] * dt) / (k + 1);
+    }
+    term = multiply(term, A, n).map((v) => (v * dt) / (k + 1));
+  }
+
+  const Bd = new Array<number>(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) Bd[i] += integral[i * n + k] * B[k];
+  }
+
+  return { A: Ad, B: Bd, n };
+}
+
+function transpose(X: number[], n: number): number[] {
+  const out = new Array<number>(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) out[i * n + j] = X[j * n + i];
+  }
+  return out;
+}
+
+// W⁻¹·Y, one column at a time
+function leftDivide(W: number[], Y: number[], n: number): number[] {
+  const out = new Array<number>(n * n);
+  for (let j = 0; j < n; j++) {
+    const column = solveLinearSystem([...W], Y.filter((_, idx) => idx % n === j), n);
+    for (let i = 0; i < n; i++) out[i * n + j] = column[i];
+  }
+  return out;
+}
+
+/**
+ * Discrete LQR gain for a single-input system
+ * The Riccati equation P = Q + AᵀPA - AᵀPB (R + BᵀPB)⁻¹ BᵀPA is solved with
+ * the structure-preserving doubling algorithm: every iteration doubles the
+ * horizon, so it converges in a few dozen iterations even when the sample
+ * period is tiny and plain fixed-point iteration would lose the slow modes
+ * to round-off.
+ */
+export function solveDiscreteLQR(system: LinearSystem, q: number[], r: number): number[] {
+  const { B, n } = system;
+
+  let A = [...system.A];
+  // G = B R⁻¹ Bᵀ, H = Q
+  let G = new Array<number>(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) G[i * n + j] = (B[i] * B[j]) / r;
+  }
+  let H = new Array<number>(n * n).fill(0);
+  for (let i = 0; i < n; i++) H[i * n + i] = q[i];
+
+  for (let iter = 0; iter < RICCATI_MAX_ITERATIONS; iter++) {
+    // W = I + GH
+    const W = multiply(G, H, n);
+    for (let i = 0; i < n; i++) W[i * n + i] += 1;
+
+    const WA = leftDivide(W, A, n);
+    const WG = leftDivide(W, G, n);
+    const At = transpose(A, n);
+
+    const nextG = multiply(multiply(A, WG, n), At, n).map((v, i) => G[i] + v);
+    const nextH = multiply(multiply(At, H, n), WA, n).map((v, i) => H[i] + v);
+    A = multiply(A, WA, n);
+
+    let change = 0;
+    let scale = 0;
+    for (let i = 0; i < n * n; i++) {
+      change = Math.max(change, Math.abs(nextH[i] - H[i]));
+      scale = Math.max(scale, Math.abs(nextH[i]));
+    }
+    G = nextG;
+    H = nextH;
+
+    if (change <= RICCATI_TOLERANCE * scale) break;
+  }
+
+  // K = (R + BᵀPB)⁻¹ BᵀPA
+  const P = H;
+  const PB = new Array<number>(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) PB[i] += P[i * n + k] * B[k];
+  }
+  let s = r;
+  for (let i = 0; i < n; i++) s += B[i] * PB[i];
+
+  const K = new Array<number>(n).fill(0);
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) K[j] += PB[i] * system.A[i * n + j];
+    K[j] /= s;
+  }
+  return K;
+}
+
+export class LQRController implements Controller {
+  readonly name = 'LQR';
+  private gain: number[];
+  private target: number;
+
+  /**
+   * @param timestep Sample period the force is held for (usually the physics fixed timestep)
+   * @param target Cart position to regulate to (m)
+   */
+  constructor(model: CartPoleModel, weights: LQRWeights, timestep: number, target = 0) {
+    const discrete = discretize(linearizeCartPole(model), timestep);
+    this.gain = solveDiscreteLQR(discrete, weights.q, weights.r);
+    this.target = target;
+  }
+
+  /**
+   * Feedback gain K for [x, φ, ẋ, φ̇]
+   */
+  getGain(): number[] {
+    return [...this.gain];
+  }
+
+  computeForce(state: number[]): number {
+    const [x, theta, xDot, omega] = state;
+    const K = this.gain;
+    return -(K[0] * (x - this.target) + K[1] * normalizeAngle(theta - Math.PI) + K[2] * xDot + K[3] * omega);
+  }
+
+  reset(): void {}
+}
@@ -0,0 +1,53 @@
+/**
+ * PID Controller
+ * Classic three-term feedback on the pole's tilt from upright
+ *
+ * The error is φ = θ - π wrapped to [-π, π]. φ > 0 leans the bob towards -x,
+ * so the cart has to be pushed towards -x to get back underneath it and the
+ * force is F = -(Kp φ + Ki ∫φ dt + Kd φ̇).
+ *
+ * A PID on the angle alone balances the pole but lets the cart drift away.
+ * The optional outer loop tilts the angle setpoint towards the track centre,
+ * φ_ref = Kx x + Kv ẋ, which walks the cart back.
+ */
+
+import { normalizeAngle, clamp } from '../utils/physics';
+import type { Controller } from './types';
+
+export interface PIDGains {
+  kp: number;
+  ki: number;
+  kd: number;
+  // Outer loop on the cart position and velocity (rad/m, rad·s/m)
+  positionGain?: number;
+  velocityGain?: number;
+  // Anti-windup bound on the integrated error (rad·s)
+  integralLimit?: number;
+}
+
+export class PIDController implements Controller {
+  readonly name = 'PID';
+  private gains: Required<PIDGains>;
+  private integral: number = 0;
+
+  constructor(gains: PIDGains) {
+    this.gains = { positionGain: 0, velocityGain: 0, integralLimit: 1, ...gains };
+  }
+
+  computeForce(state: number[], _t: number, dt: number): number {
+    const g = this.gains;
+    const [x, theta, xDot, omega] = state;
+
+    const setpoint = g.positionGain * x + g.velocityGain * xDot;
+    const error = normalizeAngle(theta - Math.PI) - setpoint;
+
+    this.integral = clamp(this.integral + error * dt, -g.integralLimit, g.integralLimit);
+
+    // Derivative on the measured rate avoids a kick when the setpoint moves
+    return -(g.kp * error + g.ki * this.integral + g.kd * omega);
+  }
+
+  reset(): void {
+    this.integral = 0;
+  }
+}
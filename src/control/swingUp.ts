@@ -0,0 +1,85 @@
+/**
+ * Energy Swing-Up Controller
+ * Pumps energy into the pole until it reaches the upright energy (Åström & Furuta)
+ *
+ * With the pendulum energy measured from hanging, E = ½mL²θ̇² + mgL(1 - cos θ),
+ * a cart acceleration a changes it at dE/dt = -mL a θ̇ cos θ. Commanding
+ * a = k g (Ê - 2) sign(θ̇ cos θ), with Ê = E / mgL, drives E towards the upright
+ * value 2mgL from either side. The acceleration is turned into a force with the
+ * exact cart-pole dynamics, and a weak spring on the cart keeps it on the track.
+ *
+ * Once the pole swings within the catch angle of upright, control is handed to
+ * the balancing controller (typically LQR).
+ */
+
+import { normalizeAngle, clamp } from '../utils/physics';
+import type { CartPoleModel, Controller } from './types';
+
+export interface SwingUpOptions {
+  // Dimensionless energy gain k
+  gain: number;
+  // Cart acceleration limit as a multiple of g
+  maxAcceleration?: number;
+  // Centring spring and damper on the cart (1/s², 1/s)
+  positionGain?: number;
+  velocityGain?: number;
+  // Hand over to the balancing controller within this angle of upright (rad)
+  catchAngle?: number;
+}
+
+export class EnergySwingUpController implements Controller {
+  readonly name: string;
+  private model: CartPoleModel;
+  private options: Required<SwingUpOptions>;
+  private balance: Controller | null;
+  private balancing: boolean = false;
+
+  constructor(model: CartPoleModel, options: SwingUpOptions, balance: Controller | null = null) {
+    this.model = model;
+    this.options = { maxAcceleration: 2, positionGain: 1, velocityGain: 1, catchAngle: 0.3, ...options };
+    this.balance = balance;
+    this.name = balance ? `Swing-up + ${balance.name}` : 'Swing-up';
+  }
+
+  /**
+   * Whether the balancing controller currently has control
+   */
+  isBalancing(): boolean {
+    return this.balancing;
+  }
+
+  computeForce(state: number[], t: number, dt: number): number {
+    const { cartMass: M, poleMass: m, length: L, gravity: g, cartFriction: b, poleDamping: c } = this.model;
+    const o = this.options;
+    const [x, theta, xDot, omega] = state;
+
+    const wasBalancing = this.balancing;
+    this.balancing = this.balance !== null && Math.abs(normalizeAngle(theta - Math.PI)) < o.catchAngle;
+    if (this.balance && this.balancing) {
+      if (!wasBalancing) this.balance.reset();
+      return this.balance.computeForce(state, t, dt);
+    }
+
+    const sinT = Math.sin(theta);
+    const cosT = Math.cos(theta);
+
+    // Specific energy relative to hanging, 2 at upright rest
+    const energy = (L * omega * omega) / (2 * g) + 1 - cosT;
+    // Hanging at rest has no preferred direction, so give it a push
+    const direction = omega * cosT >= 0 ? 1 : -1;
+
+    const accel = clamp(
+      o.gain * g * (energy - 2) * direction - o.positionGain * x - o.velocityGain * xDot,
+      -o.maxAcceleration * g,
+      o.maxAcceleration * g
+    );
+
+    // Force that produces this cart acceleration once the pole's reaction is accounted for
+    return (M + m * sinT * sinT) * accel - m * sinT * (g * cosT + L * omega * omega) - (c / L) * omega * cosT + b * xDot;
+  }
+
+  reset(): void {
+    this.balancing = false;
+    this.balance?.reset();
+  }
+}
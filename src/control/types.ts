@@ -0,0 +1,32 @@
+/**
+ * Control Types
+ * Shared interfaces for feedback controllers acting on the cart-pole
+ */
+
+/**
+ * Physical parameters a model-based controller designs against
+ * Angles follow the rest of the pendulums: θ = 0 hangs straight down, θ = π is upright.
+ */
+export interface CartPoleModel {
+  cartMass: number;
+  poleMass: number;
+  length: number;
+  gravity: number;
+  // Viscous friction on the cart (N·s/m)
+  cartFriction: number;
+  // Viscous damping at the pivot (N·m·s/rad)
+  poleDamping: number;
+}
+
+/**
+ * Maps the cart-pole state [x, θ, ẋ, θ̇] to a horizontal force on the cart
+ * The force is sampled once per step and held while the integrator advances
+ * (zero-order hold), the same way a digital controller drives real hardware.
+ */
+export interface Controller {
+  readonly name: string;
+  // Force on the cart (N); dt is the step the force will be held for
+  computeForce(state: number[], t: number, dt: number): number;
+  // Clear integrators and mode switches, e.g. after a reset
+  reset(): void;
+}
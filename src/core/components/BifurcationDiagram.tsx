@@ -0,0 +1,123 @@
+/**
+ * BifurcationDiagram
+ * Stroboscopic samples plotted against the swept parameter
+ *
+ * Draws to a 2D canvas since a full sweep holds tens of thousands of points.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useThemeStore } from '../stores';
+
+interface BifurcationDiagramProps {
+  columns: { value: number; samples: number[] }[];
+  range: [number, number];
+  // Current value of the swept parameter, drawn as a marker
+  marker?: number;
+  progress?: number;
+  width?: number;
+  height?: number;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+export function BifurcationDiagram({
+  columns,
+  range,
+  marker,
+  progress = 1,
+  width = 320,
+  height = 220,
+  xLabel = 'parameter',
+  yLabel = 'θ (rad)',
+}: BifurcationDiagramProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    const padding = 30;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    const [min, max] = range;
+    const span = max - min || 1;
+
+    // Angles are wrapped to [-π, π]
+    const mapX = (v: number) => padding + ((v - min) / span) * graphWidth;
+    const mapY = (theta: number) => padding + graphHeight / 2 - (theta / Math.PI) * (graphHeight / 2);
+
+    // Axes
+    ctx.strokeStyle = colors.axis;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding, padding);
+    ctx.lineTo(padding, height - padding);
+    ctx.lineTo(width - padding, height - padding);
+    ctx.stroke();
+
+    // Labels and range
+    ctx.fillStyle = colors.textMuted;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(min.toFixed(2), padding, height - padding + 12);
+    ctx.textAlign = 'right';
+    ctx.fillText(max.toFixed(2), width - padding, height - padding + 12);
+    ctx.textAlign = 'center';
+    ctx.fillText(xLabel, width / 2, height - 6);
+    ctx.save();
+    ctx.translate(10, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(yLabel, 0, 0);
+    ctx.restore();
+
+    // Samples
+    ctx.fillStyle = colors.phasePoint;
+    for (const column of columns) {
+      const x = mapX(column.value);
+      for (const theta of column.samples) {
+        ctx.fillRect(x - 0.5, mapY(theta) - 0.5, 1, 1);
+      }
+    }
+
+    // Current parameter marker
+    if (marker !== undefined && marker >= min && marker <= max) {
+      ctx.strokeStyle = colors.accent;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(mapX(marker), padding);
+      ctx.lineTo(mapX(marker), height - padding);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }, [columns, range, marker, width, height, colors, xLabel, yLabel]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        right: 300,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Bifurcation Diagram{' '}
+        {progress < 1 && (
+          <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>
+            ({Math.round(progress * 100)}%)
+          </span>
+        )}
+      </div>
+      <canvas ref={canvasRef} width={width} height={height} style={{ display: 'block' }} />
+    </div>
+  );
+}
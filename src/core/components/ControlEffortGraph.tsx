@@ -0,0 +1,136 @@
+/**
+ * ControlEffortGraph
+ * Overlay showing the force a controller applies over time
+ */
+
+import { useMemo } from 'react';
+import { useThemeStore } from '../stores';
+
+interface ControlEffortGraphProps {
+  history: { time: number; force: number }[];
+  // Actuator limit, drawn as dashed saturation lines (N)
+  limit: number;
+  width?: number;
+  height?: number;
+}
+
+export function ControlEffortGraph({
+  history,
+  limit,
+  width = 300,
+  height = 120,
+}: ControlEffortGraphProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  const { path, zeroY, limitY, current, rms } = useMemo(() => {
+    const padding = 10;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+
+    // Symmetric range with a little headroom above the saturation limit
+    const range = limit * 1.1 || 1;
+    const mapY = (f: number) => padding + graphHeight / 2 - (f / range) * (graphHeight / 2);
+
+    if (history.length < 2) {
+      return { path: '', zeroY: mapY(0), limitY: [mapY(limit), mapY(-limit)], current: null, rms: 0 };
+    }
+
+    const t0 = history[0].time;
+    const tSpan = history[history.length - 1].time - t0 || 1;
+    const mapX = (t: number) => padding + ((t - t0) / tSpan) * graphWidth;
+
+    let sumSquares = 0;
+    for (const s of history) sumSquares += s.force * s.force;
+
+    return {
+      path: history
+        .map((s, i) => `${i === 0 ? 'M' : 'L'} ${mapX(s.time)} ${mapY(s.force)}`)
+        .join(' '),
+      zeroY: mapY(0),
+      limitY: [mapY(limit), mapY(-limit)],
+      current: history[history.length - 1].force,
+      rms: Math.sqrt(sumSquares / history.length),
+    };
+  }, [history, limit, width, height]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        left: 350,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Control Effort <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>(N, ±{limit.toFixed(0)})</span>
+      </div>
+      <svg width={width} height={height} style={{ display: 'block' }}>
+        {/* Zero line */}
+        <line
+          x1={10}
+          y1={zeroY}
+          x2={width - 10}
+          y2={zeroY}
+          stroke={colors.grid}
+          strokeWidth={1}
+        />
+        <line
+          x1={10}
+          y1={10}
+          x2={10}
+          y2={height - 10}
+          stroke={colors.grid}
+          strokeWidth={1}
+        />
+
+        {/* Saturation limits */}
+        {limitY.map((y, i) => (
+          <line
+            key={i}
+            x1={10}
+            y1={y}
+            x2={width - 10}
+            y2={y}
+            stroke={colors.textMuted}
+            strokeWidth={1}
+            strokeDasharray="4 4"
+            opacity={0.6}
+          />
+        ))}
+
+        {path && (
+          <path
+            d={path}
+            fill="none"
+            stroke={colors.accent}
+            strokeWidth={1.5}
+            opacity={0.9}
+          />
+        )}
+      </svg>
+
+      {/* Legend */}
+      <div style={{ display: 'flex', gap: 15, marginTop: 5 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <div
+            style={{
+              width: 12,
+              height: 3,
+              background: colors.accent,
+              borderRadius: 1,
+            }}
+          />
+          <span>F: {current?.toFixed(2) ?? '0'}</span>
+        </div>
+        <span>RMS: {rms.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * FlipTimeMapView
+ * Time until a pendulum first flips over the top, over a grid of initial angles
+ *
+ * Pixels are colored on a log scale of the flip time, from red for immediate
+ * flips to violet for the slowest; starts that never flip are left dark and
+ * pixels not computed yet are transparent. Clicking a pixel reports its
+ * coordinates so the scene can load that initial condition.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { MouseEvent } from 'react';
+import type { Vector2 } from '../types';
+import { useThemeStore } from '../stores';
+import { hslToRgb } from './colors';
+
+interface MapAxis {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+interface FlipTimeMapViewProps {
+  // Row-major grid, row 0 at y.min; outcome -1 never flipped, -2 not computed
+  map: { x: MapAxis; y: MapAxis; attractors: ArrayLike<number>; times: ArrayLike<number> };
+  // The map is filled in place, so a changed version is what triggers a redraw
+  version: number;
+  // Longest time simulated, the top of the color scale
+  maxTime: number;
+  // Bottom of the color scale; defaults to a thousandth of maxTime
+  minTime?: number;
+  progress?: number;
+  // Current initial condition, drawn as a crosshair
+  marker?: Vector2;
+  onSelect?: (x: number, y: number) => void;
+  width?: number;
+  height?: number;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+// Hue of the fastest and slowest flips (degrees)
+const FAST_HUE = 0;
+const SLOW_HUE = 270;
+
+export function FlipTimeMapView({
+  map,
+  version,
+  maxTime,
+  minTime = maxTime / 1000,
+  progress = 1,
+  marker,
+  onSelect,
+  width = 300,
+  height = 300,
+  title = 'Flip Time',
+  xLabel = 'x',
+  yLabel = 'y',
+}: FlipTimeMapViewProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Map pixels at their native resolution, scaled up onto the plot
+  const pixelsRef = useRef<HTMLCanvasElement | null>(null);
+
+  const padding = 30;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { x, y, attractors, times } = map;
+
+    if (!pixelsRef.current) pixelsRef.current = document.createElement('canvas');
+    const pixels = pixelsRef.current;
+    pixels.width = x.steps;
+    pixels.height = y.steps;
+    const pixelCtx = pixels.getContext('2d');
+    if (!pixelCtx) return;
+
+    const image = pixelCtx.createImageData(x.steps, y.steps);
+    const logMin = Math.log(minTime);
+    const logSpan = Math.log(maxTime) - logMin || 1;
+    for (let row = 0; row < y.steps; row++) {
+      // Image rows run top-down, grid rows bottom-up
+      const imageRow = y.steps - 1 - row;
+      for (let col = 0; col < x.steps; col++) {
+        const i = row * x.steps + col;
+        const o = (imageRow * x.steps + col) * 4;
+        if (attractors[i] === -2) continue;
+        if (attractors[i] < 0) {
+          image.data[o + 3] = 255;
+          continue;
+        }
+        const u = Math.min(Math.max((Math.log(Math.max(times[i], minTime)) - logMin) / logSpan, 0), 1);
+        const [r, g, b] = hslToRgb(FAST_HUE + (SLOW_HUE - FAST_HUE) * u, 0.75, 0.55 - 0.2 * u);
+        image.data[o] = r;
+        image.data[o + 1] = g;
+        image.data[o + 2] = b;
+        image.data[o + 3] = 255;
+      }
+    }
+    pixelCtx.putImageData(image, 0, 0);
+
+    ctx.clearRect(0, 0, width, height);
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(pixels, padding, padding, graphWidth, graphHeight);
+
+    // Axes
+    ctx.strokeStyle = colors.axis;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(padding, padding, graphWidth, graphHeight);
+
+    // Labels and range
+    ctx.fillStyle = colors.textMuted;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(x.min.toFixed(2), padding, height - padding + 12);
+    ctx.textAlign = 'right';
+    ctx.fillText(x.max.toFixed(2), width - padding, height - padding + 12);
+    ctx.fillText(y.max.toFixed(2), padding - 3, padding + 8);
+    ctx.fillText(y.min.toFixed(2), padding - 3, height - padding);
+    ctx.textAlign = 'center';
+    ctx.fillText(xLabel, width / 2, height - 6);
+    ctx.save();
+    ctx.translate(10, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(yLabel, 0, 0);
+    ctx.restore();
+
+    // Current initial condition
+    if (marker) {
+      const mx = padding + ((marker.x - x.min) / (x.max - x.min || 1)) * graphWidth;
+      const my = height - padding - ((marker.y - y.min) / (y.max - y.min || 1)) * graphHeight;
+      ctx.strokeStyle = colors.text;
+      ctx.beginPath();
+      ctx.moveTo(mx - 6, my);
+      ctx.lineTo(mx + 6, my);
+      ctx.moveTo(mx, my - 6);
+      ctx.lineTo(mx, my + 6);
+      ctx.stroke();
+    }
+  }, [map, version, maxTime, minTime, marker, width, height, colors, xLabel, yLabel]);
+
+  const handleClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (!onSelect) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const u = (e.clientX - rect.left - padding) / (width - padding * 2);
+    const v = 1 - (e.clientY - rect.top - padding) / (height - padding * 2);
+    if (u < 0 || u > 1 || v < 0 || v > 1) return;
+    const { x, y } = map;
+    onSelect(x.min + u * (x.max - x.min), y.min + v * (y.max - y.min));
+  };
+
+  // Color scale legend
+  const legend = Array.from({ length: 7 }, (_, i) => {
+    const [r, g, b] = hslToRgb(FAST_HUE + ((SLOW_HUE - FAST_HUE) * i) / 6, 0.75, 0.55 - (0.2 * i) / 6);
+    return `rgb(${r}, ${g}, ${b})`;
+  });
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 20,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        {title}
+        {progress < 1 && <span style={{ color: colors.textMuted, fontWeight: 'normal' }}> {(progress * 100).toFixed(0)}%</span>}
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onClick={handleClick}
+        style={{ display: 'block', cursor: onSelect ? 'crosshair' : 'default' }}
+      />
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 4, color: colors.textMuted }}>
+        <span>{minTime.toPrecision(2)} s</span>
+        <div style={{ flex: 1, height: 8, borderRadius: 2, background: `linear-gradient(to right, ${legend.join(', ')})` }} />
+        <span>{maxTime.toPrecision(3)} s</span>
+        <span style={{ display: 'inline-block', width: 8, height: 8, background: '#000', border: `1px solid ${colors.panelBorder}` }} />
+        <span>never</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * GroundTrackView
+ * Top-down projection of a bob's path onto the horizontal plane
+ *
+ * Drawn at a fixed scale (the rod length) so rosettes and precessing swing
+ * planes keep their shape as the orbit evolves.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { Vector2 } from '../types';
+import { useThemeStore } from '../stores';
+
+interface GroundTrackViewProps {
+  // Horizontal positions (x, z in the scene), oldest first
+  points: Vector2[];
+  // Marked positions, e.g. apsides; the latest is joined to the centre
+  markers?: Vector2[];
+  // Horizontal reach of the bob, drawn as the boundary circle
+  radius: number;
+  width?: number;
+  height?: number;
+  title?: string;
+}
+
+export function GroundTrackView({
+  points,
+  markers = [],
+  radius,
+  width = 250,
+  height = 250,
+  title = 'Ground Track',
+}: GroundTrackViewProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    const cx = width / 2;
+    const cy = height / 2;
+    const scale = (Math.min(width, height) / 2 - 10) / (radius || 1);
+
+    // Scene z points towards the viewer, so it maps to screen down
+    const mapX = (x: number) => cx + x * scale;
+    const mapY = (z: number) => cy + z * scale;
+
+    // Boundary circle and crosshair
+    ctx.strokeStyle = colors.axis;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius * scale, 0, 2 * Math.PI);
+    ctx.moveTo(cx - radius * scale, cy);
+    ctx.lineTo(cx + radius * scale, cy);
+    ctx.moveTo(cx, cy - radius * scale);
+    ctx.lineTo(cx, cy + radius * scale);
+    ctx.stroke();
+
+    // Path
+    if (points.length > 1) {
+      ctx.strokeStyle = colors.phaseTrajectory;
+      ctx.globalAlpha = 0.8;
+      ctx.beginPath();
+      ctx.moveTo(mapX(points[0].x), mapY(points[0].y));
+      for (let i = 1; i < points.length; i++) {
+        ctx.lineTo(mapX(points[i].x), mapY(points[i].y));
+      }
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+
+    // Markers, with the latest joined to the centre
+    if (markers.length > 0) {
+      ctx.fillStyle = colors.accent;
+      for (const m of markers) {
+        ctx.fillRect(mapX(m.x) - 1.5, mapY(m.y) - 1.5, 3, 3);
+      }
+      const latest = markers[markers.length - 1];
+      ctx.strokeStyle = colors.accent;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.lineTo(mapX(latest.x), mapY(latest.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Current position
+    const last = points[points.length - 1];
+    if (last) {
+      ctx.fillStyle = colors.phasePoint;
+      ctx.beginPath();
+      ctx.arc(mapX(last.x), mapY(last.y), 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }, [points, markers, radius, width, height, colors]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        right: 20,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>{title}</div>
+      <canvas ref={canvasRef} width={width} height={height} style={{ display: 'block' }} />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * LyapunovGraph
+ * Overlay showing convergence of the Lyapunov exponent estimates
+ */
+
+import { useMemo } from 'react';
+import { useThemeStore } from '../stores';
+
+interface LyapunovGraphProps {
+  history: { time: number; exponents: number[] }[];
+  width?: number;
+  height?: number;
+}
+
+const subscripts = ['₁', '₂', '₃', '₄', '₅', '₆', '₇', '₈', '₉'];
+
+export function LyapunovGraph({
+  history,
+  width = 300,
+  height = 120,
+}: LyapunovGraphProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  const seriesColors = [colors.primary, colors.secondary, colors.tertiary, colors.accent];
+
+  const { paths, zeroY, current, maxAbs } = useMemo(() => {
+    if (history.length < 2) {
+      return { paths: [], zeroY: height / 2, current: [], maxAbs: 1 };
+    }
+
+    // Symmetric range around zero so positive/negative pairs read naturally
+    let maxAbs = 0;
+    for (const sample of history) {
+      for (const v of sample.exponents) maxAbs = Math.max(maxAbs, Math.abs(v));
+    }
+    maxAbs = maxAbs * 1.1 || 1;
+
+    const padding = 10;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    const t0 = history[0].time;
+    const tSpan = history[history.length - 1].time - t0 || 1;
+
+    const mapX = (t: number) => padding + ((t - t0) / tSpan) * graphWidth;
+    const mapY = (v: number) => padding + graphHeight / 2 - (v / maxAbs) * (graphHeight / 2);
+
+    const count = history[history.length - 1].exponents.length;
+    const paths: string[] = [];
+    for (let k = 0; k < count; k++) {
+      paths.push(
+        history
+          .map((s, i) => `${i === 0 ? 'M' : 'L'} ${mapX(s.time)} ${mapY(s.exponents[k] ?? 0)}`)
+          .join(' ')
+      );
+    }
+
+    return {
+      paths,
+      zeroY: mapY(0),
+      current: history[history.length - 1].exponents,
+      maxAbs,
+    };
+  }, [history, width, height]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        left: 350,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Lyapunov Exponents <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>(1/s, ±{maxAbs.toFixed(2)})</span>
+      </div>
+      <svg width={width} height={height} style={{ display: 'block' }}>
+        {/* Zero line */}
+        <line
+          x1={10}
+          y1={zeroY}
+          x2={width - 10}
+          y2={zeroY}
+          stroke={colors.grid}
+          strokeWidth={1}
+        />
+        <line
+          x1={10}
+          y1={10}
+          x2={10}
+          y2={height - 10}
+          stroke={colors.grid}
+          strokeWidth={1}
+        />
+
+        {paths.map((d, i) => (
+          <path
+            key={i}
+            d={d}
+            fill="none"
+            stroke={seriesColors[i % seriesColors.length]}
+            strokeWidth={i === 0 ? 2 : 1.5}
+            opacity={0.9}
+          />
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div style={{ display: 'flex', gap: 12, marginTop: 5, flexWrap: 'wrap' }}>
+        {current.map((value, i) => (
+          <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            <div
+              style={{
+                width: 12,
+                height: 3,
+                background: seriesColors[i % seriesColors.length],
+                borderRadius: 1,
+              }}
+            />
+            <span>
+              λ{subscripts[i] ?? i + 1}: {value.toFixed(3)}
+            </span>
+          </div>
+        ))}
+        {current.length === 0 && <span style={{ color: colors.textMuted }}>Collecting…</span>}
+      </div>
+    </div>
+  );
+}
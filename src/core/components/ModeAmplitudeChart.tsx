@@ -0,0 +1,98 @@
+/**
+ * ModeAmplitudeChart
+ * Overlay with live bars for the normal-mode amplitudes of a coupled system
+ * next to the share of energy each oscillator currently holds
+ */
+
+import { useThemeStore } from '../stores';
+
+interface ModeAmplitudeChartProps {
+  // Amplitude of each normal mode, slowest first (rad)
+  amplitudes: number[];
+  // Angular frequency of each mode (rad/s)
+  frequencies: number[];
+  // Energy held by each oscillator (J); shown as fractions of the total
+  energies: number[];
+  height?: number;
+}
+
+export function ModeAmplitudeChart({
+  amplitudes,
+  frequencies,
+  energies,
+  height = 90,
+}: ModeAmplitudeChartProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  // Bars are relative to the strongest mode, so the mix reads at a glance
+  const scale = Math.max(...amplitudes, 1e-9);
+  const totalEnergy = energies.reduce((sum, e) => sum + e, 0) || 1;
+
+  const barGroup = (
+    title: string,
+    values: number[],
+    labels: string[],
+    color: string,
+    titles: string[]
+  ) => (
+    <div>
+      <div style={{ color: colors.textMuted, marginBottom: 4 }}>{title}</div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 4, height }}>
+        {values.map((value, i) => (
+          <div
+            key={i}
+            title={titles[i]}
+            style={{
+              width: 16,
+              height: `${Math.min(Math.max(value, 0), 1) * 100}%`,
+              background: color,
+              borderRadius: 2,
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 4, marginTop: 3 }}>
+        {labels.map((label, i) => (
+          <span key={i} style={{ width: 16, textAlign: 'center', color: colors.textMuted }}>
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        left: 350,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>Normal Modes</div>
+      <div style={{ display: 'flex', gap: 20 }}>
+        {barGroup(
+          `amplitude (max ${scale.toFixed(3)} rad)`,
+          amplitudes.map((a) => a / scale),
+          amplitudes.map((_, j) => `${j + 1}`),
+          colors.primary,
+          amplitudes.map((a, j) => `mode ${j + 1}: ${a.toFixed(4)} rad at ω = ${frequencies[j]?.toFixed(3)} rad/s`)
+        )}
+        {barGroup(
+          'energy per pendulum',
+          energies.map((e) => e / totalEnergy),
+          energies.map((_, i) => String.fromCharCode(65 + i)),
+          colors.secondary,
+          energies.map((e) => `${((e / totalEnergy) * 100).toFixed(1)}%`)
+        )}
+      </div>
+    </div>
+  );
+}
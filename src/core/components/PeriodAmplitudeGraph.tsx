@@ -0,0 +1,132 @@
+/**
+ * PeriodAmplitudeGraph
+ * Overlay plotting a pendulum's period against its swing amplitude
+ *
+ * Periods are drawn relative to the small-angle period T₀, so the curve starts
+ * at 1 and the dashed line marks where the small-angle formula would sit. The
+ * current swing is marked on the curve, with the measured period beside it.
+ */
+
+import { useMemo } from 'react';
+import { useThemeStore } from '../stores';
+
+interface PeriodAmplitudeGraphProps {
+  // Period (s) at increasing amplitudes (rad), from 0 towards π
+  curve: { amplitude: number; period: number }[];
+  smallAnglePeriod: number;
+  // Current swing; measured is null until a full period has been timed
+  current?: { amplitude: number; exact: number; measured: number | null };
+  width?: number;
+  height?: number;
+}
+
+// The period diverges at π, so the ratio axis is clipped here
+const MAX_RATIO = 3;
+
+export function PeriodAmplitudeGraph({
+  curve,
+  smallAnglePeriod,
+  current,
+  width = 300,
+  height = 120,
+}: PeriodAmplitudeGraphProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  const padding = 10;
+
+  const { path, mapX, mapY } = useMemo(() => {
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    const mapX = (amplitude: number) => padding + (Math.abs(amplitude) / Math.PI) * graphWidth;
+    const mapY = (period: number) => {
+      const ratio = Math.min(period / smallAnglePeriod, MAX_RATIO);
+      return padding + graphHeight - ((ratio - 1) / (MAX_RATIO - 1)) * graphHeight;
+    };
+
+    const path = curve
+      .filter((s) => Number.isFinite(s.period))
+      .map((s, i) => `${i === 0 ? 'M' : 'L'} ${mapX(s.amplitude)} ${mapY(s.period)}`)
+      .join(' ');
+
+    return { path, mapX, mapY };
+  }, [curve, smallAnglePeriod, width, height]);
+
+  const swinging = current !== undefined && Number.isFinite(current.exact) && Math.abs(current.amplitude) < Math.PI;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        left: 350,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Period vs Amplitude{' '}
+        <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>(T / T₀, 0° to 180°)</span>
+      </div>
+      <svg width={width} height={height} style={{ display: 'block' }}>
+        <line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke={colors.grid} strokeWidth={1} />
+        <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke={colors.grid} strokeWidth={1} />
+
+        {/* Small-angle approximation, T = T₀ at every amplitude */}
+        <line
+          x1={padding}
+          y1={mapY(smallAnglePeriod)}
+          x2={width - padding}
+          y2={mapY(smallAnglePeriod)}
+          stroke={colors.textMuted}
+          strokeWidth={1}
+          strokeDasharray="4 3"
+        />
+
+        {path && <path d={path} fill="none" stroke={colors.primary} strokeWidth={2} />}
+
+        {swinging && (
+          <>
+            <line
+              x1={mapX(current.amplitude)}
+              y1={padding}
+              x2={mapX(current.amplitude)}
+              y2={height - padding}
+              stroke={colors.grid}
+              strokeWidth={1}
+            />
+            <circle cx={mapX(current.amplitude)} cy={mapY(current.exact)} r={4} fill={colors.primary} />
+            {current.measured !== null && (
+              <circle
+                cx={mapX(current.amplitude)}
+                cy={mapY(current.measured)}
+                r={4}
+                fill="none"
+                stroke={colors.secondary}
+                strokeWidth={2}
+              />
+            )}
+          </>
+        )}
+      </svg>
+
+      <div style={{ display: 'flex', gap: 12, marginTop: 5, flexWrap: 'wrap' }}>
+        {swinging ? (
+          <>
+            <span>θ₀: {((Math.abs(current.amplitude) * 180) / Math.PI).toFixed(1)}°</span>
+            <span style={{ color: colors.primary }}>exact: {(current.exact / smallAnglePeriod).toFixed(4)}</span>
+            <span style={{ color: colors.secondary }}>
+              measured: {current.measured !== null ? (current.measured / smallAnglePeriod).toFixed(4) : '—'}
+            </span>
+          </>
+        ) : (
+          <span style={{ color: colors.textMuted }}>Going over the top, no swing amplitude</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * PoincareSectionView
+ * Scatter plot of Poincaré section crossings
+ *
+ * Draws to a 2D canvas instead of SVG so thousands of points stay cheap.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useThemeStore } from '../stores';
+
+interface PoincareSectionViewProps {
+  points: { x: number; y: number; orbit: number }[];
+  width?: number;
+  height?: number;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+export function PoincareSectionView({
+  points,
+  width = 250,
+  height = 250,
+  title = 'Poincaré Section',
+  xLabel = 'θ (rad)',
+  yLabel = 'ω (rad/s)',
+}: PoincareSectionViewProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    const padding = 30;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+
+    // Axes
+    ctx.strokeStyle = colors.axis;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding, padding);
+    ctx.lineTo(padding, height - padding);
+    ctx.lineTo(width - padding, height - padding);
+    ctx.stroke();
+
+    // Axis labels
+    ctx.fillStyle = colors.textMuted;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(xLabel, width / 2, height - 8);
+    ctx.save();
+    ctx.translate(10, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(yLabel, 0, 0);
+    ctx.restore();
+
+    if (points.length === 0) return;
+
+    // Find bounds
+    let minX = Infinity,
+      maxX = -Infinity;
+    let minY = Infinity,
+      maxY = -Infinity;
+    for (const p of points) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    }
+
+    // Add padding
+    const xPad = (maxX - minX) * 0.05 || 0.5;
+    const yPad = (maxY - minY) * 0.05 || 1;
+    minX -= xPad;
+    maxX += xPad;
+    minY -= yPad;
+    maxY += yPad;
+
+    const orbitColors = [
+      colors.phasePoint,
+      colors.primary,
+      colors.secondary,
+      colors.tertiary,
+      colors.accent,
+    ];
+
+    for (const p of points) {
+      const x = padding + ((p.x - minX) / (maxX - minX)) * graphWidth;
+      const y = padding + graphHeight - ((p.y - minY) / (maxY - minY)) * graphHeight;
+      ctx.fillStyle = orbitColors[p.orbit % orbitColors.length];
+      ctx.fillRect(x - 0.75, y - 0.75, 1.5, 1.5);
+    }
+  }, [points, width, height, colors, xLabel, yLabel]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        right: 300,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        {title} <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>({points.length} pts)</span>
+      </div>
+      <canvas ref={canvasRef} width={width} height={height} style={{ display: 'block' }} />
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * SeparationGraph
+ * Overlay showing how far perturbed shadow copies have drifted from a run
+ *
+ * Separation is plotted on a log scale, so exponential divergence shows as a
+ * straight line whose slope (converted to natural log) estimates the largest
+ * Lyapunov exponent.
+ */
+
+import { useMemo } from 'react';
+import { useThemeStore } from '../stores';
+
+interface SeparationGraphProps {
+  // log₁₀ separation of every copy over time
+  history: { time: number; logSeparations: number[] }[];
+  // Initial perturbation, drawn as a reference line
+  epsilon?: number;
+  width?: number;
+  height?: number;
+}
+
+// Only separations below this are used for the slope, before saturation sets in
+const SATURATION_LOG = -1;
+
+export function SeparationGraph({
+  history,
+  epsilon,
+  width = 300,
+  height = 120,
+}: SeparationGraphProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  const { copyPaths, meanPath, epsilonY, range, current, slope } = useMemo(() => {
+    const means = history.map(
+      (s) => s.logSeparations.reduce((sum, v) => sum + v, 0) / Math.max(s.logSeparations.length, 1)
+    );
+
+    if (history.length < 2) {
+      return { copyPaths: [], meanPath: '', epsilonY: null, range: [0, 0], current: null, slope: null };
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const sample of history) {
+      for (const v of sample.logSeparations) {
+        if (!Number.isFinite(v)) continue;
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      }
+    }
+    if (epsilon !== undefined) {
+      min = Math.min(min, Math.log10(epsilon));
+      max = Math.max(max, Math.log10(epsilon));
+    }
+    min = Math.floor(min);
+    max = Math.ceil(max) === min ? min + 1 : Math.ceil(max);
+
+    const padding = 10;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    const t0 = history[0].time;
+    const tSpan = history[history.length - 1].time - t0 || 1;
+
+    const mapX = (t: number) => padding + ((t - t0) / tSpan) * graphWidth;
+    const mapY = (v: number) => padding + graphHeight - ((v - min) / (max - min)) * graphHeight;
+
+    const count = history[history.length - 1].logSeparations.length;
+    const copyPaths: string[] = [];
+    for (let k = 0; k < count; k++) {
+      copyPaths.push(
+        history
+          .map((s, i) => `${i === 0 ? 'M' : 'L'} ${mapX(s.time)} ${mapY(s.logSeparations[k] ?? min)}`)
+          .join(' ')
+      );
+    }
+    const meanPath = history.map((s, i) => `${i === 0 ? 'M' : 'L'} ${mapX(s.time)} ${mapY(means[i])}`).join(' ');
+
+    // Least-squares slope of the mean ln separation before it saturates
+    let n = 0;
+    let sumT = 0;
+    let sumV = 0;
+    let sumTT = 0;
+    let sumTV = 0;
+    for (let i = 0; i < history.length; i++) {
+      if (means[i] > SATURATION_LOG) break;
+      const t = history[i].time;
+      const v = means[i] * Math.LN10;
+      n++;
+      sumT += t;
+      sumV += v;
+      sumTT += t * t;
+      sumTV += t * v;
+    }
+    const denominator = n * sumTT - sumT * sumT;
+
+    return {
+      copyPaths,
+      meanPath,
+      epsilonY: epsilon !== undefined ? mapY(Math.log10(epsilon)) : null,
+      range: [min, max],
+      current: means[means.length - 1],
+      slope: n >= 3 && denominator > 0 ? (n * sumTV - sumT * sumV) / denominator : null,
+    };
+  }, [history, epsilon, width, height]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 210,
+        left: 350,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Shadow Separation{' '}
+        <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>
+          (log₁₀ d, 10^{range[0]} to 10^{range[1]})
+        </span>
+      </div>
+      <svg width={width} height={height} style={{ display: 'block' }}>
+        <line x1={10} y1={10} x2={10} y2={height - 10} stroke={colors.grid} strokeWidth={1} />
+        <line x1={10} y1={height - 10} x2={width - 10} y2={height - 10} stroke={colors.grid} strokeWidth={1} />
+
+        {/* Initial perturbation */}
+        {epsilonY !== null && (
+          <line
+            x1={10}
+            y1={epsilonY}
+            x2={width - 10}
+            y2={epsilonY}
+            stroke={colors.textMuted}
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        )}
+
+        {copyPaths.map((d, i) => (
+          <path key={i} d={d} fill="none" stroke={colors.secondary} strokeWidth={1} opacity={0.4} />
+        ))}
+        {meanPath && <path d={meanPath} fill="none" stroke={colors.primary} strokeWidth={2} />}
+      </svg>
+
+      <div style={{ display: 'flex', gap: 12, marginTop: 5, flexWrap: 'wrap' }}>
+        {current !== null ? (
+          <>
+            <span>⟨log₁₀ d⟩: {current.toFixed(2)}</span>
+            <span>slope: {slope !== null ? `${slope.toFixed(3)} /s` : '—'}</span>
+          </>
+        ) : (
+          <span style={{ color: colors.textMuted }}>Collecting…</span>
+        )}
+      </div>
+    </div>
+  );
+}
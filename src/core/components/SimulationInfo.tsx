@@ -3,6 +3,7 @@
  * Displays simulation metadata and current state info
  */
 
+import { Fragment } from 'react';
 import { useThemeStore, useSimulationStore } from '../stores';
 import type { SimulationMeta } from '../types';
 
@@ -10,15 +11,18 @@ interface SimulationInfoProps {
   meta: SimulationMeta;
   params?: Record<string, unknown>;
   showParams?: boolean;
+  // Model-specific readouts appended to the status grid
+  stats?: { label: string; value: string }[];
 }
 
 export function SimulationInfo({
   meta,
   params,
   showParams = false,
+  stats,
 }: SimulationInfoProps) {
   const colors = useThemeStore((s) => s.colors);
-  const { elapsedTime, isPlaying, speed } = useSimulationStore();
+  const { elapsedTime, isPlaying, speed, integrationStats } = useSimulationStore();
 
   return (
     <div
@@ -72,6 +76,27 @@ export function SimulationInfo({
           {isPlaying ? `Playing (${speed}x)` : 'Paused'}
         </span>
 
+        {integrationStats && (
+          <>
+            <span style={{ color: colors.textMuted }}>Steps:</span>
+            <span style={{ fontFamily: 'monospace' }}>
+              {integrationStats.acceptedSteps} ok / {integrationStats.rejectedSteps} rejected
+            </span>
+
+            <span style={{ color: colors.textMuted }}>Step size:</span>
+            <span style={{ fontFamily: 'monospace' }}>
+              {integrationStats.lastStepSize.toExponential(2)}s
+            </span>
+          </>
+        )}
+
+        {stats?.map(({ label, value }) => (
+          <Fragment key={label}>
+            <span style={{ color: colors.textMuted }}>{label}:</span>
+            <span style={{ fontFamily: 'monospace' }}>{value}</span>
+          </Fragment>
+        ))}
+
         {meta.category && (
           <>
             <span style={{ color: colors.textMuted }}>Category:</span>
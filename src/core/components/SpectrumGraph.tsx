@@ -0,0 +1,152 @@
+/**
+ * SpectrumGraph
+ * Overlay showing the amplitude spectrum of a simulation signal
+ *
+ * On the log scale amplitudes are in decibels relative to the strongest bin,
+ * which is what separates clean lines from a broadband chaotic floor. The
+ * strongest peaks are labelled with their frequency, and reference
+ * frequencies (e.g. a theoretical prediction) are drawn as dashed lines.
+ */
+
+import { useMemo } from 'react';
+import { useThemeStore } from '../stores';
+
+interface SpectrumGraphProps {
+  spectrum: {
+    frequencies: ArrayLike<number>;
+    amplitudes: ArrayLike<number>;
+    peaks: { frequency: number; amplitude: number }[];
+    resolution: number;
+  } | null;
+  // Highest frequency shown (Hz)
+  maxFrequency: number;
+  logScale?: boolean;
+  // Bottom of the log scale (dB below the strongest bin)
+  minDb?: number;
+  markers?: { frequency: number; label: string }[];
+  signalLabel?: string;
+  width?: number;
+  height?: number;
+}
+
+export function SpectrumGraph({
+  spectrum,
+  maxFrequency,
+  logScale = true,
+  minDb = -100,
+  markers = [],
+  signalLabel,
+  width = 300,
+  height = 120,
+}: SpectrumGraphProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  const padding = 10;
+
+  const { path, mapX, mapY } = useMemo(() => {
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+
+    let max = 0;
+    if (spectrum) {
+      for (let k = 1; k < spectrum.amplitudes.length; k++) max = Math.max(max, spectrum.amplitudes[k]);
+    }
+    max = max || 1;
+
+    const mapX = (f: number) => padding + (f / maxFrequency) * graphWidth;
+    const mapY = (amplitude: number) => {
+      const u = logScale
+        ? (Math.max(20 * Math.log10(Math.max(amplitude / max, Number.MIN_VALUE)), minDb) - minDb) / -minDb
+        : amplitude / max;
+      return padding + graphHeight - u * graphHeight;
+    };
+
+    if (!spectrum) return { path: '', mapX, mapY };
+
+    const commands: string[] = [];
+    for (let k = 0; k < spectrum.frequencies.length; k++) {
+      const f = spectrum.frequencies[k];
+      if (f > maxFrequency) break;
+      commands.push(`${k === 0 ? 'M' : 'L'} ${mapX(f)} ${mapY(spectrum.amplitudes[k])}`);
+    }
+
+    return { path: commands.join(' '), mapX, mapY };
+  }, [spectrum, maxFrequency, logScale, minDb, width, height]);
+
+  const visiblePeaks = spectrum?.peaks.filter((p) => p.frequency <= maxFrequency) ?? [];
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 210,
+        left: 20,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Spectrum{signalLabel ? ` of ${signalLabel}` : ''}{' '}
+        <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>
+          ({logScale ? `${minDb} to 0 dB` : 'linear'}, 0 to {maxFrequency} Hz)
+        </span>
+      </div>
+      <svg width={width} height={height} style={{ display: 'block' }}>
+        <line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke={colors.grid} strokeWidth={1} />
+        <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke={colors.grid} strokeWidth={1} />
+
+        {markers
+          .filter((m) => m.frequency > 0 && m.frequency <= maxFrequency)
+          .map((m) => (
+            <g key={m.label}>
+              <line
+                x1={mapX(m.frequency)}
+                y1={padding}
+                x2={mapX(m.frequency)}
+                y2={height - padding}
+                stroke={colors.secondary}
+                strokeWidth={1}
+                strokeDasharray="4 3"
+              />
+              <text x={mapX(m.frequency) + 3} y={height - padding - 3} fontSize={9} fill={colors.secondary}>
+                {m.label}
+              </text>
+            </g>
+          ))}
+
+        {path && <path d={path} fill="none" stroke={colors.primary} strokeWidth={1.5} />}
+
+        {visiblePeaks.map((p, i) => (
+          <text
+            key={i}
+            x={mapX(p.frequency)}
+            y={Math.max(mapY(p.amplitude) - 4, padding + 8)}
+            fontSize={9}
+            textAnchor="middle"
+            fill={colors.text}
+          >
+            {p.frequency.toFixed(3)}
+          </text>
+        ))}
+      </svg>
+
+      <div style={{ display: 'flex', gap: 12, marginTop: 5, flexWrap: 'wrap' }}>
+        {spectrum ? (
+          <>
+            <span>peak: {visiblePeaks.length > 0 ? `${visiblePeaks[0].frequency.toFixed(4)} Hz` : '—'}</span>
+            <span style={{ color: colors.textMuted }}>
+              Δf: {spectrum.resolution.toFixed(4)} Hz
+            </span>
+          </>
+        ) : (
+          <span style={{ color: colors.textMuted }}>Collecting…</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * StabilityMapView
+ * Stable and unstable regions of an equilibrium over two parameters
+ *
+ * Cells are shaded by the Floquet spectral radius: stable cells solid, unstable
+ * ones fading out as perturbations grow faster.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { Vector2 } from '../types';
+import { useThemeStore } from '../stores';
+
+interface StabilityAxis {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+interface StabilityMapViewProps {
+  // Row-major grid, row 0 at y.min
+  map: { x: StabilityAxis; y: StabilityAxis; radii: ArrayLike<number>; stable: ArrayLike<number> };
+  // Current parameters, drawn as a crosshair
+  marker?: Vector2;
+  // Analytic boundaries to compare against, in parameter units
+  curves?: Vector2[][];
+  width?: number;
+  height?: number;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+export function StabilityMapView({
+  map,
+  marker,
+  curves = [],
+  width = 320,
+  height = 220,
+  title = 'Stability Region',
+  xLabel = 'x',
+  yLabel = 'y',
+}: StabilityMapViewProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    const padding = 30;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    const { x, y, radii, stable } = map;
+    const xSpan = x.max - x.min || 1;
+    const ySpan = y.max - y.min || 1;
+
+    const mapX = (v: number) => padding + ((v - x.min) / xSpan) * graphWidth;
+    const mapY = (v: number) => height - padding - ((v - y.min) / ySpan) * graphHeight;
+
+    // Cells, centred on the grid samples
+    const cellWidth = graphWidth / Math.max(x.steps - 1, 1);
+    const cellHeight = graphHeight / Math.max(y.steps - 1, 1);
+    for (let row = 0; row < y.steps; row++) {
+      for (let col = 0; col < x.steps; col++) {
+        const index = row * x.steps + col;
+        const isStable = stable[index] === 1;
+        ctx.fillStyle = isStable ? colors.primary : colors.secondary;
+        ctx.globalAlpha = isStable ? 0.7 : Math.max(0.08, 0.4 / radii[index]);
+        ctx.fillRect(
+          padding + col * cellWidth - cellWidth / 2,
+          height - padding - row * cellHeight - cellHeight / 2,
+          cellWidth + 0.5,
+          cellHeight + 0.5
+        );
+      }
+    }
+    ctx.globalAlpha = 1;
+
+    // Axes
+    ctx.strokeStyle = colors.axis;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding, padding);
+    ctx.lineTo(padding, height - padding);
+    ctx.lineTo(width - padding, height - padding);
+    ctx.stroke();
+
+    // Labels and range
+    ctx.fillStyle = colors.textMuted;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(x.min.toFixed(1), padding, height - padding + 12);
+    ctx.textAlign = 'right';
+    ctx.fillText(x.max.toFixed(1), width - padding, height - padding + 12);
+    ctx.fillText(y.max.toFixed(2), padding - 3, padding + 4);
+    ctx.textAlign = 'center';
+    ctx.fillText(xLabel, width / 2, height - 6);
+    ctx.save();
+    ctx.translate(10, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(yLabel, 0, 0);
+    ctx.restore();
+
+    // Analytic boundaries, clipped to the plot
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(padding, padding, graphWidth, graphHeight);
+    ctx.clip();
+    ctx.strokeStyle = colors.text;
+    ctx.setLineDash([4, 3]);
+    for (const curve of curves) {
+      if (curve.length < 2) continue;
+      ctx.beginPath();
+      ctx.moveTo(mapX(curve[0].x), mapY(curve[0].y));
+      for (let i = 1; i < curve.length; i++) {
+        ctx.lineTo(mapX(curve[i].x), mapY(curve[i].y));
+      }
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+    ctx.restore();
+
+    // Current parameters
+    if (marker) {
+      const mx = mapX(marker.x);
+      const my = mapY(marker.y);
+      ctx.strokeStyle = colors.accent;
+      ctx.beginPath();
+      ctx.moveTo(mx - 6, my);
+      ctx.lineTo(mx + 6, my);
+      ctx.moveTo(mx, my - 6);
+      ctx.lineTo(mx, my + 6);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(mx, my, 3, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+  }, [map, marker, curves, width, height, colors, xLabel, yLabel]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 20,
+        right: 300,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>{title}</div>
+      <canvas ref={canvasRef} width={width} height={height} style={{ display: 'block' }} />
+    </div>
+  );
+}
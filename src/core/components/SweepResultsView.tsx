@@ -0,0 +1,289 @@
+/**
+ * SweepResultsView
+ * Results of a parameter sweep: a plot of one metric and a table of every
+ * computed point
+ *
+ * One swept parameter is drawn as a line of the metric against it. Two on a
+ * grid are drawn as a heatmap; Latin hypercube samples, and sweeps of more
+ * parameters, as a scatter of the first two, colored by the metric. Points
+ * whose metric is undefined (a pendulum that never flipped) are dark, points
+ * not computed yet are left out. Clicking a table row reports its parameters
+ * so the scene can load that point.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useThemeStore } from '../stores';
+import { hslToRgb } from './colors';
+
+interface SweepResultsViewProps {
+  results: {
+    axes: { param: string; min: number; max: number; steps: number; scale?: 'linear' | 'log' }[];
+    sampling: 'grid' | 'latin-hypercube';
+    points: number[][];
+    metrics: string[];
+    values: (ArrayLike<number> | null)[];
+  };
+  // Results are filled in place, so a changed version is what triggers a redraw
+  version: number;
+  // Index into results.metrics of the metric plotted
+  metric: number;
+  metricLabels: string[];
+  // Labels of the swept parameters, in axis order
+  axisLabels: string[];
+  // Color (or line height) on a log scale of the metric's absolute value
+  logScale?: boolean;
+  progress?: number;
+  error?: string | null;
+  onSelect?: (point: number[]) => void;
+  width?: number;
+  height?: number;
+}
+
+// Hue of the lowest and highest metric values (degrees)
+const LOW_HUE = 270;
+const HIGH_HUE = 0;
+
+// Rows shown in the table; the CSV export has all of them
+const TABLE_ROWS = 200;
+
+function formatValue(value: number | undefined): string {
+  if (value === undefined) return '…';
+  if (Number.isNaN(value)) return '—';
+  return Math.abs(value) >= 1e4 || (Math.abs(value) < 1e-3 && value !== 0) ? value.toExponential(3) : value.toPrecision(4);
+}
+
+export function SweepResultsView({
+  results,
+  version,
+  metric,
+  metricLabels,
+  axisLabels,
+  logScale = false,
+  progress = 1,
+  error,
+  onSelect,
+  width = 300,
+  height = 220,
+}: SweepResultsViewProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const padding = 30;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { axes, points, values } = results;
+    const graphWidth = width - padding * 2;
+    const graphHeight = height - padding * 2;
+    const transform = (v: number) => (logScale ? Math.log10(Math.abs(v)) : v);
+
+    // Range of the metric over the points computed so far
+    let low = Infinity;
+    let high = -Infinity;
+    for (const row of values) {
+      const v = row ? transform(row[metric]) : NaN;
+      if (Number.isFinite(v)) {
+        low = Math.min(low, v);
+        high = Math.max(high, v);
+      }
+    }
+    const span = high - low || 1;
+    const unit = (v: number) => (transform(v) - low) / span;
+
+    const axisUnit = (axis: SweepResultsViewProps['results']['axes'][number], v: number) =>
+      axis.scale === 'log'
+        ? Math.log(v / axis.min) / Math.log(axis.max / axis.min || 1)
+        : (v - axis.min) / (axis.max - axis.min || 1);
+
+    ctx.clearRect(0, 0, width, height);
+
+    if (axes.length === 1) {
+      // Metric against the single swept parameter, in parameter order
+      const order = points.map((_, i) => i).sort((a, b) => points[a][0] - points[b][0]);
+      ctx.strokeStyle = colors.primary;
+      ctx.fillStyle = colors.primary;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      let drawing = false;
+      for (const i of order) {
+        const v = values[i]?.[metric];
+        if (v === undefined || !Number.isFinite(transform(v))) {
+          drawing = false;
+          continue;
+        }
+        const px = padding + axisUnit(axes[0], points[i][0]) * graphWidth;
+        const py = height - padding - unit(v) * graphHeight;
+        if (drawing) ctx.lineTo(px, py);
+        else ctx.moveTo(px, py);
+        drawing = true;
+        if (results.sampling !== 'grid') ctx.fillRect(px - 1.5, py - 1.5, 3, 3);
+      }
+      ctx.stroke();
+    } else {
+      const heatmap = results.sampling === 'grid' && axes.length === 2;
+      const cellWidth = heatmap ? graphWidth / axes[0].steps : 4;
+      const cellHeight = heatmap ? graphHeight / axes[1].steps : 4;
+
+      points.forEach((point, i) => {
+        const row = values[i];
+        if (!row) return;
+        const v = row[metric];
+        if (Number.isFinite(transform(v))) {
+          const u = Math.min(Math.max(unit(v), 0), 1);
+          const [r, g, b] = hslToRgb(LOW_HUE + (HIGH_HUE - LOW_HUE) * u, 0.75, 0.35 + 0.2 * u);
+          ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+        } else {
+          ctx.fillStyle = '#000';
+        }
+
+        if (heatmap) {
+          const column = i % axes[0].steps;
+          const gridRow = Math.floor(i / axes[0].steps);
+          // Grid rows run bottom-up
+          ctx.fillRect(
+            padding + column * cellWidth,
+            height - padding - (gridRow + 1) * cellHeight,
+            Math.ceil(cellWidth),
+            Math.ceil(cellHeight)
+          );
+        } else {
+          const px = padding + axisUnit(axes[0], point[0]) * graphWidth;
+          const py = height - padding - axisUnit(axes[1], point[1]) * graphHeight;
+          ctx.fillRect(px - cellWidth / 2, py - cellHeight / 2, cellWidth, cellHeight);
+        }
+      });
+    }
+
+    // Axes
+    ctx.strokeStyle = colors.axis;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(padding, padding, graphWidth, graphHeight);
+
+    // Labels and ranges
+    ctx.fillStyle = colors.textMuted;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(formatValue(axes[0].min), padding, height - padding + 12);
+    ctx.textAlign = 'right';
+    ctx.fillText(formatValue(axes[0].max), width - padding, height - padding + 12);
+    ctx.textAlign = 'center';
+    ctx.fillText(`${axisLabels[0]}${axes[0].scale === 'log' ? ' (log)' : ''}`, width / 2, height - 6);
+
+    const yLabel =
+      axes.length === 1
+        ? `${metricLabels[metric]}${logScale ? ' (log)' : ''}`
+        : `${axisLabels[1]}${axes[1].scale === 'log' ? ' (log)' : ''}`;
+    if (axes.length > 1) {
+      ctx.textAlign = 'right';
+      ctx.fillText(formatValue(axes[1].max), padding - 3, padding + 8);
+      ctx.fillText(formatValue(axes[1].min), padding - 3, height - padding);
+    }
+    ctx.save();
+    ctx.translate(10, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.fillText(yLabel, 0, 0);
+    ctx.restore();
+  }, [results, version, metric, logScale, width, height, colors, axisLabels, metricLabels]);
+
+  // Color scale legend, for the 2D plots
+  const legend = Array.from({ length: 7 }, (_, i) => {
+    const [r, g, b] = hslToRgb(LOW_HUE + ((HIGH_HUE - LOW_HUE) * i) / 6, 0.75, 0.35 + (0.2 * i) / 6);
+    return `rgb(${r}, ${g}, ${b})`;
+  });
+
+  let low = Infinity;
+  let high = -Infinity;
+  let computed = 0;
+  for (const row of results.values) {
+    if (!row) continue;
+    computed++;
+    const v = logScale ? Math.abs(row[metric]) : row[metric];
+    if (Number.isFinite(v) && (!logScale || v !== 0)) {
+      low = Math.min(low, v);
+      high = Math.max(high, v);
+    }
+  }
+
+  const rows = results.points.slice(0, TABLE_ROWS);
+  const cellStyle = { padding: '1px 6px', textAlign: 'right' as const, whiteSpace: 'nowrap' as const };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 20,
+        right: 300,
+        background: `${colors.panel}ee`,
+        borderRadius: 8,
+        padding: 10,
+        border: `1px solid ${colors.panelBorder}`,
+        fontFamily: 'monospace',
+        fontSize: 11,
+        color: colors.text,
+        width,
+      }}
+    >
+      <div style={{ marginBottom: 5, fontWeight: 'bold' }}>
+        Sweep: {metricLabels[metric]}{' '}
+        <span style={{ color: colors.textMuted, fontWeight: 'normal' }}>
+          {computed}/{results.points.length}
+          {progress < 1 && ` (${(progress * 100).toFixed(0)}%)`}
+        </span>
+      </div>
+      <canvas ref={canvasRef} width={width} height={height} style={{ display: 'block' }} />
+
+      {results.axes.length > 1 && Number.isFinite(low) && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 4, color: colors.textMuted }}>
+          <span>{formatValue(low)}</span>
+          <div style={{ flex: 1, height: 8, borderRadius: 2, background: `linear-gradient(to right, ${legend.join(', ')})` }} />
+          <span>{formatValue(high)}</span>
+          <span style={{ display: 'inline-block', width: 8, height: 8, background: '#000', border: `1px solid ${colors.panelBorder}` }} />
+          <span>undefined</span>
+        </div>
+      )}
+
+      {error && <div style={{ marginTop: 4, color: colors.accent }}>Stopped: {error}</div>}
+
+      <div style={{ marginTop: 6, maxHeight: 160, overflow: 'auto', borderTop: `1px solid ${colors.panelBorder}` }}>
+        <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <thead>
+            <tr style={{ color: colors.textMuted }}>
+              {axisLabels.map((label) => (
+                <th key={label} style={cellStyle}>{label}</th>
+              ))}
+              {metricLabels.map((label) => (
+                <th key={label} style={cellStyle}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((point, i) => (
+              <tr
+                key={i}
+                onClick={onSelect ? () => onSelect(point) : undefined}
+                style={{ cursor: onSelect ? 'pointer' : 'default' }}
+              >
+                {point.map((value, j) => (
+                  <td key={j} style={cellStyle}>{formatValue(value)}</td>
+                ))}
+                {results.metrics.map((_, m) => (
+                  <td key={m} style={{ ...cellStyle, color: m === metric ? colors.primary : colors.text }}>
+                    {formatValue(results.values[i]?.[m])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {results.points.length > TABLE_ROWS && (
+          <div style={{ color: colors.textMuted, padding: '2px 6px' }}>
+            …{results.points.length - TABLE_ROWS} more rows in the CSV export
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Color helpers shared by the map overlays
+ */
+
+/**
+ * HSL (hue in degrees, s and l in [0, 1]) to 8-bit RGB
+ */
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
@@ -5,3 +5,15 @@ export { EnergyGraph } from './EnergyGraph';
 export { PhaseSpaceView } from './PhaseSpaceView';
 export { SimulationInfo } from './SimulationInfo';
 export { MemoryDebugger, MemoryDebuggerInCanvas } from './MemoryDebugger';
+export { LyapunovGraph } from './LyapunovGraph';
+export { PoincareSectionView } from './PoincareSectionView';
+export { BifurcationDiagram } from './BifurcationDiagram';
+export { GroundTrackView } from './GroundTrackView';
+export { ControlEffortGraph } from './ControlEffortGraph';
+export { StabilityMapView } from './StabilityMapView';
+export { ModeAmplitudeChart } from './ModeAmplitudeChart';
+export { FlipTimeMapView } from './FlipTimeMapView';
+export { SeparationGraph } from './SeparationGraph';
+export { PeriodAmplitudeGraph } from './PeriodAmplitudeGraph';
+export { SpectrumGraph } from './SpectrumGraph';
+export { SweepResultsView } from './SweepResultsView';
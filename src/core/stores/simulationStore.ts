@@ -7,7 +7,7 @@
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { PhysicsState, EnergyState, TrailPoint, PhasePoint } from '../types';
+import type { PhysicsState, EnergyState, TrailPoint, PhasePoint, IntegrationStats } from '../types';
 
 // Maximum age for scientific data in seconds (prevents memory leaks)
 const MAX_DATA_AGE_SECONDS = 30;
@@ -25,6 +25,7 @@ interface SimulationStore {
   // Physics state
   physicsState: PhysicsState | null;
   energy: EnergyState;
+  integrationStats: IntegrationStats | null;
 
   // Visualization data
   trails: TrailPoint[][];
@@ -46,6 +47,7 @@ interface SimulationStore {
   setSpeed: (speed: number) => void;
   setPhysicsState: (state: PhysicsState) => void;
   setEnergy: (energy: EnergyState) => void;
+  setIntegrationStats: (stats: IntegrationStats | null) => void;
   addTrailPoints: (points: TrailPoint[]) => void;
   addPhasePoints: (points: PhasePoint[]) => void;
   clearTrails: () => void;
@@ -93,6 +95,7 @@ export const useSimulationStore = create<SimulationStore>()(
 
     physicsState: null,
     energy: { kinetic: 0, potential: 0, total: 0 },
+    integrationStats: null,
 
     trails: [],
     phaseSpace: [],
@@ -117,6 +120,7 @@ export const useSimulationStore = create<SimulationStore>()(
         trails: [],
         phaseSpace: [],
         energy: { kinetic: 0, potential: 0, total: 0 },
+        integrationStats: null,
       }),
 
     setSpeed: (speed) => set({ speed: Math.max(0.1, Math.min(10, speed)) }),
@@ -125,6 +129,8 @@ export const useSimulationStore = create<SimulationStore>()(
 
     setEnergy: (energy) => set({ energy }),
 
+    setIntegrationStats: (stats) => set({ integrationStats: stats }),
+
     addTrailPoints: (points) => {
       const { trails, maxTrailLength, frameCount, elapsedTime } = get();
 
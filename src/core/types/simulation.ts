@@ -23,6 +23,8 @@ export interface PhysicsState {
   positions: Vector3[];
   velocities: Vector3[];
   accelerations?: Vector3[];
+  // Where the first link hangs from, for models whose pivot moves
+  pivot?: Vector3;
 }
 
 // Energy tracking for scientific analysis
@@ -70,6 +72,36 @@ export interface SimulationMeta {
   tags?: string[];
 }
 
+// Numerical integration schemes available to BaseSimulation.step
+export type IntegrationMethod =
+  | 'euler'
+  | 'verlet'
+  | 'rk4'
+  | 'yoshida4'
+  | 'midpoint'
+  | 'gauss4'
+  | 'dopri5';
+
+// Integrator picker options (label -> method)
+// Verlet and Yoshida are symplectic only for position-dependent forces; with the
+// velocity-coupled chains they are time-reversible, which still bounds energy error
+export const integrationMethodOptions: Record<string, IntegrationMethod> = {
+  'Runge-Kutta 4': 'rk4',
+  'Euler (1st order)': 'euler',
+  'Velocity Verlet (time-reversible, 2nd order)': 'verlet',
+  'Yoshida (time-reversible, 4th order)': 'yoshida4',
+  'Implicit Midpoint (symplectic, 2nd order)': 'midpoint',
+  'Gauss-Legendre (symplectic, 4th order)': 'gauss4',
+  'Dormand-Prince (adaptive, 5th order)': 'dopri5',
+};
+
+// Step counters reported by the integrator
+export interface IntegrationStats {
+  acceptedSteps: number;
+  rejectedSteps: number;
+  lastStepSize: number;
+}
+
 // Base simulation configuration
 export interface SimulationConfig {
   meta: SimulationMeta;
@@ -79,8 +111,11 @@ export interface SimulationConfig {
   physics: {
     gravity: number;
     damping: number;
-    integrationMethod: 'euler' | 'verlet' | 'rk4';
+    integrationMethod: IntegrationMethod;
     fixedTimestep: number;
+    // Error tolerances for the adaptive integrator (dopri5)
+    absoluteTolerance?: number;
+    relativeTolerance?: number;
   };
 
   // Visualization defaults
@@ -100,6 +135,37 @@ export interface SimulationConfig {
   };
 }
 
+// Integrator step boundary, reported to step observers
+export interface StepSample {
+  time: number;
+  state: number[];
+}
+
+// Called after every integrator step with the states on either side of it
+export type StepObserver = (previous: StepSample, current: StepSample) => void;
+
+// Zero crossing of one of a simulation's event functions, located within a step
+export interface SimulationEvent {
+  // Which event function crossed zero
+  index: number;
+  time: number;
+  // -1 when the function fell through zero (e.g. contact begins), +1 when it rose
+  direction: 1 | -1;
+}
+
+// Conserved quantities on either side of one collision, for export
+export interface CollisionRecord {
+  time: number;
+  // Indices of the two colliding bodies
+  bodies: [number, number];
+  // Closing speed along the contact normal at impact (m/s)
+  impactSpeed: number;
+  energyBefore: number;
+  energyAfter: number;
+  momentumBefore: number;
+  momentumAfter: number;
+}
+
 // Runtime simulation state
 export interface SimulationState {
   isPlaying: boolean;
@@ -120,6 +186,8 @@ export interface ExportData {
     energy: EnergyState[];
   };
   phaseSpace?: PhasePoint[][];
+  // Per-collision bookkeeping, for models with contact events
+  collisions?: CollisionRecord[];
 }
 
 // Simulation interface that all simulations must implement
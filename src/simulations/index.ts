@@ -1,9 +1,23 @@
 // Templates
 export * from './templates';
 
+// Model lookup by id and the headless runner
+export * from './registry';
+export * from './runner';
+
 // Pendulum simulations
 export * from './pendulum';
 export { SimplePendulumScene } from './pendulum/SimplePendulumScene';
 export { DoublePendulumScene } from './pendulum/DoublePendulumScene';
 export { NPendulumScene } from './pendulum/NPendulumScene';
+export { DrivenPendulumScene } from './pendulum/DrivenPendulumScene';
+export { SphericalPendulumScene } from './pendulum/SphericalPendulumScene';
+export { FoucaultPendulumScene } from './pendulum/FoucaultPendulumScene';
+export { ElasticPendulumScene } from './pendulum/ElasticPendulumScene';
+export { CartPoleScene } from './pendulum/CartPoleScene';
+export { KapitzaPendulumScene } from './pendulum/KapitzaPendulumScene';
+export { CoupledPendulumsScene } from './pendulum/CoupledPendulumsScene';
+export { PendulumWaveScene } from './pendulum/PendulumWaveScene';
+export { NewtonsCradleScene } from './pendulum/NewtonsCradleScene';
+export { MagneticPendulumScene } from './pendulum/MagneticPendulumScene';
 export { PendulumRenderer } from './pendulum/PendulumRenderer';
@@ -0,0 +1,256 @@
+/**
+ * CartPole
+ * Pendulum hinged on a cart that rolls along a horizontal track
+ * The cart is driven by an external horizontal force from a pluggable Controller
+ *
+ * Model Assumptions:
+ * - Pole is a massless rod with a point mass at its tip
+ * - Cart moves along x only, with viscous friction
+ * - Viscous damping at the hinge
+ * - Control force is sampled once per step and held (zero-order hold),
+ *   then clipped to ±maxForce like an actuator limit
+ * - The track is unbounded
+ *
+ * θ = 0 hangs straight down and θ = π is upright, as in the other pendulums.
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  PhasePoint,
+} from '../../core/types';
+import type { Controller, CartPoleModel } from '../../control';
+import { clamp } from '../../utils/physics';
+
+export interface CartPoleParams {
+  cartMass: number;
+  mass: number;
+  length: number;
+  gravity: number;
+  cartFriction: number;
+  damping: number;
+  maxForce: number;
+  initialPosition: number;
+  initialAngle: number;
+  initialVelocity: number;
+  initialAngularVelocity: number;
+}
+
+export class CartPole extends BaseSimulation {
+  // Pre-allocated buffer for derivatives to avoid allocation every call
+  private _derivBuffer: number[] = [0, 0, 0, 0];
+
+  private controller: Controller | null = null;
+  // Force currently held on the cart (N)
+  private force: number = 0;
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'cart-pole',
+      name: 'Cart-Pole',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      cartMass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Cart Mass (kg)' },
+      mass: { value: 0.3, min: 0.05, max: 5, step: 0.05, label: 'Pole Mass (kg)' },
+      length: { value: 1, min: 0.2, max: 3, step: 0.1, label: 'Pole Length (m)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      cartFriction: { value: 0.1, min: 0, max: 5, step: 0.01, label: 'Cart Friction (N·s/m)' },
+      damping: { value: 0.005, min: 0, max: 0.5, step: 0.001, label: 'Hinge Damping (N·m·s)' },
+      maxForce: { value: 30, min: 1, max: 200, step: 1, label: 'Max Force (N)' },
+      initialPosition: { value: 0, min: -3, max: 3, step: 0.1, label: 'Initial Position (m)' },
+      initialAngle: {
+        value: Math.PI - 0.2,
+        min: -Math.PI,
+        max: Math.PI,
+        step: 0.01,
+        label: 'Initial Angle (rad)',
+      },
+      initialVelocity: { value: 0, min: -5, max: 5, step: 0.1, label: 'Initial Cart Velocity (m/s)' },
+      initialAngularVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial Angular Velocity (rad/s)',
+      },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: true,
+      trailLength: 1000,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: true,
+    },
+    camera: {
+      position: { x: 0, y: 0.5, z: 7 },
+      target: { x: 0, y: 0, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): CartPoleParams {
+    return this.params as unknown as CartPoleParams;
+  }
+
+  init(params: Record<string, unknown>): void {
+    super.init(params);
+    this.force = 0;
+    this.controller?.reset();
+  }
+
+  reset(): void {
+    super.reset();
+    this.force = 0;
+    this.controller?.reset();
+  }
+
+  /**
+   * Attach a feedback controller, or null to let the cart roll freely
+   */
+  setController(controller: Controller | null): void {
+    this.controller = controller;
+    this.force = 0;
+    controller?.reset();
+  }
+
+  getController(): Controller | null {
+    return this.controller;
+  }
+
+  /**
+   * Force held on the cart during the last step, after saturation (N)
+   */
+  getControlForce(): number {
+    return this.force;
+  }
+
+  /**
+   * Physical parameters in the form the controllers design against
+   */
+  getModel(): CartPoleModel {
+    const p = this.p;
+    return {
+      cartMass: p.cartMass,
+      poleMass: p.mass,
+      length: p.length,
+      gravity: p.gravity,
+      cartFriction: p.cartFriction,
+      poleDamping: p.damping,
+    };
+  }
+
+  /**
+   * Sample the controller, hold its force for the step, then integrate
+   */
+  step(dt: number): PhysicsState {
+    const { integrationMethod, fixedTimestep } = this.config.physics;
+    if (this.controller) {
+      const holdTime = integrationMethod === 'dopri5' ? dt : fixedTimestep || dt;
+      const command = this.controller.computeForce(this.state, this.time, holdTime);
+      this.force = clamp(command, -this.p.maxForce, this.p.maxForce);
+    } else {
+      this.force = 0;
+    }
+    return super.step(dt);
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    // State: [x, theta, xDot, omega]
+    return [p.initialPosition, p.initialAngle, p.initialVelocity, p.initialAngularVelocity];
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const [, theta, xDot, omega] = state;
+    const M = p.cartMass;
+    const m = p.mass;
+    const L = p.length;
+
+    const sinT = Math.sin(theta);
+    const cosT = Math.cos(theta);
+
+    // Lagrange equations with the cart position and hinge angle as coordinates:
+    // (M+m)ẍ + mL cosθ θ̈ = F - bẋ + mL sinθ θ̇²
+    // mL cosθ ẍ + mL² θ̈ = -mgL sinθ - cθ̇
+    const rhsX = this.force - p.cartFriction * xDot + m * L * sinT * omega * omega;
+    const rhsTheta = -m * p.gravity * L * sinT - p.damping * omega;
+    const det = m * L * L * (M + m * sinT * sinT);
+
+    const xDDot = (m * L * L * rhsX - m * L * cosT * rhsTheta) / det;
+    const alpha = ((M + m) * rhsTheta - m * L * cosT * rhsX) / det;
+
+    // Reuse pre-allocated buffer
+    this._derivBuffer[0] = xDot;
+    this._derivBuffer[1] = omega;
+    this._derivBuffer[2] = xDDot;
+    this._derivBuffer[3] = alpha;
+    return this._derivBuffer;
+  }
+
+  /**
+   * Bob first, then the cart, so positions[0] is the pendulum mass like elsewhere
+   */
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const L = this.p.length;
+    const [x, theta, xDot, omega] = state;
+
+    const sinT = Math.sin(theta);
+    const cosT = Math.cos(theta);
+
+    return {
+      time: this.time,
+      positions: [
+        { x: x + L * sinT, y: -L * cosT, z: 0 },
+        { x, y: 0, z: 0 },
+      ],
+      velocities: [
+        { x: xDot + L * omega * cosT, y: L * omega * sinT, z: 0 },
+        { x: xDot, y: 0, z: 0 },
+      ],
+    };
+  }
+
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const [, theta, xDot, omega] = this.state;
+    const L = p.length;
+    const cosT = Math.cos(theta);
+
+    const kinetic =
+      0.5 * (p.cartMass + p.mass) * xDot * xDot +
+      p.mass * L * xDot * omega * cosT +
+      0.5 * p.mass * L * L * omega * omega;
+    // Zero hanging straight down, 2mgL upright
+    const potential = p.mass * p.gravity * L * (1 - cosT);
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  getAngleIndices(): number[] {
+    return [1];
+  }
+
+  getPhaseSpace(): PhasePoint[] {
+    const [x, theta, xDot, omega] = this.state;
+    return [
+      { angle: theta, angularVelocity: omega, time: this.time },
+      { angle: x, angularVelocity: xDot, time: this.time },
+    ];
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * CartPoleScene
+ * Complete scene for the cart-pole with switchable feedback controllers
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Box } from '@react-three/drei';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  ControlEffortGraph,
+  PhaseSpaceView,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { CartPole } from './CartPole';
+import type { CartPoleParams } from './CartPole';
+import { PendulumRenderer } from './PendulumRenderer';
+import { PIDController, LQRController, EnergySwingUpController } from '../../control';
+import type { Controller, LQRWeights } from '../../control';
+import { exportToCSV, normalizeAngle } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod, PhysicsState } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// How often the controller status is pushed to the UI (ms)
+const STATUS_UPDATE_INTERVAL = 100;
+
+// Visible length of the track (m)
+const TRACK_LENGTH = 12;
+
+type ControllerKind = 'none' | 'pid' | 'lqr' | 'swing-up';
+
+const controllerOptions: Record<string, ControllerKind> = {
+  None: 'none',
+  PID: 'pid',
+  LQR: 'lqr',
+  'Swing-up + LQR': 'swing-up',
+};
+
+interface ControllerSettings {
+  kind: ControllerKind;
+  kp: number;
+  ki: number;
+  kd: number;
+  positionGain: number;
+  velocityGain: number;
+  qPosition: number;
+  qAngle: number;
+  qVelocity: number;
+  qAngularVelocity: number;
+  r: number;
+  swingGain: number;
+  catchAngle: number;
+}
+
+/**
+ * Build the selected controller against the current physical parameters
+ */
+function createController(settings: ControllerSettings, params: CartPoleParams): Controller | null {
+  const sim = new CartPole();
+  sim.init({ ...params });
+  const model = sim.getModel();
+  const timestep = sim.config.physics.fixedTimestep;
+
+  const weights: LQRWeights = {
+    q: [settings.qPosition, settings.qAngle, settings.qVelocity, settings.qAngularVelocity],
+    r: settings.r,
+  };
+
+  switch (settings.kind) {
+    case 'pid':
+      return new PIDController({
+        kp: settings.kp,
+        ki: settings.ki,
+        kd: settings.kd,
+        positionGain: settings.positionGain,
+        velocityGain: settings.velocityGain,
+      });
+    case 'lqr':
+      return new LQRController(model, weights, timestep);
+    case 'swing-up':
+      return new EnergySwingUpController(
+        model,
+        { gain: settings.swingGain, catchAngle: settings.catchAngle },
+        new LQRController(model, weights, timestep)
+      );
+    case 'none':
+    default:
+      return null;
+  }
+}
+
+interface ControlStatus {
+  // Tilt from upright, φ = θ - π (rad)
+  tilt: number;
+  cartPosition: number;
+  // Swing-up has handed over to its balancing controller
+  balancing: boolean;
+}
+
+interface SimulationRunnerProps {
+  params: CartPoleParams;
+  controller: Controller | null;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onForceUpdate: (sample: { time: number; force: number }) => void;
+  onStatusUpdate: (status: ControlStatus) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  controller,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onForceUpdate,
+  onStatusUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    CartPole,
+    params as unknown as Record<string, unknown>,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  // Swap controllers live without resetting the run
+  useEffect(() => {
+    const sim = simulation.current;
+    if (sim instanceof CartPole) {
+      sim.setController(controller);
+    }
+  }, [controller, simulation]);
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Force every frame for the effort plot, controller status throttled
+  const lastStatusUpdateRef = useRef<number>(0);
+  useEffect(() => {
+    const sim = simulation.current;
+    if (!(sim instanceof CartPole) || !physicsState) return;
+
+    onForceUpdate({ time: physicsState.time, force: sim.getControlForce() });
+
+    const now = performance.now();
+    if (now - lastStatusUpdateRef.current >= STATUS_UPDATE_INTERVAL) {
+      lastStatusUpdateRef.current = now;
+      const [x, theta] = sim.getState();
+      const active = sim.getController();
+      onStatusUpdate({
+        tilt: normalizeAngle(theta - Math.PI),
+        cartPosition: x,
+        balancing: active instanceof EnergySwingUpController && active.isBalancing(),
+      });
+    }
+  }, [physicsState, simulation, onForceUpdate, onStatusUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  // positions are [bob, cart]; the renderer only draws the pole hinged on the cart
+  const poleState = useMemo<PhysicsState | null>(
+    () =>
+      physicsState && {
+        ...physicsState,
+        positions: physicsState.positions.slice(0, 1),
+        velocities: physicsState.velocities.slice(0, 1),
+      },
+    [physicsState]
+  );
+  const cart = physicsState?.positions[1] ?? { x: params.initialPosition, y: 0, z: 0 };
+
+  return (
+    <group>
+      {/* Track */}
+      <Box args={[TRACK_LENGTH, 0.04, 0.06]} position={[0, -0.17, -0.2]}>
+        <meshStandardMaterial color={colors.grid} metalness={0.5} roughness={0.5} />
+      </Box>
+
+      {/* Cart, behind the plane the pole swings in */}
+      <Box args={[0.6, 0.3, 0.3]} position={[cart.x, 0, -0.2]}>
+        <meshStandardMaterial color={colors.pivot} metalness={0.6} roughness={0.3} />
+      </Box>
+
+      <PendulumRenderer
+        state={poleState}
+        pivotPosition={cart}
+        massRadius={0.15}
+        rodRadius={0.03}
+      />
+    </group>
+  );
+}
+
+export function CartPoleScene() {
+  // Simulation parameters
+  const simParams = useControls('Cart-Pole Parameters', {
+    cartMass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Cart Mass (kg)', hint: 'Mass of the cart in kilograms' },
+    mass: { value: 0.3, min: 0.05, max: 5, step: 0.05, label: 'Pole Mass (kg)', hint: 'Mass at the tip of the pole in kilograms' },
+    length: { value: 1, min: 0.2, max: 3, step: 0.1, label: 'Pole Length (m)', hint: 'Distance from the hinge to the pole mass' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    cartFriction: { value: 0.1, min: 0, max: 5, step: 0.01, label: 'Cart Friction', hint: 'Viscous friction between cart and track (N·s/m)' },
+    damping: { value: 0.005, min: 0, max: 0.5, step: 0.001, label: 'Hinge Damping', hint: 'Viscous damping at the hinge (N·m·s/rad)' },
+    maxForce: { value: 30, min: 1, max: 200, step: 1, label: 'Max Force (N)', hint: 'Actuator limit; the controller output is clipped to ±this' },
+    initialPosition: { value: 0, min: -3, max: 3, step: 0.1, label: 'Initial Position', hint: 'Starting cart position along the track (m)' },
+    initialAngle: { value: Math.PI - 0.2, min: -Math.PI, max: Math.PI, step: 0.01, label: 'Initial Angle', hint: 'Starting pole angle in radians (0 = hanging, π = upright)' },
+    initialVelocity: { value: 0, min: -5, max: 5, step: 0.1, label: 'Initial Cart Vel.', hint: 'Initial cart velocity (m/s)' },
+    initialAngularVelocity: { value: 0, min: -10, max: 10, step: 0.1, label: 'Initial Ang. Vel.', hint: 'Initial angular velocity of the pole (rad/s)' },
+  });
+
+  // Controller selection and gains, shown only for the active controller
+  const controllerSettings = useControls('Controller', {
+    kind: { value: 'lqr' as ControllerKind, options: controllerOptions, label: 'controller', hint: 'Feedback law driving the cart; switch at any time' },
+    kp: { value: 60, min: 0, max: 300, step: 1, label: 'Kp', hint: 'Proportional gain on the tilt from upright (N/rad)', render: (get) => get('Controller.kind') === 'pid' },
+    ki: { value: 5, min: 0, max: 100, step: 0.5, label: 'Ki', hint: 'Integral gain (N/(rad·s))', render: (get) => get('Controller.kind') === 'pid' },
+    kd: { value: 12, min: 0, max: 100, step: 0.5, label: 'Kd', hint: 'Derivative gain on the pole angular velocity (N·s/rad)', render: (get) => get('Controller.kind') === 'pid' },
+    positionGain: { value: 0.05, min: 0, max: 0.5, step: 0.01, label: 'Kx (outer)', hint: 'Tilts the angle setpoint to bring the cart back to the centre (rad/m)', render: (get) => get('Controller.kind') === 'pid' },
+    velocityGain: { value: 0.1, min: 0, max: 0.5, step: 0.01, label: 'Kv (outer)', hint: 'Tilts the angle setpoint against the cart velocity (rad·s/m)', render: (get) => get('Controller.kind') === 'pid' },
+    qPosition: { value: 10, min: 0, max: 1000, step: 1, label: 'Q x', hint: 'LQR weight on cart position error', render: (get) => get('Controller.kind') === 'lqr' || get('Controller.kind') === 'swing-up' },
+    qAngle: { value: 100, min: 0, max: 10000, step: 1, label: 'Q φ', hint: 'LQR weight on tilt from upright', render: (get) => get('Controller.kind') === 'lqr' || get('Controller.kind') === 'swing-up' },
+    qVelocity: { value: 1, min: 0, max: 1000, step: 0.1, label: 'Q ẋ', hint: 'LQR weight on cart velocity', render: (get) => get('Controller.kind') === 'lqr' || get('Controller.kind') === 'swing-up' },
+    qAngularVelocity: { value: 1, min: 0, max: 1000, step: 0.1, label: 'Q φ̇', hint: 'LQR weight on pole angular velocity', render: (get) => get('Controller.kind') === 'lqr' || get('Controller.kind') === 'swing-up' },
+    r: { value: 0.1, min: 0.001, max: 10, step: 0.001, label: 'R', hint: 'LQR weight on control effort; larger is gentler', render: (get) => get('Controller.kind') === 'lqr' || get('Controller.kind') === 'swing-up' },
+    swingGain: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Swing Gain', hint: 'Energy pumping gain k in a = k g (E/mgL - 2) sign(θ̇ cos θ)', render: (get) => get('Controller.kind') === 'swing-up' },
+    catchAngle: { value: 0.3, min: 0.05, max: 1, step: 0.01, label: 'Catch Angle', hint: 'Hand over to LQR within this angle of upright (rad)', render: (get) => get('Controller.kind') === 'swing-up' },
+  }) as ControllerSettings;
+
+  const controller = useMemo(
+    () => createController(controllerSettings, simParams),
+    [controllerSettings, simParams]
+  );
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls(
+    'Numerical integration scheme; the control force is held constant over each step'
+  );
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trails of the pole mass and the cart' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph and control effort' },
+    phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase portraits (θ vs ω and cart x vs ẋ)' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pole mass' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pole' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+  const { phaseSpace } = useSimulationStore();
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    const now = performance.now();
+    energyBufferRef.current.push(energy);
+
+    if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+      lastEnergyUpdateRef.current = now;
+      const buffered = energyBufferRef.current;
+      energyBufferRef.current = [];
+
+      setEnergyHistory((prev) => {
+        const result = [...prev, ...buffered];
+        return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+      });
+    }
+  }, []);
+
+  // Control effort history, buffered the same way
+  const [forceHistory, setForceHistory] = useState<{ time: number; force: number }[]>([]);
+  const lastForceUpdateRef = useRef<number>(0);
+  const forceBufferRef = useRef<{ time: number; force: number }[]>([]);
+
+  const handleForceUpdate = useCallback((sample: { time: number; force: number }) => {
+    const now = performance.now();
+    forceBufferRef.current.push(sample);
+
+    if (now - lastForceUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+      lastForceUpdateRef.current = now;
+      const buffered = forceBufferRef.current;
+      forceBufferRef.current = [];
+
+      setForceHistory((prev) => {
+        const result = [...prev, ...buffered];
+        return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+      });
+    }
+  }, []);
+
+  const [status, setStatus] = useState<ControlStatus | null>(null);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setForceHistory([]);
+    setStatus(null);
+  }, [resetStore]);
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      // A fresh controller so the export does not share integrator state with the live run
+      const controller = createController(controllerSettings, simParams);
+      const data = runSimulation(exportRunSpec('cart-pole', simParams, integrationMethod, tolerances), (sim) =>
+        (sim as CartPole).setController(controller)
+      );
+      exportToCSV(data, 'cart-pole-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [simParams, controllerSettings, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new CartPole instance on every render
+  const meta = useMemo(() => new CartPole().config.meta, []);
+
+  const lqrGain = controller instanceof LQRController ? controller.getGain() : null;
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: 0.5, z: 7 }}
+        cameraTarget={{ x: 0, y: 0, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={simParams}
+          controller={controller}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onForceUpdate={handleForceUpdate}
+          onStatusUpdate={setStatus}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+
+      {/* Controller status */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Controller</div>
+        <div>{controller?.name ?? 'None (free cart)'}</div>
+        {lqrGain && (
+          <div>K = [{lqrGain.map((k) => k.toFixed(2)).join(', ')}]</div>
+        )}
+        {status && (
+          <>
+            <div>φ = θ - π = {status.tilt.toFixed(4)} rad</div>
+            <div>x = {status.cartPosition.toFixed(3)} m</div>
+            {controllerSettings.kind === 'swing-up' && (
+              <div style={{ color: status.balancing ? colors.primary : colors.textMuted }}>
+                {status.balancing ? 'balancing (LQR)' : 'pumping energy'}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showEnergy && <ControlEffortGraph history={forceHistory} limit={simParams.maxForce} />}
+      {showPhaseSpace && phaseSpace.length > 0 && (
+        <PhaseSpaceView data={phaseSpace} labels={['θ', 'x']} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+/**
+ * CoupledPendulums
+ * Row of identical pendulums hanging side by side, each joined to its
+ * neighbours by a spring - the classic coupled-oscillator lab
+ * Small swings decompose into normal modes; exciting one pendulum makes the
+ * energy beat back and forth along the row
+ *
+ * Model Assumptions:
+ * - Rods are rigid and massless, bobs are point masses
+ * - Pendulums are identical and swing in one common plane
+ * - Springs are massless and linear, attached at the same height on every rod,
+ *   and unstretched when all pendulums hang straight down
+ * - Spring forces use the full nonlinear geometry; only the normal-mode
+ *   analysis is linearized
+ * - Damping is linear in each angular velocity
+ * - Gravitational field is uniform (constant g)
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import { symmetricEigen } from '../../utils/physics';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  PhasePoint,
+  Vector3,
+} from '../../core/types';
+
+export interface CoupledPendulumsParams {
+  count: number;
+  length: number;
+  mass: number;
+  spacing: number;
+  stiffness: number;
+  couplingPoint: number;
+  gravity: number;
+  damping: number;
+  initialAngle: number;
+  // Starting mode amplitudes (rad), indexed by mode; takes precedence over initialAngles
+  initialModes?: number[];
+  initialAngles?: number[];
+  initialVelocities?: number[];
+}
+
+export interface NormalMode {
+  // Angular frequency of small oscillations (rad/s)
+  frequency: number;
+  // Relative swing of each pendulum, scaled so the largest is +1
+  shape: number[];
+}
+
+export class CoupledPendulums extends BaseSimulation {
+  private count: number = 3;
+
+  // Pre-allocated buffers, sized for the pendulum count on init
+  private _derivBuffer: number[] = [];
+  private _torqueBuffer: number[] = [];
+
+  // Linearized modes, rebuilt on init
+  private _modes: NormalMode[] = [];
+  // Orthonormal eigenvectors matching _modes, used for projections
+  private _eigenvectors: number[][] = [];
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'coupled-pendulums',
+      name: 'Coupled Pendulums',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      count: { value: 3, min: 2, max: 8, step: 1, label: 'Pendulums' },
+      length: { value: 1.5, min: 0.2, max: 3, step: 0.1, label: 'Length (m)' },
+      mass: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Mass (kg)' },
+      spacing: { value: 0.8, min: 0.3, max: 2, step: 0.05, label: 'Spacing (m)' },
+      stiffness: { value: 2, min: 0, max: 50, step: 0.1, label: 'Spring Stiffness (N/m)' },
+      couplingPoint: { value: 1, min: 0.1, max: 1, step: 0.05, label: 'Spring Height (fraction of L)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping' },
+      initialAngle: {
+        value: 0.2,
+        min: -Math.PI / 2,
+        max: Math.PI / 2,
+        step: 0.01,
+        label: 'Initial Angle of First (rad)',
+      },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: false,
+      trailLength: 500,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: true,
+    },
+    camera: {
+      position: { x: 0, y: -1, z: 8 },
+      target: { x: 0, y: -1.2, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): CoupledPendulumsParams {
+    return this.params as unknown as CoupledPendulumsParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    const n = p.count;
+    this.count = n;
+    this._derivBuffer = new Array(2 * n).fill(0);
+    this._torqueBuffer = new Array(n).fill(0);
+    this.computeNormalModes();
+
+    // State: [θ₀ … θₙ₋₁, ω₀ … ωₙ₋₁]
+    const state = new Array<number>(2 * n).fill(0);
+    if (p.initialModes) {
+      for (let j = 0; j < n; j++) {
+        const amplitude = p.initialModes[j] ?? 0;
+        const shape = this._modes[j].shape;
+        for (let i = 0; i < n; i++) state[i] += amplitude * shape[i];
+      }
+    } else if (p.initialAngles) {
+      for (let i = 0; i < n; i++) state[i] = p.initialAngles[i] ?? 0;
+    } else {
+      state[0] = p.initialAngle;
+    }
+    if (p.initialVelocities) {
+      for (let i = 0; i < n; i++) state[n + i] = p.initialVelocities[i] ?? 0;
+    }
+    return state;
+  }
+
+  /**
+   * Diagonalize the linearized equations θ̈ = -D θ
+   * With the stiffness matrix K = mgL·I + k h²·Λ (Λ the path-graph Laplacian
+   * of the springs) and mass matrix mL²·I, D = K / mL² is symmetric, so its
+   * eigenvalues are the squared mode frequencies.
+   */
+  private computeNormalModes(): void {
+    const p = this.p;
+    const n = this.count;
+    const h = p.couplingPoint * p.length;
+    const gravityTerm = p.gravity / p.length;
+    const springTerm = (p.stiffness * h * h) / (p.mass * p.length * p.length);
+
+    const d = new Array<number>(n * n).fill(0);
+    for (let i = 0; i < n; i++) {
+      const neighbours = (i > 0 ? 1 : 0) + (i < n - 1 ? 1 : 0);
+      d[i * n + i] = gravityTerm + springTerm * neighbours;
+      if (i < n - 1) {
+        d[i * n + i + 1] = -springTerm;
+        d[(i + 1) * n + i] = -springTerm;
+      }
+    }
+
+    const { values, vectors } = symmetricEigen(d, n);
+    this._eigenvectors = vectors.map((v) => {
+      // Fix the arbitrary sign so the largest swing is positive
+      let peak = 0;
+      for (const x of v) if (Math.abs(x) > Math.abs(peak)) peak = x;
+      return peak < 0 ? v.map((x) => -x) : v;
+    });
+    this._modes = values.map((value, j) => {
+      const v = this._eigenvectors[j];
+      const peak = Math.max(...v.map(Math.abs));
+      return { frequency: Math.sqrt(Math.max(value, 0)), shape: v.map((x) => x / peak) };
+    });
+  }
+
+  /**
+   * Generalized spring torques on each rod from the full spring geometry
+   */
+  private computeSpringTorques(angles: number[]): number[] {
+    const p = this.p;
+    const n = this.count;
+    const h = p.couplingPoint * p.length;
+    const torques = this._torqueBuffer;
+    torques.fill(0);
+
+    for (let i = 0; i < n - 1; i++) {
+      const s1 = Math.sin(angles[i]);
+      const c1 = Math.cos(angles[i]);
+      const s2 = Math.sin(angles[i + 1]);
+      const c2 = Math.cos(angles[i + 1]);
+
+      // Separation of the attachment points; pivots sit one spacing apart
+      const dx = p.spacing + h * (s2 - s1);
+      const dy = -h * (c2 - c1);
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance === 0) continue;
+      const tension = (p.stiffness * (distance - p.spacing)) / distance;
+
+      // Force on the left attachment is tension·(dx, dy), equal and opposite on the right;
+      // torque is the force dotted with ∂r/∂θ = h(cosθ, sinθ)
+      torques[i] += tension * h * (dx * c1 + dy * s1);
+      torques[i + 1] -= tension * h * (dx * c2 + dy * s2);
+    }
+    return torques;
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const n = this.count;
+    const inertia = p.mass * p.length * p.length;
+    const torques = this.computeSpringTorques(state);
+
+    for (let i = 0; i < n; i++) {
+      const omega = state[n + i];
+      this._derivBuffer[i] = omega;
+      this._derivBuffer[n + i] =
+        (-p.gravity / p.length) * Math.sin(state[i]) + torques[i] / inertia - p.damping * omega;
+    }
+    return this._derivBuffer;
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const p = this.p;
+    const n = this.count;
+    const pivots = this.getPivots();
+    const positions: Vector3[] = [];
+    const velocities: Vector3[] = [];
+
+    for (let i = 0; i < n; i++) {
+      const theta = state[i];
+      const omega = state[n + i];
+      const sinT = Math.sin(theta);
+      const cosT = Math.cos(theta);
+      positions.push({ x: pivots[i].x + p.length * sinT, y: -p.length * cosT, z: 0 });
+      velocities.push({ x: p.length * omega * cosT, y: p.length * omega * sinT, z: 0 });
+    }
+
+    return {
+      time: this.time,
+      positions,
+      velocities,
+    };
+  }
+
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const n = this.count;
+    let kinetic = 0;
+    let potential = 0;
+
+    for (let i = 0; i < n; i++) {
+      const omega = this.state[n + i];
+      kinetic += 0.5 * p.mass * p.length * p.length * omega * omega;
+      potential += p.mass * p.gravity * p.length * (1 - Math.cos(this.state[i]));
+    }
+    for (let i = 0; i < n - 1; i++) potential += this.springEnergy(i);
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  getAngleIndices(): number[] {
+    return Array.from({ length: this.count }, (_, i) => i);
+  }
+
+  /**
+   * Energy stored in the spring between pendulums i and i + 1 (J)
+   */
+  private springEnergy(i: number): number {
+    const p = this.p;
+    const h = p.couplingPoint * p.length;
+    const dx = p.spacing + h * (Math.sin(this.state[i + 1]) - Math.sin(this.state[i]));
+    const dy = -h * (Math.cos(this.state[i + 1]) - Math.cos(this.state[i]));
+    const extension = Math.sqrt(dx * dx + dy * dy) - p.spacing;
+    return 0.5 * p.stiffness * extension * extension;
+  }
+
+  getPhaseSpace(): PhasePoint[] {
+    const n = this.count;
+    const points: PhasePoint[] = [];
+    for (let i = 0; i < n; i++) {
+      points.push({ angle: this.state[i], angularVelocity: this.state[n + i], time: this.time });
+    }
+    return points;
+  }
+
+  /**
+   * Pivot of each pendulum, spread evenly along x and centred on the origin
+   */
+  getPivots(): Vector3[] {
+    const p = this.p;
+    const n = p.count;
+    return Array.from({ length: n }, (_, i) => ({ x: (i - (n - 1) / 2) * p.spacing, y: 0, z: 0 }));
+  }
+
+  /**
+   * Linearized normal modes, slowest first
+   */
+  getNormalModes(): NormalMode[] {
+    return this._modes;
+  }
+
+  /**
+   * Current amplitude of each normal mode (rad, largest pendulum swing)
+   * The state is projected onto the eigenvectors, and each mode's coordinate
+   * and rate are combined into an envelope √(q² + (q̇/Ω)²). In the linear
+   * regime these stay constant while the pendulums beat.
+   */
+  getModeAmplitudes(): number[] {
+    const n = this.count;
+    return this._eigenvectors.map((v, j) => {
+      let q = 0;
+      let qDot = 0;
+      for (let i = 0; i < n; i++) {
+        q += v[i] * this.state[i];
+        qDot += v[i] * this.state[n + i];
+      }
+      const omega = this._modes[j].frequency || 1;
+      const peak = Math.max(...v.map(Math.abs));
+      return Math.sqrt(q * q + (qDot / omega) * (qDot / omega)) * peak;
+    });
+  }
+
+  /**
+   * Energy held by each pendulum: its own kinetic and gravitational energy
+   * plus half of each spring attached to it (J)
+   */
+  getPendulumEnergies(): number[] {
+    const p = this.p;
+    const n = this.count;
+    const energies: number[] = [];
+
+    for (let i = 0; i < n; i++) {
+      const omega = this.state[n + i];
+      energies.push(
+        0.5 * p.mass * p.length * p.length * omega * omega +
+          p.mass * p.gravity * p.length * (1 - Math.cos(this.state[i]))
+      );
+    }
+    for (let i = 0; i < n - 1; i++) {
+      const spring = this.springEnergy(i);
+      energies[i] += spring / 2;
+      energies[i + 1] += spring / 2;
+    }
+    return energies;
+  }
+}
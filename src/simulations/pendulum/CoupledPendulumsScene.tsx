@@ -0,0 +1,378 @@
+/**
+ * CoupledPendulumsScene
+ * Complete scene for a row of spring-coupled pendulums with normal-mode analysis
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Box } from '@react-three/drei';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  PhaseSpaceView,
+  SimulationInfo,
+  ModeAmplitudeChart,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { CoupledPendulums } from './CoupledPendulums';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod, Vector3 } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// How often the mode amplitudes are pushed to the UI (ms)
+const MODE_UPDATE_INTERVAL = 100;
+
+// Most pendulums the mode-mix sliders cover
+const MAX_PENDULUMS = 8;
+
+interface ModeSnapshot {
+  amplitudes: number[];
+  energies: number[];
+}
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  pivots: Vector3[];
+  // Spring attachment height as a fraction of the rod length
+  couplingPoint: number;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onModeUpdate: (modes: ModeSnapshot) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  pivots,
+  couplingPoint,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onModeUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    CoupledPendulums,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Mode amplitudes and per-pendulum energies, throttled
+  const lastModeUpdateRef = useRef<number>(0);
+  useEffect(() => {
+    const sim = simulation.current;
+    if (!(sim instanceof CoupledPendulums)) return;
+
+    const now = performance.now();
+    if (now - lastModeUpdateRef.current >= MODE_UPDATE_INTERVAL) {
+      lastModeUpdateRef.current = now;
+      onModeUpdate({ amplitudes: sim.getModeAmplitudes(), energies: sim.getPendulumEnergies() });
+    }
+  }, [energy, simulation, onModeUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  // The count can change a frame before the simulation is rebuilt
+  if (!physicsState || physicsState.positions.length !== pivots.length) return null;
+
+  // Springs join the attachment points of neighbouring rods
+  const anchors = physicsState.positions.map((pos, i) => ({
+    x: pivots[i].x + (pos.x - pivots[i].x) * couplingPoint,
+    y: pivots[i].y + (pos.y - pivots[i].y) * couplingPoint,
+    z: pivots[i].z + (pos.z - pivots[i].z) * couplingPoint,
+  }));
+  const couplings = anchors.slice(1).map((end, i) => ({ start: anchors[i], end }));
+  const beamWidth = pivots[pivots.length - 1].x - pivots[0].x + 0.6;
+
+  return (
+    <group>
+      {/* Support beam */}
+      <Box args={[beamWidth, 0.08, 0.3]} position={[0, 0.08, 0]}>
+        <meshStandardMaterial color={colors.pivot} metalness={0.6} roughness={0.4} />
+      </Box>
+
+      <PendulumRenderer
+        state={physicsState}
+        pivots={pivots}
+        couplings={couplings}
+        massRadius={0.15}
+        rodRadius={0.03}
+        springCoils={10}
+        springRadius={0.06}
+      />
+    </group>
+  );
+}
+
+// Slider weighting one normal mode in the starting mix
+function mixWeight(mode: number, value: number) {
+  return {
+    value,
+    min: -1,
+    max: 1,
+    step: 0.05,
+    label: `Mode ${mode}`,
+    hint: `Weight of normal mode ${mode} in the starting mix (scaled by the amplitude)`,
+    render: (get: (path: string) => unknown) =>
+      get('Initial Motion.start') === 'mix' && (get('Pendulum Parameters.count') as number) >= mode,
+  };
+}
+
+export function CoupledPendulumsScene() {
+  // Simulation parameters
+  const simParams = useControls('Pendulum Parameters', {
+    count: { value: 3, min: 2, max: MAX_PENDULUMS, step: 1, label: 'Pendulums', hint: 'Number of pendulums in the row' },
+    length: { value: 1.5, min: 0.2, max: 3, step: 0.1, label: 'Length (m)', hint: 'Length of every pendulum rod in meters' },
+    mass: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Mass (kg)', hint: 'Mass of every bob in kilograms' },
+    spacing: { value: 0.8, min: 0.3, max: 2, step: 0.05, label: 'Spacing (m)', hint: 'Distance between neighbouring pivots; also the springs\' rest length' },
+    stiffness: { value: 2, min: 0, max: 50, step: 0.1, label: 'Stiffness (N/m)', hint: 'Spring constant of the coupling springs; weak coupling gives slow beats' },
+    couplingPoint: { value: 1, min: 0.1, max: 1, step: 0.05, label: 'Spring Height', hint: 'Where the springs attach, as a fraction of the rod length from the pivot' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (0 = ideal, no friction)' },
+  });
+
+  // Starting configuration in terms of pendulums or normal modes
+  const motion = useControls('Initial Motion', {
+    start: {
+      value: 'single',
+      options: { 'One pendulum': 'single', 'Pure mode': 'mode', 'Mode mix': 'mix' },
+      label: 'Start',
+      hint: 'Displace only the first pendulum (all modes, beats), a single normal mode, or a custom mix of modes',
+    },
+    amplitude: { value: 0.2, min: 0.01, max: 1, step: 0.01, label: 'Amplitude (rad)', hint: 'Largest starting angle; keep it small for the linear mode picture to hold' },
+    mode: {
+      value: 1,
+      min: 1,
+      max: MAX_PENDULUMS,
+      step: 1,
+      label: 'Mode',
+      hint: 'Normal mode to excite, slowest first',
+      render: (get) => get('Initial Motion.start') === 'mode',
+    },
+    w1: mixWeight(1, 1),
+    w2: mixWeight(2, 0.5),
+    w3: mixWeight(3, 0),
+    w4: mixWeight(4, 0),
+    w5: mixWeight(5, 0),
+    w6: mixWeight(6, 0),
+    w7: mixWeight(7, 0),
+    w8: mixWeight(8, 0),
+  });
+
+  // Model params with the starting angles or mode amplitudes filled in
+  const allParams = useMemo(() => {
+    const { start, amplitude, mode, w1, w2, w3, w4, w5, w6, w7, w8 } = motion;
+    const n = simParams.count;
+    if (start === 'mode') {
+      const initialModes = new Array<number>(n).fill(0);
+      initialModes[Math.min(mode, n) - 1] = amplitude;
+      return { ...simParams, initialModes };
+    }
+    if (start === 'mix') {
+      const initialModes = [w1, w2, w3, w4, w5, w6, w7, w8].slice(0, n).map((w) => w * amplitude);
+      return { ...simParams, initialModes };
+    }
+    return { ...simParams, initialAngle: amplitude };
+  }, [simParams, motion]);
+
+  // Mode frequencies, shapes and pivot layout only depend on the parameters
+  const { normalModes, pivots } = useMemo(() => {
+    const sim = new CoupledPendulums();
+    sim.init(allParams);
+    return { normalModes: sim.getNormalModes(), pivots: sim.getPivots() };
+  }, [allParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trails behind the pendulum bobs' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase portraits (θ vs ω) for each pendulum' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob masses' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pendulum rods' },
+    springs: { value: colors.secondary, onChange: (v: string) => setColorOverride('secondary', v), hint: 'Color of the coupling springs' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trails' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+  const { phaseSpace } = useSimulationStore();
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  const [modes, setModes] = useState<ModeSnapshot | null>(null);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setModes(null);
+  }, [resetStore]);
+
+  // Energy put into one pendulum wanders away and returns every 2π/(ω₂ - ω₁)
+  const beatPeriod =
+    normalModes.length > 1 ? (2 * Math.PI) / (normalModes[1].frequency - normalModes[0].frequency) : Infinity;
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('coupled-pendulums', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'coupled-pendulums-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [allParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new CoupledPendulums instance on every render
+  const meta = useMemo(() => new CoupledPendulums().config.meta, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: -1, z: 8 }}
+        cameraTarget={{ x: 0, y: -1.2, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={allParams}
+          pivots={pivots}
+          couplingPoint={simParams.couplingPoint}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onModeUpdate={setModes}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+
+      {/* Normal-mode frequencies and shapes */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Normal modes (small oscillation)</div>
+        {normalModes.map((mode, j) => (
+          <div key={j}>
+            {j + 1}: ω = {mode.frequency.toFixed(4)} rad/s{' '}
+            <span style={{ color: colors.textMuted }}>
+              [{mode.shape.map((x) => (x >= 0 ? '+' : '') + x.toFixed(2)).join(' ')}]
+            </span>
+          </div>
+        ))}
+        <div style={{ marginTop: 4 }}>
+          beat period 2π/(ω₂-ω₁) = {Number.isFinite(beatPeriod) ? `${beatPeriod.toFixed(2)} s` : '∞'}
+        </div>
+      </div>
+
+      {modes && (
+        <ModeAmplitudeChart
+          amplitudes={modes.amplitudes}
+          frequencies={normalModes.map((m) => m.frequency)}
+          energies={modes.energies}
+        />
+      )}
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showPhaseSpace && phaseSpace.length > 0 && (
+        <PhaseSpaceView
+          data={phaseSpace}
+          labels={Array.from({ length: simParams.count }, (_, i) => String.fromCharCode(65 + i))}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,10 @@
  * Uses Lagrangian mechanics for accurate simulation
  *
  * Model Assumptions:
- * - Rods are rigid, massless, and inextensible
- * - All mass is concentrated at point masses (bobs)
+ * - Rods are rigid and inextensible
+ * - By default rods are massless and the bobs are point masses; each link can
+ *   instead be a rigid body (uniform arm, shaped bob, pivot partway along the
+ *   arm, or a custom inertia tensor), making it a compound pendulum
  * - Motion is constrained to a 2D plane (no out-of-plane swing)
  * - Pivot point is fixed and frictionless
  * - No air resistance (optional damping simulates energy loss)
@@ -19,6 +21,9 @@ import type {
   EnergyState,
   PhasePoint,
 } from '../../core/types';
+import { LyapunovEstimator } from '../../analysis/lyapunov';
+import { uniformRod, shapedBob, combineLinks, pivotInertia } from './rigidBody';
+import type { BobShape, RigidLink } from './rigidBody';
 
 export interface DoublePendulumParams {
   length1: number;
@@ -31,12 +36,40 @@ export interface DoublePendulumParams {
   initialAngle2: number;
   initialVelocity1: number;
   initialVelocity2: number;
+  // Mass of each arm, spread uniformly along it (0 = massless rod)
+  rodMass1: number;
+  rodMass2: number;
+  bobShape1: BobShape;
+  bobShape2: BobShape;
+  bobRadius1: number;
+  bobRadius2: number;
+  // Length of arm extending behind each link's pivot
+  pivotOffset1: number;
+  pivotOffset2: number;
+  // Full rigid bodies, replacing the arm and bob description of a link
+  body1?: RigidLink;
+  body2?: RigidLink;
+}
+
+// Coefficients of the equations of motion, see computeDerivatives
+interface LinkCoefficients {
+  // Moments of inertia about each pivot, the first including link 2's mass carried at L₁
+  inertia1: number;
+  inertia2: number;
+  // Coupling m₂ L₁ c₂
+  coupling: number;
+  // Gravity torque amplitudes (m₁c₁ + m₂L₁) g and m₂ c₂ g
+  torque1: number;
+  torque2: number;
 }
 
 export class DoublePendulum extends BaseSimulation {
   // Pre-allocated buffer for derivatives to avoid allocation every call
   private _derivBuffer: number[] = [0, 0, 0, 0];
 
+  // Mass properties depend only on the parameters, so they are cached per init
+  private _coefficients: LinkCoefficients | null = null;
+
   config: SimulationConfig = {
     meta: {
       id: 'double-pendulum',
@@ -80,6 +113,14 @@ export class DoublePendulum extends BaseSimulation {
         step: 0.1,
         label: 'Initial ω₂ (rad/s)',
       },
+      rodMass1: { value: 0, min: 0, max: 10, step: 0.1, label: 'Arm Mass 1 (kg)' },
+      rodMass2: { value: 0, min: 0, max: 10, step: 0.1, label: 'Arm Mass 2 (kg)' },
+      bobShape1: { value: 'point', label: 'Bob Shape 1' },
+      bobShape2: { value: 'point', label: 'Bob Shape 2' },
+      bobRadius1: { value: 0.15, min: 0.01, max: 1, step: 0.01, label: 'Bob Radius 1 (m)' },
+      bobRadius2: { value: 0.15, min: 0.01, max: 1, step: 0.01, label: 'Bob Radius 2 (m)' },
+      pivotOffset1: { value: 0, min: 0, max: 2, step: 0.05, label: 'Pivot Offset 1 (m)' },
+      pivotOffset2: { value: 0, min: 0, max: 2, step: 0.05, label: 'Pivot Offset 2 (m)' },
     },
     physics: {
       gravity: 9.81,
@@ -105,6 +146,66 @@ export class DoublePendulum extends BaseSimulation {
     return this.params as unknown as DoublePendulumParams;
   }
 
+  init(params: Record<string, unknown>): void {
+    this._coefficients = null;
+    super.init(params);
+  }
+
+  setParams(params: Partial<Record<string, unknown>>): void {
+    this._coefficients = null;
+    super.setParams(params);
+  }
+
+  /**
+   * Rigid body of each link, from the arm and bob parameters unless a body is given
+   */
+  getLinks(): [RigidLink, RigidLink] {
+    const p = this.p;
+    return [
+      p.body1 ??
+        combineLinks([
+          uniformRod(p.rodMass1, p.length1, p.pivotOffset1),
+          shapedBob(p.bobShape1, p.mass1, p.bobRadius1, p.length1),
+        ]),
+      p.body2 ??
+        combineLinks([
+          uniformRod(p.rodMass2, p.length2, p.pivotOffset2),
+          shapedBob(p.bobShape2, p.mass2, p.bobRadius2, p.length2),
+        ]),
+    ];
+  }
+
+  private get coefficients(): LinkCoefficients {
+    if (!this._coefficients) {
+      const { length1: L1, gravity: g } = this.p;
+      const [link1, link2] = this.getLinks();
+      this._coefficients = {
+        inertia1: pivotInertia(link1) + link2.mass * L1 * L1,
+        inertia2: pivotInertia(link2),
+        coupling: link2.mass * L1 * link2.centerOfMass,
+        torque1: (link1.mass * link1.centerOfMass + link2.mass * L1) * g,
+        torque2: link2.mass * link2.centerOfMass * g,
+      };
+    }
+    return this._coefficients;
+  }
+
+  /**
+   * Small-oscillation normal mode frequencies about hanging straight down (rad/s), slow first
+   * Roots of det(K - ω²M) = 0 with M the inertia matrix and K = diag(gravity torques)
+   */
+  getNormalModeFrequencies(): [number, number] {
+    const { inertia1: a, inertia2: d, coupling: b, torque1: k1, torque2: k2 } = this.coefficients;
+    const quadratic = a * d - b * b;
+    const linear = k1 * d + k2 * a;
+    const constant = k1 * k2;
+    const root = Math.sqrt(Math.max(linear * linear - 4 * quadratic * constant, 0));
+    return [
+      Math.sqrt((linear - root) / (2 * quadratic)),
+      Math.sqrt((linear + root) / (2 * quadratic)),
+    ];
+  }
+
   protected createInitialState(): number[] {
     const p = this.p;
     // State: [theta1, theta2, omega1, omega2]
@@ -114,33 +215,23 @@ export class DoublePendulum extends BaseSimulation {
   protected computeDerivatives(_t: number, state: number[]): number[] {
     const p = this.p;
     const [theta1, theta2, omega1, omega2] = state;
-
-    const { length1: L1, length2: L2, mass1: m1, mass2: m2, gravity: g, damping } = p;
+    const { inertia1: a, inertia2: d, coupling: b, torque1: k1, torque2: k2 } = this.coefficients;
 
     const delta = theta1 - theta2;
     const sinDelta = Math.sin(delta);
     const cosDelta = Math.cos(delta);
 
-    // Denominators from Lagrangian equations
-    const denom1 = L1 * (2 * m1 + m2 - m2 * Math.cos(2 * delta));
-    const denom2 = L2 * (2 * m1 + m2 - m2 * Math.cos(2 * delta));
-
-    // Angular accelerations from Lagrangian mechanics
-    const alpha1 =
-      (-g * (2 * m1 + m2) * Math.sin(theta1) -
-        m2 * g * Math.sin(theta1 - 2 * theta2) -
-        2 * sinDelta * m2 * (omega2 * omega2 * L2 + omega1 * omega1 * L1 * cosDelta)) /
-        denom1 -
-      damping * omega1;
-
-    const alpha2 =
-      (2 *
-        sinDelta *
-        (omega1 * omega1 * L1 * (m1 + m2) +
-          g * (m1 + m2) * Math.cos(theta1) +
-          omega2 * omega2 * L2 * m2 * cosDelta)) /
-        denom2 -
-      damping * omega2;
+    // Lagrange's equations for two rigid links; with point masses a = (m₁+m₂)L₁²,
+    // d = m₂L₂², b = m₂L₁L₂ and this reduces to the textbook double pendulum
+    //   a θ̈₁ + b cosΔ θ̈₂ = -b sinΔ ω₂² - k₁ sin θ₁
+    //   b cosΔ θ̈₁ + d θ̈₂ =  b sinΔ ω₁² - k₂ sin θ₂
+    const rhs1 = -b * sinDelta * omega2 * omega2 - k1 * Math.sin(theta1);
+    const rhs2 = b * sinDelta * omega1 * omega1 - k2 * Math.sin(theta2);
+    const bc = b * cosDelta;
+    const det = a * d - bc * bc;
+
+    const alpha1 = (d * rhs1 - bc * rhs2) / det - p.damping * omega1;
+    const alpha2 = (a * rhs2 - bc * rhs1) / det - p.damping * omega2;
 
     // Reuse pre-allocated buffer
     this._derivBuffer[0] = omega1;
@@ -183,27 +274,15 @@ export class DoublePendulum extends BaseSimulation {
   }
 
   getEnergy(): EnergyState {
-    const p = this.p;
     const [theta1, theta2, omega1, omega2] = this.state;
+    const { inertia1: a, inertia2: d, coupling: b, torque1: k1, torque2: k2 } = this.coefficients;
 
-    const { length1: L1, length2: L2, mass1: m1, mass2: m2, gravity: g } = p;
-
-    // Positions
-    const y1 = -L1 * Math.cos(theta1);
-    const y2 = y1 - L2 * Math.cos(theta2);
-
-    // Velocities squared
-    const v1Sq = Math.pow(L1 * omega1, 2);
-    const v2Sq =
-      Math.pow(L1 * omega1, 2) +
-      Math.pow(L2 * omega2, 2) +
-      2 * L1 * L2 * omega1 * omega2 * Math.cos(theta1 - theta2);
-
-    // Kinetic energy
-    const kinetic = 0.5 * m1 * v1Sq + 0.5 * m2 * v2Sq;
+    // Kinetic energy of both rigid bodies, ½ωᵀMω
+    const kinetic =
+      0.5 * a * omega1 * omega1 + 0.5 * d * omega2 * omega2 + b * omega1 * omega2 * Math.cos(theta1 - theta2);
 
     // Potential energy (reference: both hanging straight down)
-    const potential = m1 * g * (y1 + L1) + m2 * g * (y2 + L1 + L2);
+    const potential = k1 * (1 - Math.cos(theta1)) + k2 * (1 - Math.cos(theta2));
 
     return {
       kinetic,
@@ -212,6 +291,10 @@ export class DoublePendulum extends BaseSimulation {
     };
   }
 
+  getAngleIndices(): number[] {
+    return [0, 1];
+  }
+
   getPhaseSpace(): PhasePoint[] {
     const [theta1, theta2, omega1, omega2] = this.state;
     return [
@@ -221,13 +304,32 @@ export class DoublePendulum extends BaseSimulation {
   }
 
   /**
-   * Calculate Lyapunov exponent (measure of chaos)
+   * Arm that has flipped over the top (0 upper, 1 lower), or -1 if neither has
+   * Angles are not wrapped, so an arm has flipped once |θ| passes π
    */
-  getLyapunovExponent(): number {
-    // Simplified calculation - would need trajectory divergence for accurate value
-    const energy = this.getEnergy();
-    const p = this.p;
-    // Higher energy = more chaotic behavior
-    return Math.log(1 + energy.total / (p.mass1 + p.mass2) / p.gravity);
+  getFlippedArm(state: number[] = this.state): number {
+    if (Math.abs(state[0]) > Math.PI) return 0;
+    if (Math.abs(state[1]) > Math.PI) return 1;
+    return -1;
+  }
+
+  /**
+   * Whether the current energy could ever take an arm over the top
+   * The cheapest flip lifts one arm vertical with the other hanging, costing
+   * 2k for that arm's gravity torque constant k; damping only lowers the energy
+   */
+  canFlip(): boolean {
+    const { torque1: k1, torque2: k2 } = this.coefficients;
+    return this.getEnergy().total >= 2 * Math.min(k1, k2);
+  }
+
+  /**
+   * Estimate the maximal Lyapunov exponent (measure of chaos) from the current state
+   * Integrates the tangent dynamics for the given duration (s)
+   */
+  getLyapunovExponent(duration = 30): number {
+    const estimator = new LyapunovEstimator(this, { exponents: 1 });
+    estimator.advance(duration);
+    return estimator.getMaximalExponent();
   }
 }
@@ -8,31 +8,162 @@ import { useControls, button } from 'leva';
 import {
   SimulationCanvas,
   EnergyGraph,
+  LyapunovGraph,
+  PoincareSectionView,
   PhaseSpaceView,
   SimulationInfo,
+  FlipTimeMapView,
+  SeparationGraph,
+  SpectrumGraph,
+  SweepResultsView,
 } from '../../core/components';
 import { useSimulationStore, useThemeStore } from '../../core/stores';
-import { useSimulation } from '../templates';
+import { useSimulation, useIntegratorControls, useParameterSweep } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
 import { DoublePendulum } from './DoublePendulum';
 import { PendulumRenderer } from './PendulumRenderer';
+import type { BobShape } from './rigidBody';
 import { exportToCSV, exportToJSON } from '../../utils';
 import { themes } from '../../core/types';
-import type { EnergyState } from '../../core/types';
+import type { EnergyState, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+import {
+  useBasinMap,
+  useEnsemble,
+  useLyapunovEstimator,
+  usePoincareSection,
+  useSpectrum,
+  spectrumWindowOptions,
+  spectrumSizeOptions,
+} from '../../analysis';
+import type {
+  LyapunovSample,
+  PoincarePoint,
+  PoincareSectionConfig,
+  CrossingDirection,
+  SeparationSample,
+  Spectrum,
+  SpectrumSignal,
+  SpectrumWindow,
+} from '../../analysis';
 
 interface SimulationRunnerProps {
   params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  lyapunovExponents: number;
+  poincare: PoincareSectionConfig | null;
+  poincareClearToken: number;
+  shadows: { count: number; epsilon: number } | null;
+  spectrum: { signal: SpectrumSignal; window: SpectrumWindow; size: number } | null;
   onEnergyUpdate: (energy: EnergyState) => void;
+  onLyapunovUpdate: (history: LyapunovSample[]) => void;
+  onPoincareUpdate: (points: PoincarePoint[]) => void;
+  onSeparationUpdate: (history: SeparationSample[]) => void;
+  onSpectrumUpdate: (spectrum: Spectrum | null) => void;
   onReset: () => void;
 }
 
+// Link parameters for the classic massless-rod, point-bob model
+const POINT_MASS_LINKS = {
+  rodMass1: 0,
+  rodMass2: 0,
+  bobShape1: 'point' as BobShape,
+  bobShape2: 'point' as BobShape,
+  pivotOffset1: 0,
+  pivotOffset2: 0,
+};
+
+// Signals the spectrum can be taken of
+const SPECTRUM_SIGNALS: Record<string, SpectrumSignal> = {
+  'θ₁': { kind: 'state', index: 0 },
+  'θ₂': { kind: 'state', index: 1 },
+  'ω₁': { kind: 'state', index: 2 },
+  'ω₂': { kind: 'state', index: 3 },
+  KE: { kind: 'energy', component: 'kinetic' },
+  PE: { kind: 'energy', component: 'potential' },
+};
+
+const bobShapeOptions: Record<string, BobShape> = {
+  Point: 'point',
+  Sphere: 'sphere',
+  'Disk (in plane)': 'disk',
+  'Ring (in plane)': 'ring',
+};
+
+// Shadow copies are drawn this see-through over the live pendulum
+const SHADOW_OPACITY = 0.25;
+
+const createDoublePendulum = () => new DoublePendulum();
+
+// Flip-time map integration step (s); flips need the angles resolved finely
+const FLIP_MAP_TIMESTEP = 0.005;
+
+// Placeholder surface while the section is disabled
+const DEFAULT_SECTION: PoincareSectionConfig = {
+  surfaceIndex: 0,
+  surfaceValue: 0,
+  direction: 'positive',
+  xIndex: 1,
+  yIndex: 3,
+};
+
 // This component runs inside Canvas
-function SimulationRunner({ params, onEnergyUpdate, onReset }: SimulationRunnerProps) {
-  const { physicsState, energy, reset } = useSimulation(
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  lyapunovExponents,
+  poincare,
+  poincareClearToken,
+  shadows,
+  spectrum,
+  onEnergyUpdate,
+  onLyapunovUpdate,
+  onPoincareUpdate,
+  onSeparationUpdate,
+  onSpectrumUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
     DoublePendulum,
     params,
-    { autoStart: false, recordTrails: true, recordPhaseSpace: true }
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
   );
 
+  // Tangent-space Lyapunov estimation alongside the live run
+  useLyapunovEstimator(simulation, {
+    enabled: lyapunovExponents > 0,
+    exponents: lyapunovExponents,
+    onUpdate: onLyapunovUpdate,
+  });
+
+  // Poincaré section crossings, refined between integrator steps
+  usePoincareSection(simulation, {
+    enabled: poincare !== null,
+    config: poincare ?? DEFAULT_SECTION,
+    clearToken: poincareClearToken,
+    onUpdate: onPoincareUpdate,
+  });
+
+  // Perturbed copies integrated alongside the run
+  const shadowStates = useEnsemble(simulation, {
+    enabled: shadows !== null,
+    count: shadows?.count ?? 0,
+    epsilon: shadows?.epsilon ?? 0,
+    createSimulation: createDoublePendulum,
+    onUpdate: onSeparationUpdate,
+  });
+
+  // Windowed FFT of the chosen signal
+  useSpectrum(simulation, {
+    enabled: spectrum !== null,
+    signal: spectrum?.signal ?? SPECTRUM_SIGNALS['θ₁'],
+    window: spectrum?.window ?? 'hann',
+    size: spectrum?.size ?? spectrumSizeOptions[0],
+    onUpdate: onSpectrumUpdate,
+  });
+
   // Notify parent of energy updates
   useEffect(() => {
     onEnergyUpdate(energy);
@@ -50,19 +181,40 @@ function SimulationRunner({ params, onEnergyUpdate, onReset }: SimulationRunnerP
     };
   }, [reset, onReset]);
 
+  // Heavy arms are drawn thicker, and shaped bobs at their real size
+  const shapes = [params.bobShape1, params.bobShape2] as BobShape[];
+  const radii = [params.bobRadius1, params.bobRadius2] as number[];
+
+  const linkStyle = {
+    pivotPosition: { x: 0, y: 0, z: 0 },
+    massRadius: 0.18,
+    rodRadius: 0.04,
+    rodRadii: [params.rodMass1, params.rodMass2].map((m) => ((m as number) > 0 ? 0.07 : 0.04)),
+    linkOverhangs: [params.pivotOffset1, params.pivotOffset2] as number[],
+    massShapes: shapes.map((shape) => (shape === 'point' ? 'sphere' : shape)),
+    massRadii: shapes.map((shape, i) => (shape === 'point' ? 0.18 : radii[i])),
+  };
+
   return (
-    <PendulumRenderer
-      state={physicsState}
-      pivotPosition={{ x: 0, y: 0, z: 0 }}
-      massRadius={0.18}
-      rodRadius={0.04}
-    />
+    <group>
+      {shadowStates.map((state, i) => (
+        <PendulumRenderer
+          key={i}
+          state={state}
+          {...linkStyle}
+          useGlowEffect={false}
+          opacity={SHADOW_OPACITY}
+          trails={false}
+        />
+      ))}
+      <PendulumRenderer state={physicsState} {...linkStyle} />
+    </group>
   );
 }
 
 export function DoublePendulumScene() {
   // Simulation parameters from Leva controls
-  const simParams = useControls('Pendulum Parameters', {
+  const [simParams, setSimParams] = useControls('Pendulum Parameters', () => ({
     length1: { value: 1.5, min: 0.1, max: 5, step: 0.1, label: 'Length 1', hint: 'Length of the upper pendulum arm in meters' },
     length2: { value: 1.5, min: 0.1, max: 5, step: 0.1, label: 'Length 2', hint: 'Length of the lower pendulum arm in meters' },
     mass1: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass 1', hint: 'Mass of the upper bob in kilograms' },
@@ -73,8 +225,39 @@ export function DoublePendulumScene() {
     initialAngle2: { value: Math.PI / 2, min: -Math.PI, max: Math.PI, step: 0.01, label: 'θ₂', hint: 'Initial angle of lower pendulum (radians from vertical)' },
     initialVelocity1: { value: 0, min: -10, max: 10, step: 0.1, label: 'ω₁', hint: 'Initial angular velocity of upper pendulum (rad/s)' },
     initialVelocity2: { value: 0, min: -10, max: 10, step: 0.1, label: 'ω₂', hint: 'Initial angular velocity of lower pendulum (rad/s)' },
+  }));
+
+  // Compound pendulum: arms with mass, shaped bobs, pivots partway along the arm
+  const rigidControls = useControls('Rigid Bodies', {
+    compound: { value: false, label: 'Compound', hint: 'Treat each link as a rigid body instead of a massless rod with a point bob' },
+    rodMass1: { value: 0.5, min: 0, max: 10, step: 0.1, label: 'Arm mass 1', hint: 'Mass of the upper arm, spread uniformly along it (kg)', render: (get) => get('Rigid Bodies.compound') },
+    rodMass2: { value: 0.5, min: 0, max: 10, step: 0.1, label: 'Arm mass 2', hint: 'Mass of the lower arm, spread uniformly along it (kg)', render: (get) => get('Rigid Bodies.compound') },
+    bobShape1: { value: 'disk' as BobShape, options: bobShapeOptions, label: 'Bob shape 1', hint: 'Shape of the upper bob, which sets its moment of inertia', render: (get) => get('Rigid Bodies.compound') },
+    bobShape2: { value: 'disk' as BobShape, options: bobShapeOptions, label: 'Bob shape 2', hint: 'Shape of the lower bob, which sets its moment of inertia', render: (get) => get('Rigid Bodies.compound') },
+    bobRadius1: { value: 0.2, min: 0.01, max: 1, step: 0.01, label: 'Bob radius 1', hint: 'Radius of the upper bob (m)', render: (get) => get('Rigid Bodies.compound') },
+    bobRadius2: { value: 0.2, min: 0.01, max: 1, step: 0.01, label: 'Bob radius 2', hint: 'Radius of the lower bob (m)', render: (get) => get('Rigid Bodies.compound') },
+    pivotOffset1: { value: 0, min: 0, max: 2, step: 0.05, label: 'Pivot offset 1', hint: 'Length of the upper arm extending above its pivot (m)', render: (get) => get('Rigid Bodies.compound') },
+    pivotOffset2: { value: 0, min: 0, max: 2, step: 0.05, label: 'Pivot offset 2', hint: 'Length of the lower arm extending past the elbow (m)', render: (get) => get('Rigid Bodies.compound') },
   });
 
+  const { compound } = rigidControls;
+  const allParams = useMemo(() => {
+    const { compound: useRigidLinks, ...rigid } = rigidControls;
+    return { ...simParams, ...rigid, ...(useRigidLinks ? {} : POINT_MASS_LINKS) };
+  }, [simParams, rigidControls]);
+
+  // Small-oscillation periods of the rigid model against the point-mass idealization
+  const modePeriods = useMemo(() => {
+    const rigid = new DoublePendulum();
+    rigid.init(allParams);
+    const point = new DoublePendulum();
+    point.init({ ...allParams, ...POINT_MASS_LINKS });
+    return {
+      rigid: rigid.getNormalModeFrequencies().map((w) => (2 * Math.PI) / w),
+      point: point.getNormalModeFrequencies().map((w) => (2 * Math.PI) / w),
+    };
+  }, [allParams]);
+
   // Playback controls
   const {
     isPlaying,
@@ -101,6 +284,8 @@ export function DoublePendulumScene() {
     speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
   });
 
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
   useControls('Visualization', {
     trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trails behind each mass' },
     trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
@@ -110,6 +295,135 @@ export function DoublePendulumScene() {
     'Clear Trails': button(() => clearTrails()),
   });
 
+  const { lyapunov, exponents } = useControls('Analysis', {
+    lyapunov: { value: false, label: 'Lyapunov', hint: 'Estimate Lyapunov exponents from the tangent dynamics (positive λ₁ = chaos)' },
+    exponents: { value: 4, min: 1, max: 4, step: 1, label: 'Exponents', hint: 'Number of exponents to track (largest first)', render: (get) => get('Analysis.lyapunov') },
+  });
+  const [lyapunovHistory, setLyapunovHistory] = useState<LyapunovSample[]>([]);
+
+  const { shadowsEnabled, shadowCount, shadowEpsilonLog } = useControls('Shadows', {
+    shadowsEnabled: { value: false, label: 'Enabled', hint: 'Run copies from initial angles nudged by ε and plot how fast they drift apart' },
+    shadowCount: { value: 8, min: 1, max: 24, step: 1, label: 'Copies', hint: 'Number of shadow pendulums', render: (get) => get('Shadows.shadowsEnabled') },
+    shadowEpsilonLog: { value: -6, min: -12, max: -1, step: 1, label: 'log₁₀ ε', hint: 'Size of the initial angle perturbation (rad)', render: (get) => get('Shadows.shadowsEnabled') },
+  });
+  const shadows = useMemo(
+    () => (shadowsEnabled ? { count: shadowCount, epsilon: 10 ** shadowEpsilonLog } : null),
+    [shadowsEnabled, shadowCount, shadowEpsilonLog]
+  );
+  const [separationHistory, setSeparationHistory] = useState<SeparationSample[]>([]);
+
+  const spectrumControls = useControls('Spectrum', {
+    enabled: { value: false, label: 'Enabled', hint: 'Show the windowed FFT of a signal: isolated lines for regular motion, a broadband floor for chaos' },
+    signal: { value: 'θ₁', options: Object.keys(SPECTRUM_SIGNALS), hint: 'Angle or angular velocity of either arm, or kinetic or potential energy' },
+    window: { value: 'hann', options: spectrumWindowOptions, hint: 'Taper applied before the FFT (Blackman leaks least, Hann resolves closer lines)' },
+    size: { value: 4096, options: spectrumSizeOptions, label: 'FFT size', hint: 'Most recent samples analysed (50 per second of simulation time)' },
+    maxFrequency: { value: 3, min: 0.5, max: 25, step: 0.5, label: 'Max freq (Hz)', hint: 'Highest frequency shown' },
+    logScale: { value: true, label: 'Log scale', hint: 'Plot amplitude in dB relative to the strongest bin' },
+  });
+  const spectrumSettings = useMemo(
+    () =>
+      spectrumControls.enabled
+        ? {
+            signal: SPECTRUM_SIGNALS[spectrumControls.signal],
+            window: spectrumControls.window as SpectrumWindow,
+            size: spectrumControls.size,
+          }
+        : null,
+    [spectrumControls.enabled, spectrumControls.signal, spectrumControls.window, spectrumControls.size]
+  );
+  const [spectrum, setSpectrum] = useState<Spectrum | null>(null);
+
+  const [poincareClearToken, setPoincareClearToken] = useState(0);
+  const { poincare, surface, surfaceValue, direction } = useControls('Poincaré Section', {
+    poincare: { value: false, label: 'Enabled', hint: 'Record a point each time the trajectory crosses the surface' },
+    surface: { value: 0, options: { 'θ₁ (plot θ₂, ω₂)': 0, 'θ₂ (plot θ₁, ω₁)': 1 }, label: 'Surface', hint: 'Angle that defines the surface of section' },
+    surfaceValue: { value: 0, min: -Math.PI, max: Math.PI, step: 0.01, label: 'At angle', hint: 'Surface value of the chosen angle (radians)' },
+    direction: { value: 'positive', options: { 'ω > 0': 'positive', 'ω < 0': 'negative', Both: 'both' }, label: 'Direction', hint: 'Only count crossings in this direction' },
+    'Clear Section': button(() => setPoincareClearToken((t) => t + 1)),
+  });
+  const sectionConfig = useMemo<PoincareSectionConfig>(() => {
+    const plotted = 1 - surface;
+    return {
+      surfaceIndex: surface,
+      surfaceValue,
+      direction: direction as CrossingDirection,
+      xIndex: plotted,
+      yIndex: 2 + plotted,
+    };
+  }, [surface, surfaceValue, direction]);
+  const [poincarePoints, setPoincarePoints] = useState<PoincarePoint[]>([]);
+
+  // Flip-time fractal: time until either arm first goes over the top, for
+  // every pair of starting angles released from rest
+  const flipMap = useBasinMap();
+  const flipSettings = useControls('Flip Map', {
+    showFlipMap: { value: false, label: 'Show Map', hint: 'Show the flip-time map; click a pixel to release the pendulum from those angles' },
+    resolution: { value: 128, options: [64, 128, 256], label: 'Resolution', hint: 'Pixels per side; the map refines progressively, coarse to fine' },
+    maxTime: { value: 30, min: 5, max: 300, step: 5, label: 'Max Time (s)', hint: 'Starts that have not flipped by then are drawn as never flipping' },
+  });
+  // Time limit the current map was computed with, which sets its color scale
+  const [flipMapMaxTime, setFlipMapMaxTime] = useState(flipSettings.maxTime);
+
+  useControls('Flip Map', {
+    'Compute Map': button(() => {
+      const { resolution, maxTime } = flipSettings;
+      setFlipMapMaxTime(maxTime);
+      flipMap.start({
+        createSimulation: () => new DoublePendulum(),
+        params: allParams,
+        x: { min: -Math.PI, max: Math.PI, steps: resolution },
+        y: { min: -Math.PI, max: Math.PI, steps: resolution },
+        initialConditions: (theta1, theta2) => ({
+          initialAngle1: theta1,
+          initialAngle2: theta2,
+          initialVelocity1: 0,
+          initialVelocity2: 0,
+        }),
+        classify: (sim) => sim.getFlippedArm(),
+        unreachable: (sim) => !sim.canFlip(),
+        timestep: FLIP_MAP_TIMESTEP,
+        maxTime,
+        checkInterval: 1,
+      });
+    }),
+    'Stop': button(() => flipMap.cancel()),
+    'Resume': button(() => flipMap.resume()),
+  }, [allParams, flipSettings, flipMap.start, flipMap.cancel, flipMap.resume]);
+
+  const handleFlipSelect = useCallback(
+    (theta1: number, theta2: number) => {
+      setSimParams({
+        initialAngle1: Number(theta1.toFixed(3)),
+        initialAngle2: Number(theta2.toFixed(3)),
+        initialVelocity1: 0,
+        initialVelocity2: 0,
+      });
+    },
+    [setSimParams]
+  );
+  const { initialAngle1, initialAngle2 } = simParams;
+  const flipMarker = useMemo(() => ({ x: initialAngle1, y: initialAngle2 }), [initialAngle1, initialAngle2]);
+
+  // Batch runs over one or two parameters, e.g. λ₁ over the starting angles
+  const schema = useMemo(() => new DoublePendulum().config.defaultParams, []);
+  const sweep = useParameterSweep({
+    model: 'double-pendulum',
+    schema,
+    params: allParams,
+    integrationMethod,
+    tolerances,
+    defaults: { x: 'initialAngle1', y: 'initialAngle2', metric: 'lyapunov' },
+  });
+  const { paramsAt } = sweep;
+  const handleSweepSelect = useCallback(
+    (point: number[]) => {
+      // Only the main parameters can be set; rigid-body ones live in their own folder
+      const selected = Object.entries(paramsAt(point)).filter(([key]) => key in simParams);
+      setSimParams(Object.fromEntries(selected));
+    },
+    [paramsAt, simParams, setSimParams]
+  );
+
   // Theme controls
   const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
 
@@ -169,28 +483,18 @@ export function DoublePendulumScene() {
   // Export controls (buttons don't support tooltips in Leva)
   useControls('Export', {
     'Export CSV': button(() => {
-      const sim = new DoublePendulum();
-      sim.init(simParams);
-      sim.enableRecording(true); // Enable history recording for export
-      for (let i = 0; i < 1000; i++) {
-        sim.step(1 / 60);
-      }
-      exportToCSV(sim.export(), 'double-pendulum-data.csv');
+      const data = runSimulation(exportRunSpec('double-pendulum', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'double-pendulum-data.csv');
     }),
     'Export JSON': button(() => {
-      const sim = new DoublePendulum();
-      sim.init(simParams);
-      sim.enableRecording(true); // Enable history recording for export
-      for (let i = 0; i < 1000; i++) {
-        sim.step(1 / 60);
-      }
-      exportToJSON(sim.export(), 'double-pendulum-data.json');
+      const data = runSimulation(exportRunSpec('double-pendulum', allParams, integrationMethod, tolerances));
+      exportToJSON(data, 'double-pendulum-data.json');
     }),
     Reset: button(() => {
       const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
       if (resetFn) resetFn();
     }),
-  });
+  }, [allParams, integrationMethod, tolerances]);
 
   // Memoize to avoid creating new DoublePendulum instance on every render
   const meta = useMemo(() => new DoublePendulum().config.meta, []);
@@ -204,22 +508,109 @@ export function DoublePendulumScene() {
         lowPowerMode={true} // ENABLED FOR MEMORY TEST
       >
         <SimulationRunner
-          params={simParams}
+          params={allParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          lyapunovExponents={lyapunov ? exponents : 0}
+          poincare={poincare ? sectionConfig : null}
+          poincareClearToken={poincareClearToken}
+          shadows={shadows}
+          spectrum={spectrumSettings}
           onEnergyUpdate={handleEnergyUpdate}
+          onLyapunovUpdate={setLyapunovHistory}
+          onPoincareUpdate={setPoincarePoints}
+          onSeparationUpdate={setSeparationHistory}
+          onSpectrumUpdate={setSpectrum}
           onReset={handleReset}
         />
       </SimulationCanvas>
 
       {/* Info overlay */}
-      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+      <SimulationInfo meta={meta} params={allParams} showParams={false} />
+
+      {/* Compound pendulum periods against the point-mass model */}
+      {compound && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 180,
+            left: 20,
+            background: `${colors.panel}dd`,
+            borderRadius: 8,
+            padding: 10,
+            border: `1px solid ${colors.panelBorder}`,
+            fontFamily: 'monospace',
+            fontSize: 12,
+            color: colors.text,
+          }}
+        >
+          <div style={{ color: colors.textMuted, marginBottom: 4 }}>Normal modes (small oscillation)</div>
+          {(['slow', 'fast'] as const).map((label, i) => {
+            const rigid = modePeriods.rigid[i];
+            const point = modePeriods.point[i];
+            return (
+              <div key={label}>
+                T {label} = {rigid.toFixed(4)} s (point masses {point.toFixed(4)} s, {(((point - rigid) / rigid) * 100).toFixed(1)}%)
+              </div>
+            );
+          })}
+        </div>
+      )}
 
       {/* Energy graph */}
       {showEnergy && <EnergyGraph history={energyHistory} />}
 
+      {/* Lyapunov convergence */}
+      {lyapunov && <LyapunovGraph history={lyapunovHistory} />}
+
+      {/* Shadow ensemble divergence */}
+      {shadows && <SeparationGraph history={separationHistory} epsilon={shadows.epsilon} />}
+
+      {/* Spectrum, with the small-oscillation normal modes for reference */}
+      {spectrumControls.enabled && (
+        <SpectrumGraph
+          spectrum={spectrum}
+          maxFrequency={spectrumControls.maxFrequency}
+          logScale={spectrumControls.logScale}
+          markers={[
+            { frequency: 1 / modePeriods.rigid[0], label: 'slow' },
+            { frequency: 1 / modePeriods.rigid[1], label: 'fast' },
+          ]}
+          signalLabel={spectrumControls.signal}
+        />
+      )}
+
       {/* Phase space */}
       {showPhaseSpace && phaseSpace.length > 0 && (
         <PhaseSpaceView data={phaseSpace} labels={['θ₁', 'θ₂']} />
       )}
+
+      {/* Flip-time map */}
+      {flipSettings.showFlipMap && flipMap.map && (
+        <FlipTimeMapView
+          map={flipMap.map}
+          version={flipMap.version}
+          maxTime={flipMapMaxTime}
+          progress={flipMap.progress}
+          marker={flipMarker}
+          onSelect={handleFlipSelect}
+          title="Flip Time (released from rest)"
+          xLabel="θ₁ (rad)"
+          yLabel="θ₂ (rad)"
+        />
+      )}
+
+      {/* Sweep results; clicking a row loads that point */}
+      {sweep.view && <SweepResultsView {...sweep.view} onSelect={handleSweepSelect} />}
+
+      {/* Poincaré section */}
+      {poincare && (
+        <PoincareSectionView
+          points={poincarePoints}
+          xLabel={surface === 0 ? 'θ₂ (rad)' : 'θ₁ (rad)'}
+          yLabel={surface === 0 ? 'ω₂ (rad/s)' : 'ω₁ (rad/s)'}
+        />
+      )}
     </div>
   );
 }
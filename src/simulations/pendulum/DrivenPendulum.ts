@@ -0,0 +1,196 @@
+/**
+ * DrivenPendulum
+ * Damped pendulum with a sinusoidal driving torque
+ * Shows the period-doubling route to chaos as the drive amplitude rises
+ *
+ * Model Assumptions:
+ * - Rod is rigid, massless, and inextensible
+ * - All mass is concentrated at a point mass (bob)
+ * - Motion is constrained to a 2D plane
+ * - Pivot point is fixed; damping is linear in angular velocity
+ * - Driving torque is τ(t) = A cos(Ωt + φ), applied about the pivot
+ * - Gravitational field is uniform (constant g)
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  PhasePoint,
+} from '../../core/types';
+import { polarToCartesian } from '../../utils/physics';
+
+export interface DrivenPendulumParams {
+  length: number;
+  mass: number;
+  gravity: number;
+  damping: number;
+  driveAmplitude: number;
+  driveFrequency: number;
+  drivePhase: number;
+  initialAngle: number;
+  initialVelocity: number;
+}
+
+export class DrivenPendulum extends BaseSimulation {
+  // Pre-allocated buffer for derivatives to avoid allocation every call
+  private _derivBuffer: number[] = [0, 0];
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'driven-pendulum',
+      name: 'Driven Pendulum',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      length: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Length (m)' },
+      mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 1.57, min: 0, max: 3, step: 0.01, label: 'Damping' },
+      driveAmplitude: {
+        value: 10.55,
+        min: 0,
+        max: 20,
+        step: 0.01,
+        label: 'Drive Torque (N·m)',
+      },
+      driveFrequency: {
+        value: 2.09,
+        min: 0.1,
+        max: 10,
+        step: 0.01,
+        label: 'Drive Frequency (rad/s)',
+      },
+      drivePhase: {
+        value: 0,
+        min: -Math.PI,
+        max: Math.PI,
+        step: 0.01,
+        label: 'Drive Phase (rad)',
+      },
+      initialAngle: {
+        value: -Math.PI / 2,
+        min: -Math.PI,
+        max: Math.PI,
+        step: 0.01,
+        label: 'Initial Angle (rad)',
+      },
+      initialVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial Velocity (rad/s)',
+      },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 1.57,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 480,
+    },
+    visualization: {
+      showTrails: true,
+      trailLength: 500,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: true,
+    },
+    camera: {
+      position: { x: 0, y: 0, z: 6 },
+      target: { x: 0, y: 0, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): DrivenPendulumParams {
+    return this.params as unknown as DrivenPendulumParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    // State: [theta, omega]
+    return [p.initialAngle, p.initialVelocity];
+  }
+
+  protected computeDerivatives(t: number, state: number[]): number[] {
+    const p = this.p;
+    const [theta, omega] = state;
+
+    // d(omega)/dt = -(g/L)*sin(theta) - damping*omega + τ(t)/(m L²)
+    const drive = this.getDriveTorque(t) / (p.mass * p.length * p.length);
+    const alpha = -(p.gravity / p.length) * Math.sin(theta) - p.damping * omega + drive;
+
+    // Reuse pre-allocated buffer
+    this._derivBuffer[0] = omega;
+    this._derivBuffer[1] = alpha;
+    return this._derivBuffer;
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const p = this.p;
+    const [theta, omega] = state;
+
+    const pos = polarToCartesian(p.length, theta, 0, 0);
+
+    const v = p.length * omega;
+    const vx = v * Math.cos(theta);
+    const vy = v * Math.sin(theta);
+
+    return {
+      time: this.time,
+      positions: [{ x: pos.x, y: pos.y, z: 0 }],
+      velocities: [{ x: vx, y: vy, z: 0 }],
+    };
+  }
+
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const [theta, omega] = this.state;
+
+    // Mechanical energy of the pendulum (not conserved: the drive does work)
+    const kinetic = 0.5 * p.mass * Math.pow(p.length * omega, 2);
+    const potential = p.mass * p.gravity * p.length * (1 - Math.cos(theta));
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  getAngleIndices(): number[] {
+    return [0];
+  }
+
+  getPhaseSpace(): PhasePoint[] {
+    const [theta, omega] = this.state;
+    return [{ angle: theta, angularVelocity: omega, time: this.time }];
+  }
+
+  /**
+   * Driving torque at time t (N·m)
+   */
+  getDriveTorque(t: number): number {
+    const p = this.p;
+    return p.driveAmplitude * Math.cos(p.driveFrequency * t + p.drivePhase);
+  }
+
+  /**
+   * Period of the drive, used for stroboscopic sampling
+   */
+  getDrivePeriod(): number {
+    return (2 * Math.PI) / this.p.driveFrequency;
+  }
+
+  /**
+   * Drive strength relative to gravity (γ = A / (m g L)); period doubling starts near γ ≈ 1.07
+   */
+  getDriveStrength(): number {
+    const p = this.p;
+    return p.driveAmplitude / (p.mass * p.gravity * p.length);
+  }
+}
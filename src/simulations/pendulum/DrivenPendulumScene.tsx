@@ -0,0 +1,273 @@
+/**
+ * DrivenPendulumScene
+ * Complete scene for the driven damped pendulum with a bifurcation diagram
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  PhaseSpaceView,
+  SimulationInfo,
+  BifurcationDiagram,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { DrivenPendulum } from './DrivenPendulum';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+import { useBifurcationSweep } from '../../analysis';
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({ params, integrationMethod, tolerances, onEnergyUpdate, onReset }: SimulationRunnerProps) {
+  const { physicsState, energy, reset } = useSimulation(
+    DrivenPendulum,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  return (
+    <PendulumRenderer
+      state={physicsState}
+      pivotPosition={{ x: 0, y: 0, z: 0 }}
+      massRadius={0.12}
+      rodRadius={0.03}
+    />
+  );
+}
+
+export function DrivenPendulumScene() {
+  // Simulation parameters
+  const simParams = useControls('Pendulum Parameters', {
+    length: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Length (m)', hint: 'Length of the pendulum rod in meters' },
+    mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)', hint: 'Mass of the pendulum bob in kilograms' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 1.57, min: 0, max: 3, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (transients need damping to die out)' },
+    initialAngle: { value: -Math.PI / 2, min: -Math.PI, max: Math.PI, step: 0.01, label: 'Initial Angle', hint: 'Starting angle in radians' },
+    initialVelocity: { value: 0, min: -10, max: 10, step: 0.1, label: 'Initial Velocity', hint: 'Initial angular velocity in radians per second' },
+  });
+
+  const driveParams = useControls('Drive', {
+    driveAmplitude: { value: 10.55, min: 0, max: 20, step: 0.01, label: 'Torque (N·m)', hint: 'Amplitude A of the driving torque A cos(Ωt + φ)' },
+    driveFrequency: { value: 2.09, min: 0.1, max: 10, step: 0.01, label: 'Ω (rad/s)', hint: 'Angular frequency of the drive' },
+    drivePhase: { value: 0, min: -Math.PI, max: Math.PI, step: 0.01, label: 'φ (rad)', hint: 'Phase of the drive at t = 0' },
+  });
+
+  const allParams = useMemo(() => ({ ...simParams, ...driveParams }), [simParams, driveParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the pendulum bob' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase portrait (angle θ vs angular velocity ω)' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob mass' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pendulum rod' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+  const { phaseSpace } = useSimulationStore();
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+  }, [resetStore]);
+
+  // Bifurcation diagram (sweeps the drive torque)
+  const sweep = useBifurcationSweep();
+  const bifurcation = useControls('Bifurcation', {
+    sweepFrom: { value: 10.3, min: 0, max: 20, step: 0.01, label: 'From (N·m)', hint: 'Lowest drive torque in the sweep' },
+    sweepTo: { value: 10.9, min: 0, max: 20, step: 0.01, label: 'To (N·m)', hint: 'Highest drive torque in the sweep' },
+    columns: { value: 200, min: 20, max: 600, step: 10, label: 'Columns', hint: 'Number of drive torques sampled across the range' },
+    transient: { value: 150, min: 10, max: 1000, step: 10, label: 'Transient', hint: 'Drive periods discarded before sampling' },
+    samples: { value: 32, min: 4, max: 256, step: 4, label: 'Samples', hint: 'Stroboscopic samples recorded per column (one per drive period)' },
+  });
+  const [sweepRange, setSweepRange] = useState<[number, number]>([bifurcation.sweepFrom, bifurcation.sweepTo]);
+
+  useControls('Bifurcation', {
+    'Compute Diagram': button(() => {
+      setSweepRange([bifurcation.sweepFrom, bifurcation.sweepTo]);
+      sweep.start({
+        createSimulation: () => new DrivenPendulum(),
+        params: allParams,
+        parameter: 'driveAmplitude',
+        min: bifurcation.sweepFrom,
+        max: bifurcation.sweepTo,
+        steps: bifurcation.columns,
+        period: (2 * Math.PI) / driveParams.driveFrequency,
+        transientPeriods: bifurcation.transient,
+        samplePeriods: bifurcation.samples,
+        stepsPerPeriod: 100,
+      });
+    }),
+    'Stop': button(() => sweep.cancel()),
+  }, [allParams, bifurcation, sweep.start, sweep.cancel]);
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('driven-pendulum', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'driven-pendulum-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [allParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new DrivenPendulum instance on every render
+  const meta = useMemo(() => new DrivenPendulum().config.meta, []);
+
+  // Drive strength relative to gravity; period doubling sets in near γ ≈ 1.07
+  const driveStrength = driveParams.driveAmplitude / (simParams.mass * simParams.gravity * simParams.length);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: 0.5, z: 5 }}
+        cameraTarget={{ x: 0, y: 0, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={allParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={allParams} showParams={false} />
+
+      {/* Drive info */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Drive</div>
+        <div>T = 2π/Ω = {((2 * Math.PI) / driveParams.driveFrequency).toFixed(4)}s</div>
+        <div>γ = A/(mgL) = {driveStrength.toFixed(4)}</div>
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showPhaseSpace && phaseSpace.length > 0 && (
+        <PhaseSpaceView data={phaseSpace} labels={['θ']} />
+      )}
+
+      {/* Bifurcation diagram */}
+      {sweep.columns.length > 0 && (
+        <BifurcationDiagram
+          columns={sweep.columns}
+          range={sweepRange}
+          marker={driveParams.driveAmplitude}
+          progress={sweep.running ? sweep.progress : 1}
+          xLabel="drive torque (N·m)"
+        />
+      )}
+    </div>
+  );
+}
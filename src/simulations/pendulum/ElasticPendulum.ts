@@ -0,0 +1,232 @@
+/**
+ * ElasticPendulum
+ * Point mass on a spring instead of a rigid rod (the "spring pendulum")
+ * Near the 2:1 internal resonance energy sloshes back and forth between
+ * the bouncing and the swinging modes
+ *
+ * Model Assumptions:
+ * - Spring is massless, linear (Hooke's law), and only stretches along its axis
+ * - Spring never compresses through the pivot (rest length + extension > 0)
+ * - Motion is constrained to a 2D plane
+ * - Damping is linear in the radial and angular rates
+ * - Gravitational field is uniform (constant g)
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  PhasePoint,
+} from '../../core/types';
+
+export interface ElasticPendulumParams {
+  length: number;
+  mass: number;
+  stiffness: number;
+  gravity: number;
+  damping: number;
+  initialExtension: number;
+  initialAngle: number;
+  initialRadialVelocity: number;
+  initialVelocity: number;
+}
+
+export interface ElasticModeEnergies {
+  // Radial oscillation about the static stretch
+  bounce: number;
+  // Angular swing
+  swing: number;
+}
+
+export class ElasticPendulum extends BaseSimulation {
+  // Pre-allocated buffer for derivatives to avoid allocation every call
+  private _derivBuffer: number[] = [0, 0, 0, 0];
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'elastic-pendulum',
+      name: 'Elastic Pendulum',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      length: { value: 1.5, min: 0.1, max: 5, step: 0.1, label: 'Rest Length (m)' },
+      mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)' },
+      stiffness: { value: 19.62, min: 1, max: 500, step: 0.01, label: 'Stiffness k (N/m)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping' },
+      initialExtension: {
+        value: 0.8,
+        min: -1,
+        max: 3,
+        step: 0.01,
+        label: 'Initial Extension (m)',
+      },
+      initialAngle: {
+        value: 0.05,
+        min: -Math.PI,
+        max: Math.PI,
+        step: 0.01,
+        label: 'Initial Angle (rad)',
+      },
+      initialRadialVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial Radial Velocity (m/s)',
+      },
+      initialVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial Angular Velocity (rad/s)',
+      },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: true,
+      trailLength: 1000,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: true,
+    },
+    camera: {
+      position: { x: 0, y: -1, z: 8 },
+      target: { x: 0, y: -2, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): ElasticPendulumParams {
+    return this.params as unknown as ElasticPendulumParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    // State: [extension, theta, extensionRate, omega]
+    return [p.initialExtension, p.initialAngle, p.initialRadialVelocity, p.initialVelocity];
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const [x, theta, xDot, omega] = state;
+    const r = p.length + x;
+
+    // Euler-Lagrange equations of L = ½m(ẋ² + r²θ̇²) + mgr cosθ - ½kx²
+    const xDDot = r * omega * omega - (p.stiffness / p.mass) * x + p.gravity * Math.cos(theta) - p.damping * xDot;
+    const alpha = (-p.gravity * Math.sin(theta) - 2 * xDot * omega) / r - p.damping * omega;
+
+    // Reuse pre-allocated buffer
+    this._derivBuffer[0] = xDot;
+    this._derivBuffer[1] = omega;
+    this._derivBuffer[2] = xDDot;
+    this._derivBuffer[3] = alpha;
+    return this._derivBuffer;
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const p = this.p;
+    const [x, theta, xDot, omega] = state;
+    const r = p.length + x;
+
+    const sinT = Math.sin(theta);
+    const cosT = Math.cos(theta);
+
+    return {
+      time: this.time,
+      positions: [{ x: r * sinT, y: -r * cosT, z: 0 }],
+      velocities: [
+        {
+          x: xDot * sinT + r * omega * cosT,
+          y: -xDot * cosT + r * omega * sinT,
+          z: 0,
+        },
+      ],
+    };
+  }
+
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const [x, theta, xDot, omega] = this.state;
+    const r = p.length + x;
+    const xe = this.getStaticExtension();
+
+    const kinetic = 0.5 * p.mass * (xDot * xDot + r * r * omega * omega);
+    // Zero at the static equilibrium, hanging straight down with the spring stretched by mg/k
+    const potential =
+      0.5 * p.stiffness * (x * x - xe * xe) + p.mass * p.gravity * (p.length + xe - r * Math.cos(theta));
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  getAngleIndices(): number[] {
+    return [1];
+  }
+
+  getPhaseSpace(): PhasePoint[] {
+    const [x, theta, xDot, omega] = this.state;
+    return [
+      { angle: theta, angularVelocity: omega, time: this.time },
+      { angle: x, angularVelocity: xDot, time: this.time },
+    ];
+  }
+
+  /**
+   * Spring stretch at rest hanging straight down, mg/k (m)
+   */
+  getStaticExtension(): number {
+    const p = this.p;
+    return (p.mass * p.gravity) / p.stiffness;
+  }
+
+  /**
+   * Small-oscillation frequencies of the bouncing, √(k/m), and swinging,
+   * √(g / (L₀ + mg/k)), modes (rad/s)
+   */
+  getModeFrequencies(): { bounce: number; swing: number } {
+    const p = this.p;
+    return {
+      bounce: Math.sqrt(p.stiffness / p.mass),
+      swing: Math.sqrt(p.gravity / (p.length + this.getStaticExtension())),
+    };
+  }
+
+  /**
+   * Energy in each mode, split at the static equilibrium
+   * Only the sum (plus a small coupling term) is conserved
+   */
+  getModeEnergies(): ElasticModeEnergies {
+    const p = this.p;
+    const [x, theta, xDot, omega] = this.state;
+    const xe = this.getStaticExtension();
+    const re = p.length + xe;
+    const r = p.length + x;
+
+    return {
+      bounce: 0.5 * p.mass * xDot * xDot + 0.5 * p.stiffness * (x - xe) * (x - xe),
+      swing: 0.5 * p.mass * r * r * omega * omega + p.mass * p.gravity * re * (1 - Math.cos(theta)),
+    };
+  }
+
+  /**
+   * Stiffness that tunes the bouncing mode to twice the swinging frequency
+   * √(k/m) = 2√(g / (L₀ + mg/k)) gives k = 3mg / L₀
+   */
+  getResonantStiffness(): number {
+    const p = this.p;
+    return (3 * p.mass * p.gravity) / p.length;
+  }
+}
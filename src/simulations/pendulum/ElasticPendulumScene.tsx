@@ -0,0 +1,291 @@
+/**
+ * ElasticPendulumScene
+ * Complete scene for the elastic (spring) pendulum simulation
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  PhaseSpaceView,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { ElasticPendulum } from './ElasticPendulum';
+import type { ElasticModeEnergies } from './ElasticPendulum';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// How often the mode energies are pushed to the UI (ms)
+const MODE_UPDATE_INTERVAL = 100;
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onModeUpdate: (modes: ElasticModeEnergies) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onModeUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    ElasticPendulum,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Bounce/swing energy split, throttled
+  const lastModeUpdateRef = useRef<number>(0);
+  useEffect(() => {
+    const sim = simulation.current;
+    if (!(sim instanceof ElasticPendulum)) return;
+
+    const now = performance.now();
+    if (now - lastModeUpdateRef.current >= MODE_UPDATE_INTERVAL) {
+      lastModeUpdateRef.current = now;
+      onModeUpdate(sim.getModeEnergies());
+    }
+  }, [energy, simulation, onModeUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  return (
+    <PendulumRenderer
+      state={physicsState}
+      pivotPosition={{ x: 0, y: 0, z: 0 }}
+      massRadius={0.2}
+      rodRadius={0.04}
+      linkStyle="spring"
+    />
+  );
+}
+
+export function ElasticPendulumScene() {
+  // Simulation parameters
+  const [simParams, setSimParams] = useControls('Pendulum Parameters', () => ({
+    length: { value: 1.5, min: 0.1, max: 5, step: 0.1, label: 'Rest Length (m)', hint: 'Unstretched length of the spring in meters' },
+    mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)', hint: 'Mass of the pendulum bob in kilograms' },
+    stiffness: { value: 19.62, min: 1, max: 500, step: 0.01, label: 'Stiffness k (N/m)', hint: 'Spring constant; 3mg/L₀ tunes the 2:1 resonance' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (0 = ideal, no friction)' },
+    initialExtension: { value: 0.8, min: -1, max: 3, step: 0.01, label: 'Initial Extension', hint: 'Starting stretch of the spring beyond its rest length (m); mg/k is the hanging equilibrium' },
+    initialAngle: { value: 0.05, min: -Math.PI, max: Math.PI, step: 0.01, label: 'Initial Angle', hint: 'Starting angle in radians; a small angle seeds the swinging mode' },
+    initialRadialVelocity: { value: 0, min: -10, max: 10, step: 0.1, label: 'Initial Radial Vel.', hint: 'Initial stretching rate of the spring (m/s)' },
+    initialVelocity: { value: 0, min: -10, max: 10, step: 0.1, label: 'Initial Velocity', hint: 'Initial angular velocity in radians per second' },
+  }));
+
+  useControls('Resonance', {
+    'Tune 2:1': button(() => {
+      const sim = new ElasticPendulum();
+      sim.init(simParams);
+      setSimParams({ stiffness: Number(sim.getResonantStiffness().toFixed(2)) });
+    }),
+  }, [simParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the pendulum bob' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase portraits (θ vs ω and extension vs its rate)' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob mass' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the spring' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+  const { phaseSpace } = useSimulationStore();
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  // Energy in the bouncing and swinging modes
+  const [modes, setModes] = useState<ElasticModeEnergies | null>(null);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setModes(null);
+  }, [resetStore]);
+
+  // Small-oscillation frequencies: bouncing √(k/m), swinging √(g/(L₀ + mg/k))
+  const bounceFrequency = Math.sqrt(simParams.stiffness / simParams.mass);
+  const swingFrequency = Math.sqrt(
+    simParams.gravity / (simParams.length + (simParams.mass * simParams.gravity) / simParams.stiffness)
+  );
+  const modeTotal = modes ? modes.bounce + modes.swing : 0;
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('elastic-pendulum', simParams, integrationMethod, tolerances));
+      exportToCSV(data, 'elastic-pendulum-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [simParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new ElasticPendulum instance on every render
+  const meta = useMemo(() => new ElasticPendulum().config.meta, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: -1, z: 8 }}
+        cameraTarget={{ x: 0, y: -2, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={simParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onModeUpdate={setModes}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+
+      {/* Mode frequencies and energy split */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Modes (small oscillation)</div>
+        <div>ω bounce = √(k/m) = {bounceFrequency.toFixed(4)} rad/s</div>
+        <div>ω swing = √(g/(L₀+mg/k)) = {swingFrequency.toFixed(4)} rad/s</div>
+        <div>ratio = {(bounceFrequency / swingFrequency).toFixed(3)} (2:1 at k = 3mg/L₀)</div>
+        {modes && modeTotal > 0 && (
+          <div style={{ marginTop: 6 }}>
+            {([['bounce', modes.bounce, colors.primary], ['swing', modes.swing, colors.secondary]] as const).map(
+              ([label, value, color]) => (
+                <div key={label} style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 2 }}>
+                  <span style={{ width: 48 }}>{label}</span>
+                  <div style={{ width: 120, height: 8, background: colors.panelBorder, borderRadius: 2 }}>
+                    <div
+                      style={{
+                        width: `${Math.min((value / modeTotal) * 100, 100)}%`,
+                        height: '100%',
+                        background: color,
+                        borderRadius: 2,
+                      }}
+                    />
+                  </div>
+                  <span style={{ color: colors.textMuted }}>{((value / modeTotal) * 100).toFixed(0)}%</span>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showPhaseSpace && phaseSpace.length > 0 && (
+        <PhaseSpaceView data={phaseSpace} labels={['θ', 'x']} />
+      )}
+    </div>
+  );
+}
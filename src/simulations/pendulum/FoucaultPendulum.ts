@@ -0,0 +1,259 @@
+/**
+ * FoucaultPendulum
+ * Spherical pendulum observed from the rotating Earth
+ * The swing plane turns at Ω sin λ relative to the ground
+ *
+ * Model Assumptions:
+ * - Everything in SphericalPendulum, observed in the frame of the ground
+ * - Earth rotates uniformly; the rate can be sped up so the precession is
+ *   visible in seconds instead of hours
+ * - Coriolis (-2Ω×v) and centrifugal (-Ω×(Ω×r)) accelerations act on the bob,
+ *   with r measured from the pivot (the centrifugal part from the pivot's own
+ *   distance to the axis is absorbed into g)
+ * - Bob stays below the pivot (θ < 90°)
+ *
+ * Energy in the rotating frame is not conserved on its own; the conserved
+ * quantity is the Jacobi integral, so the potential includes the centrifugal
+ * term -½ m |Ω×r|².
+ *
+ * A Foucault swing passes almost exactly under the pivot, where the azimuth
+ * of the spherical chart is singular. The state is therefore the horizontal
+ * position and velocity of the bob, [x, z, ẋ, ż], with the height fixed by the
+ * rod. The initial conditions are still given in spherical coordinates.
+ *
+ * Local frame: x points east, y up, and north is -z, so the Earth's rotation
+ * vector is Ω (0, sin λ, -cos λ). The azimuth φ = atan2(z, x) turns east
+ * towards south as it increases, i.e. clockwise seen from above, which is the
+ * sense of the precession in the northern hemisphere.
+ */
+
+import { SphericalPendulum } from './SphericalPendulum';
+import type { SphericalPendulumParams } from './SphericalPendulum';
+import type { SimulationConfig, PhasePoint, Vector3, EnergyState } from '../../core/types';
+
+export interface FoucaultPendulumParams extends SphericalPendulumParams {
+  latitude: number;
+  earthRotationRate: number;
+  rotationSpeedup: number;
+}
+
+// Sidereal rotation rate of the Earth (rad/s)
+export const EARTH_ROTATION_RATE = 7.2921159e-5;
+
+export class FoucaultPendulum extends SphericalPendulum {
+  // Pre-allocated buffers to avoid allocation every call
+  private _cartesianDeriv: number[] = [0, 0, 0, 0];
+  private _r: Vector3 = { x: 0, y: 0, z: 0 };
+  private _v: Vector3 = { x: 0, y: 0, z: 0 };
+  private _a: Vector3 = { x: 0, y: 0, z: 0 };
+  private _omega: Vector3 = { x: 0, y: 0, z: 0 };
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'foucault-pendulum',
+      name: 'Foucault Pendulum',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      length: { value: 3, min: 0.5, max: 70, step: 0.5, label: 'Length (m)' },
+      mass: { value: 1, min: 0.1, max: 50, step: 0.1, label: 'Mass (kg)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping' },
+      latitude: { value: 48.85, min: -90, max: 90, step: 0.05, label: 'Latitude (°)' },
+      earthRotationRate: {
+        value: EARTH_ROTATION_RATE,
+        min: 0,
+        max: 1e-3,
+        step: 1e-7,
+        label: 'Earth Rotation (rad/s)',
+      },
+      rotationSpeedup: { value: 2000, min: 1, max: 10000, step: 1, label: 'Rotation Speed-up' },
+      initialPolar: {
+        value: 0.15,
+        min: 0.01,
+        max: 1.2,
+        step: 0.01,
+        label: 'Initial θ (rad)',
+      },
+      initialAzimuth: {
+        value: 0,
+        min: -Math.PI,
+        max: Math.PI,
+        step: 0.01,
+        label: 'Initial φ (rad)',
+      },
+      initialPolarVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial θ̇ (rad/s)',
+      },
+      initialAzimuthalVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.01,
+        label: 'Initial φ̇ (rad/s)',
+      },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: true,
+      trailLength: 1000,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: true,
+    },
+    camera: {
+      position: { x: 3, y: 2, z: 6 },
+      target: { x: 0, y: -2, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get f(): FoucaultPendulumParams {
+    return this.params as unknown as FoucaultPendulumParams;
+  }
+
+  /**
+   * Effective Earth rotation vector in the local frame (rad/s)
+   */
+  getRotationVector(out: Vector3 = { x: 0, y: 0, z: 0 }): Vector3 {
+    const f = this.f;
+    const omega = f.earthRotationRate * f.rotationSpeedup;
+    const lat = (f.latitude * Math.PI) / 180;
+    out.x = 0;
+    out.y = omega * Math.sin(lat);
+    out.z = -omega * Math.cos(lat);
+    return out;
+  }
+
+  /**
+   * Theoretical swing plane precession Ω sin λ with the speed-up applied (rad/s)
+   * Positive is clockwise seen from above, the same sense as increasing φ
+   */
+  getTheoreticalFoucaultRate(): number {
+    return this.getRotationVector().y;
+  }
+
+  /**
+   * Time for the swing plane to turn once, 2π / |Ω sin λ| (s)
+   */
+  getFoucaultPeriod(): number {
+    return (2 * Math.PI) / Math.abs(this.getTheoreticalFoucaultRate());
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    const r = this._r;
+    const v = this._v;
+    super.toCartesian(
+      [p.initialPolar, p.initialAzimuth, p.initialPolarVelocity, p.initialAzimuthalVelocity],
+      r,
+      v
+    );
+    // State: [x, z, xDot, zDot]
+    return [r.x, r.z, v.x, v.z];
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const r = this._r;
+    const v = this._v;
+    const a = this._a;
+    this.toCartesian(state, r, v);
+
+    // Gravity, damping, Coriolis and centrifugal accelerations
+    this.getFrameAcceleration(r, v, a);
+    a.x -= p.damping * v.x;
+    a.y -= p.gravity + p.damping * v.y;
+    a.z -= p.damping * v.z;
+
+    // Rod tension removes the radial part and supplies the centripetal
+    // acceleration: a_rod = -r (r·a + |v|²) / L²
+    const lambda = (r.x * a.x + r.y * a.y + r.z * a.z + v.x * v.x + v.y * v.y + v.z * v.z) / (p.length * p.length);
+
+    // Reuse pre-allocated buffer
+    this._cartesianDeriv[0] = state[2];
+    this._cartesianDeriv[1] = state[3];
+    this._cartesianDeriv[2] = a.x - lambda * r.x;
+    this._cartesianDeriv[3] = a.z - lambda * r.z;
+    return this._cartesianDeriv;
+  }
+
+  protected toCartesian(state: number[], position: Vector3, velocity: Vector3): void {
+    const L = this.p.length;
+    const [x, z, vx, vz] = state;
+    const depth = Math.sqrt(Math.max(L * L - x * x - z * z, 0));
+
+    position.x = x;
+    position.y = -depth;
+    position.z = z;
+    velocity.x = vx;
+    velocity.y = depth > 0 ? (x * vx + z * vz) / depth : 0;
+    velocity.z = vz;
+  }
+
+  /**
+   * Jacobi integral: kinetic energy in the ground frame plus gravitational and
+   * centrifugal potential, conserved when undamped
+   */
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const r = this._r;
+    const v = this._v;
+    this.toCartesian(this.state, r, v);
+
+    const w = this.getRotationVector(this._omega);
+    const wrx = w.y * r.z - w.z * r.y;
+    const wry = w.z * r.x - w.x * r.z;
+    const wrz = w.x * r.y - w.y * r.x;
+
+    const kinetic = 0.5 * p.mass * (v.x * v.x + v.y * v.y + v.z * v.z);
+    const potential =
+      p.mass * p.gravity * (p.length + r.y) - 0.5 * p.mass * (wrx * wrx + wry * wry + wrz * wrz);
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  /**
+   * Small-angle east-west and north-south displacements (x/L, z/L) and their rates
+   */
+  getPhaseSpace(): PhasePoint[] {
+    const L = this.p.length;
+    const [x, z, vx, vz] = this.state;
+    return [
+      { angle: x / L, angularVelocity: vx / L, time: this.time },
+      { angle: z / L, angularVelocity: vz / L, time: this.time },
+    ];
+  }
+
+  private getFrameAcceleration(position: Vector3, velocity: Vector3, out: Vector3): void {
+    const w = this.getRotationVector(this._omega);
+
+    // Ω × r and Ω × v
+    const wrx = w.y * position.z - w.z * position.y;
+    const wry = w.z * position.x - w.x * position.z;
+    const wrz = w.x * position.y - w.y * position.x;
+    const wvx = w.y * velocity.z - w.z * velocity.y;
+    const wvy = w.z * velocity.x - w.x * velocity.z;
+    const wvz = w.x * velocity.y - w.y * velocity.x;
+
+    // Coriolis -2Ω×v plus centrifugal -Ω×(Ω×r)
+    out.x = -2 * wvx - (w.y * wrz - w.z * wry);
+    out.y = -2 * wvy - (w.z * wrx - w.x * wrz);
+    out.z = -2 * wvz - (w.x * wry - w.y * wrx);
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * FoucaultPendulumScene
+ * Complete scene for the Foucault pendulum simulation
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Box, Ring, Text } from '@react-three/drei';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  GroundTrackView,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { FoucaultPendulum, EARTH_ROTATION_RATE } from './FoucaultPendulum';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod, Vector2 } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+import { useApsideTracker } from '../../analysis';
+import type { Apside, ApsideTrackerConfig } from '../../analysis';
+
+// Swing extremes are maxima of the horizontal distance from under the pivot.
+// The swing passes both ends once per period, so apsides are compared mod π.
+const APSIDE_CONFIG: ApsideTrackerConfig = {
+  radius: (state) => Math.hypot(state[0], state[1]),
+  radialVelocity: (state) => state[0] * state[2] + state[1] * state[3],
+  azimuth: (state) => Math.atan2(state[1], state[0]),
+  halfTurnSymmetric: true,
+};
+
+// Ground track history and how often it is pushed to the UI (ms)
+const MAX_TRACK_POINTS = 2000;
+const TRACK_UPDATE_INTERVAL = 100;
+
+// Gap between the lowest point of the swing and the compass
+const FLOOR_CLEARANCE = 0.25;
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  compassRadius: number;
+  swingAzimuth: number | null;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onTrackUpdate: (track: Vector2[]) => void;
+  onApsideUpdate: (apsides: Apside[], precessionRate: number) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  compassRadius,
+  swingAzimuth,
+  onEnergyUpdate,
+  onTrackUpdate,
+  onApsideUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    FoucaultPendulum,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: false, integrationMethod, tolerances }
+  );
+
+  useApsideTracker(simulation, {
+    enabled: true,
+    config: APSIDE_CONFIG,
+    onUpdate: onApsideUpdate,
+  });
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Ground track, throttled
+  const trackRef = useRef<Vector2[]>([]);
+  const lastTimeRef = useRef<number>(0);
+  const lastTrackUpdateRef = useRef<number>(0);
+
+  useEffect(() => {
+    if (!physicsState) return;
+
+    // Time went backwards: the simulation was reset or re-initialized
+    if (physicsState.time < lastTimeRef.current) trackRef.current = [];
+    lastTimeRef.current = physicsState.time;
+
+    const bob = physicsState.positions[0];
+    trackRef.current.push({ x: bob.x, y: bob.z });
+    if (trackRef.current.length > MAX_TRACK_POINTS) trackRef.current.shift();
+
+    const now = performance.now();
+    if (now - lastTrackUpdateRef.current >= TRACK_UPDATE_INTERVAL) {
+      lastTrackUpdateRef.current = now;
+      onTrackUpdate([...trackRef.current]);
+    }
+  }, [physicsState, onTrackUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      trackRef.current = [];
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  const length = params.length as number;
+
+  return (
+    <>
+      <PendulumRenderer
+        state={physicsState}
+        pivotPosition={{ x: 0, y: 0, z: 0 }}
+        massRadius={0.15}
+        rodRadius={0.02}
+      />
+      <FloorCompass
+        y={-length - FLOOR_CLEARANCE}
+        radius={compassRadius}
+        initialAzimuth={params.initialAzimuth as number}
+        swingAzimuth={swingAzimuth}
+      />
+    </>
+  );
+}
+
+interface FloorCompassProps {
+  y: number;
+  radius: number;
+  // Swing plane at release and as last measured (radians, scene azimuth)
+  initialAzimuth: number;
+  swingAzimuth: number | null;
+}
+
+// Compass points in scene coordinates (north is -z)
+const COMPASS_POINTS: { label: string; x: number; z: number }[] = [
+  { label: 'N', x: 0, z: -1 },
+  { label: 'E', x: 1, z: 0 },
+  { label: 'S', x: 0, z: 1 },
+  { label: 'W', x: -1, z: 0 },
+];
+
+/**
+ * Floor compass under the pendulum with the swing plane drawn across it
+ */
+function FloorCompass({ y, radius, initialAzimuth, swingAzimuth }: FloorCompassProps) {
+  const colors = useThemeStore((s) => s.colors);
+
+  // A bar along azimuth φ = atan2(z, x) is a rotation of -φ about the vertical
+  return (
+    <group position={[0, y, 0]}>
+      <Ring args={[radius * 0.98, radius, 64]} rotation={[-Math.PI / 2, 0, 0]}>
+        <meshBasicMaterial color={colors.axis} />
+      </Ring>
+
+      {/* Ticks every 15°, longer on the compass points */}
+      {Array.from({ length: 24 }, (_, i) => {
+        const angle = (i * Math.PI) / 12;
+        const size = i % 6 === 0 ? 0.12 : 0.05;
+        return (
+          <Box
+            key={i}
+            args={[size, 0.005, 0.01]}
+            position={[(radius - size / 2) * Math.cos(angle), 0, (radius - size / 2) * Math.sin(angle)]}
+            rotation={[0, -angle, 0]}
+          >
+            <meshBasicMaterial color={colors.axis} />
+          </Box>
+        );
+      })}
+
+      {COMPASS_POINTS.map(({ label, x, z }) => (
+        <Text
+          key={label}
+          position={[x * (radius + 0.2), 0, z * (radius + 0.2)]}
+          rotation={[-Math.PI / 2, 0, 0]}
+          fontSize={0.18}
+          color={label === 'N' ? colors.accent : colors.textMuted}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {label}
+        </Text>
+      ))}
+
+      {/* Swing plane at release */}
+      <Box args={[radius * 2, 0.004, 0.015]} rotation={[0, -initialAzimuth, 0]}>
+        <meshBasicMaterial color={colors.textMuted} transparent opacity={0.5} />
+      </Box>
+
+      {/* Current swing plane */}
+      {swingAzimuth !== null && (
+        <Box args={[radius * 2, 0.006, 0.03]} position={[0, 0.002, 0]} rotation={[0, -swingAzimuth, 0]}>
+          <meshBasicMaterial color={colors.trail} />
+        </Box>
+      )}
+    </group>
+  );
+}
+
+export function FoucaultPendulumScene() {
+  // Simulation parameters
+  const simParams = useControls('Pendulum Parameters', {
+    length: { value: 3, min: 0.5, max: 10, step: 0.5, label: 'Length (m)', hint: 'Length of the pendulum wire in meters (the Panthéon pendulum is 67 m)' },
+    mass: { value: 1, min: 0.1, max: 50, step: 0.1, label: 'Mass (kg)', hint: 'Mass of the pendulum bob in kilograms' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (0 = ideal, no friction)' },
+    initialPolar: { value: 0.15, min: 0.01, max: 1.2, step: 0.01, label: 'Amplitude', hint: 'Release angle from the vertical (radians); the bob is released from rest' },
+    initialAzimuth: { value: 0, min: -Math.PI, max: Math.PI, step: 0.01, label: 'Release Azimuth', hint: 'Direction of release, 0 = east, π/2 = south (radians)' },
+  });
+
+  const earthParams = useControls('Earth', {
+    latitude: { value: 48.85, min: -90, max: 90, step: 0.05, label: 'Latitude (°)', hint: 'Latitude of the pendulum (Paris: 48.85, equator: 0, poles: ±90)' },
+    earthRotationRate: { value: EARTH_ROTATION_RATE, min: 0, max: 1e-3, step: 1e-7, label: 'Ω (rad/s)', hint: 'Rotation rate of the Earth (sidereal day: 7.292e-5)' },
+    rotationSpeedup: { value: 2000, min: 1, max: 10000, step: 1, label: 'Speed-up', hint: 'Multiplies Ω so the precession is visible in seconds (large values also distort the swing)' },
+  });
+
+  const allParams = useMemo(() => ({ ...simParams, ...earthParams }), [simParams, earthParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the pendulum bob' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    groundTrack: { value: showPhaseSpace, onChange: setShowPhaseSpace, label: 'ground track', hint: 'Show the top-down path of the bob with the swing extremes' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob mass' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pendulum wire' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail and swing plane' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  // Ground track and swing plane precession
+  const [track, setTrack] = useState<Vector2[]>([]);
+  const [apsides, setApsides] = useState<Apside[]>([]);
+  const [precessionRate, setPrecessionRate] = useState(0);
+  const handleApsideUpdate = useCallback((next: Apside[], rate: number) => {
+    setApsides(next);
+    setPrecessionRate(rate);
+  }, []);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setTrack([]);
+  }, [resetStore]);
+
+  const apsideMarkers = useMemo(
+    () => apsides.map((a) => ({ x: a.radius * Math.cos(a.azimuth), y: a.radius * Math.sin(a.azimuth) })),
+    [apsides]
+  );
+  const swingAzimuth = apsides.length > 0 ? apsides[apsides.length - 1].azimuth : null;
+  const swingRadius = simParams.length * Math.sin(simParams.initialPolar);
+
+  // Theoretical precession Ω sin λ, also at the real rotation rate
+  const sinLatitude = Math.sin((earthParams.latitude * Math.PI) / 180);
+  const theoreticalRate = earthParams.earthRotationRate * earthParams.rotationSpeedup * sinLatitude;
+  const realPeriodHours = (2 * Math.PI) / Math.abs(earthParams.earthRotationRate * sinLatitude) / 3600;
+  const rateError = theoreticalRate !== 0 ? ((precessionRate - theoreticalRate) / theoreticalRate) * 100 : 0;
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('foucault-pendulum', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'foucault-pendulum-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [allParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new FoucaultPendulum instance on every render
+  const meta = useMemo(() => new FoucaultPendulum().config.meta, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 3, y: 1, z: 6 }}
+        cameraTarget={{ x: 0, y: -simParams.length, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={allParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          compassRadius={Math.max(swingRadius * 1.3, 0.5)}
+          swingAzimuth={swingAzimuth}
+          onEnergyUpdate={handleEnergyUpdate}
+          onTrackUpdate={setTrack}
+          onApsideUpdate={handleApsideUpdate}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={allParams} showParams={false} />
+
+      {/* Precession of the swing plane */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Swing Plane Precession</div>
+        <div>Ω sin λ = {theoreticalRate.toFixed(5)} rad/s</div>
+        <div>
+          measured: {apsides.length >= 2 ? `${precessionRate.toFixed(5)} rad/s` : '—'}
+          {apsides.length >= 2 && theoreticalRate !== 0 && (
+            <span style={{ color: colors.textMuted }}> ({rateError >= 0 ? '+' : ''}{rateError.toFixed(2)}%)</span>
+          )}
+        </div>
+        <div style={{ color: colors.textMuted, marginTop: 4 }}>
+          {theoreticalRate === 0
+            ? 'no precession (sin λ = 0 or Ω = 0)'
+            : `${theoreticalRate > 0 ? 'clockwise' : 'counter-clockwise'} from above; one turn in ${realPeriodHours.toFixed(1)} h real time`}
+        </div>
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showPhaseSpace && track.length > 0 && (
+        <GroundTrackView
+          points={track}
+          markers={apsideMarkers}
+          radius={Math.max(swingRadius, 0.01)}
+        />
+      )}
+    </div>
+  );
+}
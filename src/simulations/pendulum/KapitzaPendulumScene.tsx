@@ -0,0 +1,300 @@
+/**
+ * KapitzaPendulumScene
+ * Complete scene for the pendulum on a vertically shaken pivot
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Box } from '@react-three/drei';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  PhaseSpaceView,
+  SimulationInfo,
+  StabilityMapView,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { KapitzaPendulum, invertedKapitzaSystem } from './KapitzaPendulum';
+import { PendulumRenderer } from './PendulumRenderer';
+import { computeStabilityMap, floquetSpectralRadius, isFloquetStable } from '../../analysis';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod, Vector2 } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// Stability map resolution and the drive frequencies it covers (rad/s)
+const MAP_COLUMNS = 48;
+const MAP_ROWS = 32;
+const MAP_MAX_FREQUENCY = 200;
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const { physicsState, energy, reset } = useSimulation(
+    KapitzaPendulum,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  // Travel of the shaken pivot
+  const amplitude = params.pivotAmplitude as number;
+
+  return (
+    <group>
+      {amplitude > 0 && (
+        <Box args={[0.03, 2 * amplitude + 0.16, 0.03]} position={[0, 0, -0.1]}>
+          <meshStandardMaterial color={colors.grid} metalness={0.5} roughness={0.5} />
+        </Box>
+      )}
+      <PendulumRenderer state={physicsState} massRadius={0.15} rodRadius={0.03} />
+    </group>
+  );
+}
+
+export function KapitzaPendulumScene() {
+  // Simulation parameters
+  const simParams = useControls('Pendulum Parameters', {
+    length: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Length (m)', hint: 'Length of the pendulum rod in meters' },
+    mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)', hint: 'Mass of the pendulum bob in kilograms' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0.1, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (0 = ideal, no friction)' },
+    initialAngle: { value: Math.PI - 0.3, min: -Math.PI, max: Math.PI, step: 0.01, label: 'Initial Angle', hint: 'Starting angle in radians (π = inverted)' },
+    initialVelocity: { value: 0, min: -10, max: 10, step: 0.1, label: 'Initial Velocity', hint: 'Initial angular velocity in radians per second' },
+  });
+
+  const pivotParams = useControls('Pivot', {
+    pivotAmplitude: { value: 0.1, min: 0, max: 0.5, step: 0.005, label: 'Amplitude a (m)', hint: 'Vertical travel of the pivot, y = a cos(ωt)' },
+    pivotFrequency: { value: 60, min: 1, max: MAP_MAX_FREQUENCY, step: 0.5, label: 'Frequency ω (rad/s)', hint: 'Angular frequency of the pivot motion; a²ω² > 2gL stabilizes the inverted position' },
+  });
+
+  const allParams = useMemo(() => ({ ...simParams, ...pivotParams }), [simParams, pivotParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  const { stabilityMap: showStabilityMap } = useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the pendulum bob' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase space diagram (θ vs ω)' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    stabilityMap: { value: true, label: 'stability map', hint: 'Show where the inverted position is stable over drive frequency and amplitude' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob mass' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pendulum rod' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+  const { phaseSpace } = useSimulationStore();
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+  }, [resetStore]);
+
+  // Floquet analysis of the inverted position over the drive parameters
+  const { length, gravity, damping } = simParams;
+  const stability = useMemo(
+    () =>
+      computeStabilityMap(
+        { min: 1, max: MAP_MAX_FREQUENCY, steps: MAP_COLUMNS },
+        { min: 0, max: 0.5 * length, steps: MAP_ROWS },
+        (frequency, amplitude) => invertedKapitzaSystem({ length, gravity, damping }, amplitude, frequency),
+        100
+      ),
+    [length, gravity, damping]
+  );
+
+  // Kapitza's averaged-potential boundary, aω = √(2gL)
+  const kapitzaCurve = useMemo(() => {
+    const threshold = Math.sqrt(2 * gravity * length);
+    const curve: Vector2[] = [];
+    for (let i = 0; i <= 60; i++) {
+      const frequency = 1 + ((MAP_MAX_FREQUENCY - 1) * i) / 60;
+      curve.push({ x: frequency, y: threshold / frequency });
+    }
+    return [curve];
+  }, [gravity, length]);
+
+  const { pivotAmplitude, pivotFrequency } = pivotParams;
+  const spectralRadius = useMemo(
+    () =>
+      pivotAmplitude > 0
+        ? floquetSpectralRadius(invertedKapitzaSystem({ length, gravity, damping }, pivotAmplitude, pivotFrequency))
+        : Infinity,
+    [length, gravity, damping, pivotAmplitude, pivotFrequency]
+  );
+  const invertedStable = isFloquetStable(spectralRadius);
+  const kapitzaRatio = (pivotAmplitude * pivotAmplitude * pivotFrequency * pivotFrequency) / (2 * gravity * length);
+  const invertedFrequency = Math.sqrt(
+    (pivotAmplitude * pivotAmplitude * pivotFrequency * pivotFrequency) / (2 * length * length) - gravity / length
+  );
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('kapitza-pendulum', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'kapitza-pendulum-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [allParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new KapitzaPendulum instance on every render
+  const meta = useMemo(() => new KapitzaPendulum().config.meta, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: 0, z: 6 }}
+        cameraTarget={{ x: 0, y: 0, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={allParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={allParams} showParams={false} />
+
+      {/* Kapitza criterion and Floquet verdict */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Inverted position</div>
+        <div>a²ω²/2gL = {kapitzaRatio.toFixed(3)} (Kapitza: &gt; 1)</div>
+        <div>Floquet |μ|max = {Number.isFinite(spectralRadius) ? spectralRadius.toFixed(4) : '∞'}</div>
+        <div style={{ color: invertedStable ? colors.primary : colors.textMuted }}>
+          {invertedStable ? 'dynamically stabilized' : 'unstable'}
+        </div>
+        {invertedFrequency > 0 && (
+          <div>ω inverted ≈ {invertedFrequency.toFixed(3)} rad/s (T = {((2 * Math.PI) / invertedFrequency).toFixed(2)} s)</div>
+        )}
+        <div>drive period 2π/ω = {((2 * Math.PI) / pivotFrequency).toFixed(4)} s</div>
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showStabilityMap && (
+        <StabilityMapView
+          map={stability}
+          marker={{ x: pivotFrequency, y: pivotAmplitude }}
+          curves={kapitzaCurve}
+          title="Inverted Stability (Floquet)"
+          xLabel="ω (rad/s)"
+          yLabel="a (m)"
+        />
+      )}
+      {showPhaseSpace && phaseSpace.length > 0 && <PhaseSpaceView data={phaseSpace} />}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * MagneticPendulum
+ * Bob swinging over a ring of fixed magnets, pulled back to the centre by
+ * gravity and slowed by damping until one of the magnets captures it
+ * Which magnet wins depends chaotically on the release point, so the basins
+ * of attraction have fractal boundaries
+ *
+ * Model Assumptions:
+ * - Long pendulum: the bob moves in the horizontal plane a height h above the
+ *   magnets and gravity acts as a linear restoring spring -k r
+ * - Magnets are point attractors with inverse-square pull s / (d² + h²) along
+ *   the line from the bob, so only the in-plane component acts
+ * - Damping is linear in the velocity
+ * - Everything is per unit mass
+ *
+ * Coordinates: the state holds the bob's planar position (x, y). The scene is
+ * y-up, so the bob sits at (x, h, y) above magnets at (xᵢ, 0, yᵢ).
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  Vector3,
+} from '../../core/types';
+
+export interface MagneticPendulumParams {
+  magnetCount: number;
+  magnetRadius: number;
+  magnetStrength: number;
+  height: number;
+  stiffness: number;
+  damping: number;
+  initialX: number;
+  initialY: number;
+  initialVx: number;
+  initialVy: number;
+}
+
+// A bob this close to a magnet (as a fraction of the magnet spacing) and
+// slower than CAPTURE_SPEED can no longer climb out of its well
+const CAPTURE_RADIUS_FRACTION = 0.25;
+const CAPTURE_SPEED = 0.05;
+
+export class MagneticPendulum extends BaseSimulation {
+  // Pre-allocated buffer for derivatives to avoid allocation every call
+  private _derivBuffer: number[] = [0, 0, 0, 0];
+  // Magnet positions in the plane, rebuilt on init
+  private magnets: { x: number; y: number }[] = [];
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'magnetic-pendulum',
+      name: 'Magnetic Pendulum',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      magnetCount: { value: 3, min: 2, max: 6, step: 1, label: 'Magnets' },
+      magnetRadius: { value: 1, min: 0.3, max: 3, step: 0.05, label: 'Magnet Ring Radius (m)' },
+      magnetStrength: { value: 1, min: 0.1, max: 5, step: 0.05, label: 'Magnet Strength' },
+      height: { value: 0.25, min: 0.05, max: 1, step: 0.01, label: 'Bob Height (m)' },
+      stiffness: { value: 0.5, min: 0, max: 3, step: 0.01, label: 'Restoring Stiffness (1/s²)' },
+      damping: { value: 0.2, min: 0.01, max: 1, step: 0.01, label: 'Damping (1/s)' },
+      initialX: { value: 1.6, min: -3, max: 3, step: 0.01, label: 'Initial x (m)' },
+      initialY: { value: 0.7, min: -3, max: 3, step: 0.01, label: 'Initial y (m)' },
+      initialVx: { value: 0, min: -5, max: 5, step: 0.1, label: 'Initial vx (m/s)' },
+      initialVy: { value: 0, min: -5, max: 5, step: 0.1, label: 'Initial vy (m/s)' },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0.2,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: true,
+      trailLength: 1000,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: false,
+    },
+    camera: {
+      position: { x: 0, y: 4, z: 4 },
+      target: { x: 0, y: 0, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): MagneticPendulumParams {
+    return this.params as unknown as MagneticPendulumParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    const count = Math.round(p.magnetCount);
+    this.magnets = [];
+    for (let i = 0; i < count; i++) {
+      const angle = (2 * Math.PI * i) / count;
+      this.magnets.push({ x: p.magnetRadius * Math.cos(angle), y: p.magnetRadius * Math.sin(angle) });
+    }
+
+    // State: [x, y, vx, vy]
+    return [p.initialX, p.initialY, p.initialVx, p.initialVy];
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const [x, y, vx, vy] = state;
+    const h2 = p.height * p.height;
+
+    let ax = -p.stiffness * x - p.damping * vx;
+    let ay = -p.stiffness * y - p.damping * vy;
+    for (const magnet of this.magnets) {
+      const dx = magnet.x - x;
+      const dy = magnet.y - y;
+      const r2 = dx * dx + dy * dy + h2;
+      const pull = p.magnetStrength / (r2 * Math.sqrt(r2));
+      ax += pull * dx;
+      ay += pull * dy;
+    }
+
+    // Reuse pre-allocated buffer
+    this._derivBuffer[0] = vx;
+    this._derivBuffer[1] = vy;
+    this._derivBuffer[2] = ax;
+    this._derivBuffer[3] = ay;
+    return this._derivBuffer;
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const [x, y, vx, vy] = state;
+    return {
+      time: this.time,
+      positions: [{ x, y: this.p.height, z: y }],
+      velocities: [{ x: vx, y: 0, z: vy }],
+    };
+  }
+
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const [x, y, vx, vy] = this.state;
+
+    const kinetic = 0.5 * (vx * vx + vy * vy);
+    // Each magnet's well is measured from its bottom so the potential stays non-negative
+    let potential = 0.5 * p.stiffness * (x * x + y * y);
+    for (const magnet of this.magnets) {
+      const dx = magnet.x - x;
+      const dy = magnet.y - y;
+      potential += p.magnetStrength * (1 / p.height - 1 / Math.sqrt(dx * dx + dy * dy + p.height * p.height));
+    }
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  /**
+   * Magnet positions in scene coordinates
+   */
+  getMagnets(): Vector3[] {
+    return this.magnets.map((m) => ({ x: m.x, y: 0, z: m.y }));
+  }
+
+  /**
+   * Index of the magnet that has captured the bob, or -1 while it is still free
+   */
+  getCapturingMagnet(state: number[] = this.state): number {
+    const [x, y, vx, vy] = state;
+    if (vx * vx + vy * vy > CAPTURE_SPEED * CAPTURE_SPEED) return -1;
+
+    const count = this.magnets.length;
+    const spacing = 2 * this.p.magnetRadius * Math.sin(Math.PI / count);
+    const captureRadius = CAPTURE_RADIUS_FRACTION * spacing;
+
+    for (let i = 0; i < count; i++) {
+      const dx = this.magnets[i].x - x;
+      const dy = this.magnets[i].y - y;
+      if (dx * dx + dy * dy < captureRadius * captureRadius) return i;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,476 @@
+/**
+ * MagneticPendulumScene
+ * Complete scene for the magnetic pendulum with its basin-of-attraction map
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Cylinder } from '@react-three/drei';
+import type { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { MagneticPendulum } from './MagneticPendulum';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod, SimulationColors, Vector3 } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+import { useBasinMap } from '../../analysis';
+import type { BasinMap } from '../../analysis';
+
+// Height of the drawn pivot above the magnets; the model treats the
+// pendulum as long enough that the bob stays in its plane
+const PIVOT_HEIGHT = 3;
+
+// How often the capturing magnet is pushed to the UI (ms)
+const CAPTURE_UPDATE_INTERVAL = 100;
+
+// Fraction of the basin color kept by the slowest captures when shading by time
+const MIN_SHADE = 0.35;
+
+/**
+ * One color per magnet, taken from the theme
+ */
+function magnetPalette(colors: SimulationColors): string[] {
+  return [
+    colors.primary,
+    colors.secondary,
+    colors.accent,
+    colors.tertiary,
+    colors.kineticEnergy,
+    colors.potentialEnergy,
+  ];
+}
+
+interface BasinPlaneProps {
+  map: BasinMap;
+  version: number;
+  palette: string[];
+  background: string;
+  shadeByTime: boolean;
+  maxTime: number;
+  onSelect: (x: number, y: number) => void;
+}
+
+/**
+ * Basin map painted onto the plane of the magnets
+ * Each pixel is colored by the magnet that captures a bob released there from
+ * rest; pixels not yet computed stay transparent
+ */
+function BasinPlane({ map, version, palette, background, shadeByTime, maxTime, onSelect }: BasinPlaneProps) {
+  const { x, y } = map;
+
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const textureRef = useRef<THREE.DataTexture | null>(null);
+
+  // Repaint after every slice of the sweep; the texture is rebuilt only when
+  // the resolution changes
+  useEffect(() => {
+    let texture = textureRef.current;
+    if (!texture || texture.image.width !== x.steps || texture.image.height !== y.steps) {
+      texture?.dispose();
+      texture = new THREE.DataTexture(new Uint8Array(x.steps * y.steps * 4), x.steps, y.steps, THREE.RGBAFormat);
+      texture.colorSpace = THREE.SRGBColorSpace;
+      texture.magFilter = THREE.NearestFilter;
+      textureRef.current = texture;
+      if (materialRef.current) {
+        materialRef.current.map = texture;
+        materialRef.current.needsUpdate = true;
+      }
+    }
+
+    const rgb = [...palette, background].map((c) => {
+      const hex = new THREE.Color(c).getHex();
+      return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255];
+    });
+    const data = texture.image.data as Uint8Array;
+
+    for (let row = 0; row < y.steps; row++) {
+      // Texture rows run against the scene's z axis once the plane is laid flat
+      const textureRow = y.steps - 1 - row;
+      for (let column = 0; column < x.steps; column++) {
+        const i = row * x.steps + column;
+        const o = (textureRow * x.steps + column) * 4;
+        const attractor = map.attractors[i];
+        if (attractor === -2) {
+          data[o + 3] = 0;
+          continue;
+        }
+
+        const color = attractor >= 0 ? rgb[attractor % palette.length] : rgb[palette.length];
+        const shade = shadeByTime && attractor >= 0 ? 1 - (1 - MIN_SHADE) * Math.min(map.times[i] / maxTime, 1) : 1;
+        data[o] = color[0] * shade;
+        data[o + 1] = color[1] * shade;
+        data[o + 2] = color[2] * shade;
+        data[o + 3] = 255;
+      }
+    }
+    texture.needsUpdate = true;
+  }, [map, version, palette, background, shadeByTime, maxTime, x.steps, y.steps]);
+
+  // Dispose the texture on unmount
+  useEffect(
+    () => () => {
+      textureRef.current?.dispose();
+      textureRef.current = null;
+    },
+    []
+  );
+
+  const width = x.max - x.min;
+  const depth = y.max - y.min;
+
+  return (
+    <mesh
+      position={[(x.min + x.max) / 2, -0.01, (y.min + y.max) / 2]}
+      rotation={[-Math.PI / 2, 0, 0]}
+      onClick={(e: ThreeEvent<MouseEvent>) => {
+        e.stopPropagation();
+        onSelect(e.point.x, e.point.z);
+      }}
+    >
+      <planeGeometry args={[width, depth]} />
+      <meshBasicMaterial ref={materialRef} transparent toneMapped={false} side={THREE.DoubleSide} />
+    </mesh>
+  );
+}
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  magnets: Vector3[];
+  palette: string[];
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onCaptureUpdate: (magnet: number) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  magnets,
+  palette,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onCaptureUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    MagneticPendulum,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: false, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Which magnet holds the bob, throttled
+  const lastCaptureUpdateRef = useRef<number>(0);
+  useEffect(() => {
+    const sim = simulation.current;
+    if (!(sim instanceof MagneticPendulum)) return;
+
+    const now = performance.now();
+    if (now - lastCaptureUpdateRef.current >= CAPTURE_UPDATE_INTERVAL) {
+      lastCaptureUpdateRef.current = now;
+      onCaptureUpdate(sim.getCapturingMagnet());
+    }
+  }, [energy, simulation, onCaptureUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  return (
+    <group>
+      {/* Magnets */}
+      {magnets.map((m, i) => (
+        <Cylinder key={i} args={[0.08, 0.08, 0.06, 24]} position={[m.x, 0.03, m.z]}>
+          <meshStandardMaterial color={palette[i % palette.length]} metalness={0.6} roughness={0.3} />
+        </Cylinder>
+      ))}
+
+      <PendulumRenderer
+        state={physicsState}
+        pivotPosition={{ x: 0, y: PIVOT_HEIGHT, z: 0 }}
+        massRadius={0.08}
+        rodRadius={0.01}
+      />
+    </group>
+  );
+}
+
+export function MagneticPendulumScene() {
+  // Simulation parameters
+  const magnetParams = useControls('Magnets', {
+    magnetCount: { value: 3, min: 2, max: 6, step: 1, label: 'Magnets', hint: 'Number of magnets, spaced evenly on a ring' },
+    magnetRadius: { value: 1, min: 0.3, max: 3, step: 0.05, label: 'Ring Radius (m)', hint: 'Distance of each magnet from the rest point of the pendulum' },
+    magnetStrength: { value: 1, min: 0.1, max: 5, step: 0.05, label: 'Strength', hint: 'Pull of each magnet (per unit mass, inverse-square)' },
+    height: { value: 0.25, min: 0.05, max: 1, step: 0.01, label: 'Height (m)', hint: 'Gap between the bob and the magnet plane; smaller gaps give sharper wells' },
+    stiffness: { value: 0.5, min: 0, max: 3, step: 0.01, label: 'Stiffness (1/s²)', hint: 'Restoring pull of gravity toward the centre, g/L for a long pendulum' },
+    damping: { value: 0.2, min: 0.01, max: 1, step: 0.01, label: 'Damping (1/s)', hint: 'Air drag; weaker damping means longer flights and finer basin boundaries' },
+  });
+
+  const [release, setRelease] = useControls('Release', () => ({
+    initialX: { value: 1.6, min: -3, max: 3, step: 0.01, label: 'Initial x (m)', hint: 'Release point along x; click the basin map to pick one' },
+    initialY: { value: 0.7, min: -3, max: 3, step: 0.01, label: 'Initial y (m)', hint: 'Release point along y; click the basin map to pick one' },
+    initialVx: { value: 0, min: -5, max: 5, step: 0.1, label: 'Initial vx (m/s)', hint: 'Launch velocity along x' },
+    initialVy: { value: 0, min: -5, max: 5, step: 0.1, label: 'Initial vy (m/s)', hint: 'Launch velocity along y' },
+  }));
+
+  const allParams = useMemo(() => ({ ...magnetParams, ...release }), [magnetParams, release]);
+
+  // Magnet layout only depends on the parameters
+  const magnets = useMemo(() => {
+    const sim = new MagneticPendulum();
+    sim.init(magnetParams);
+    return sim.getMagnets();
+  }, [magnetParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the bob' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Basin-of-attraction map (releases from rest over a square around the centre)
+  const basins = useBasinMap();
+  const basinSettings = useControls('Basin Map', {
+    showMap: { value: true, label: 'Show Map', hint: 'Draw the basin map under the pendulum' },
+    resolution: { value: 128, options: [64, 128, 256], label: 'Resolution', hint: 'Pixels per side; the map refines progressively, coarse to fine' },
+    extent: { value: 2, min: 0.5, max: 4, step: 0.1, label: 'Half Width (m)', hint: 'The map covers release points with |x|, |y| up to this' },
+    maxTime: { value: 60, min: 10, max: 200, step: 5, label: 'Max Time (s)', hint: 'Releases not captured by then are drawn in the background color' },
+    shadeByTime: { value: true, label: 'Shade by Time', hint: 'Darken points that take longer to be captured' },
+  });
+  // Parameters the current map was computed for, to flag it once they change
+  const [mapParams, setMapParams] = useState<typeof magnetParams | null>(null);
+
+  useControls('Basin Map', {
+    'Compute Map': button(() => {
+      const { resolution, extent, maxTime } = basinSettings;
+      setMapParams(magnetParams);
+      basins.start({
+        createSimulation: () => new MagneticPendulum(),
+        params: magnetParams,
+        x: { min: -extent, max: extent, steps: resolution },
+        y: { min: -extent, max: extent, steps: resolution },
+        initialConditions: (x, y) => ({ initialX: x, initialY: y, initialVx: 0, initialVy: 0 }),
+        classify: (sim) => sim.getCapturingMagnet(),
+        timestep: 0.01,
+        maxTime,
+      });
+    }),
+    'Stop': button(() => basins.cancel()),
+    'Resume': button(() => basins.resume()),
+  }, [magnetParams, basinSettings, basins.start, basins.cancel, basins.resume]);
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pendulum rod' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail' },
+  });
+
+  const palette = useMemo(() => magnetPalette(colors), [colors]);
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  const [capturedBy, setCapturedBy] = useState(-1);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setCapturedBy(-1);
+  }, [resetStore]);
+
+  // Clicking the map releases the bob from rest at that point
+  const handleSelect = useCallback(
+    (x: number, y: number) => {
+      setRelease({ initialX: Number(x.toFixed(3)), initialY: Number(y.toFixed(3)), initialVx: 0, initialVy: 0 });
+    },
+    [setRelease]
+  );
+
+  // Share of the painted pixels captured by each magnet, uncaptured last
+  const { map, version } = basins;
+  const painted = map ? map.counts.reduce((sum, c) => sum + (c ?? 0), 0) : 0;
+  const basinShares =
+    map && painted > 0
+      ? Array.from({ length: magnets.length + 1 }, (_, i) => (map.counts[(i + 1) % (magnets.length + 1)] ?? 0) / painted)
+      : [];
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('magnetic-pendulum', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'magnetic-pendulum-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [allParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new MagneticPendulum instance on every render
+  const meta = useMemo(() => new MagneticPendulum().config.meta, []);
+
+  const mapStale = mapParams !== null && mapParams !== magnetParams;
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: 4, z: 4 }}
+        cameraTarget={{ x: 0, y: 0, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        {basinSettings.showMap && map && (
+          <BasinPlane
+            map={map}
+            version={version}
+            palette={palette}
+            background={colors.background}
+            shadeByTime={basinSettings.shadeByTime}
+            maxTime={basinSettings.maxTime}
+            onSelect={handleSelect}
+          />
+        )}
+        <SimulationRunner
+          params={allParams}
+          magnets={magnets}
+          palette={palette}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onCaptureUpdate={setCapturedBy}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={magnetParams} showParams={false} />
+
+      {/* Capture and basin info */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Capture</div>
+        <div>
+          {capturedBy >= 0 ? (
+            <>
+              captured by magnet{' '}
+              <span style={{ color: palette[capturedBy % palette.length] }}>{capturedBy + 1}</span>
+            </>
+          ) : (
+            'free'
+          )}
+        </div>
+        <div style={{ color: colors.textMuted, margin: '6px 0 4px' }}>Basin Map</div>
+        {map ? (
+          <>
+            <div>
+              {map.x.steps}×{map.y.steps}, {(basins.progress * 100).toFixed(0)}%
+              {basins.running ? ' computing…' : ''}
+            </div>
+            {basinShares.map((share, i) => (
+              <div key={i} style={{ color: i < magnets.length ? palette[i % palette.length] : colors.textMuted }}>
+                {i < magnets.length ? `magnet ${i + 1}` : 'uncaptured'}: {(share * 100).toFixed(1)}%
+              </div>
+            ))}
+            {mapStale && <div style={{ color: colors.textMuted }}>parameters changed, recompute</div>}
+          </>
+        ) : (
+          <div style={{ color: colors.textMuted }}>not computed</div>
+        )}
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+    </div>
+  );
+}
@@ -1,19 +1,20 @@
 /**
  * NPendulum
  * Chain of N pendulums - generalized multi-pendulum system
+ * Uses the full Lagrangian equations of motion, solving the mass-matrix system each step
  *
  * Model Assumptions:
  * - Rods are rigid, massless, and inextensible
  * - All mass is concentrated at point masses (bobs)
- * - All segments have equal length and mass
+ * - Each segment may have its own length and mass
  * - Motion is constrained to a 2D plane
  * - Pivot point is fixed and frictionless
  * - No air resistance (optional damping simulates energy loss)
  * - Gravitational field is uniform (constant g)
- * - Uses simplified coupling (not full Lagrangian for N bodies)
  */
 
 import { BaseSimulation } from '../templates/BaseSimulation';
+import { solveLinearSystem } from '../../utils/physics';
 import type {
   SimulationConfig,
   PhysicsState,
@@ -34,9 +35,15 @@ export interface NPendulumParams {
 export class NPendulum extends BaseSimulation {
   private n: number = 3;
 
-  // Pre-allocated buffers to avoid allocation every call (max n=10, state size=20)
-  private _derivBuffer: number[] = new Array(20).fill(0);
-  private _alphasBuffer: number[] = new Array(10).fill(0);
+  // Per-segment lengths and masses resolved from params on init
+  private lengths: number[] = [];
+  private masses: number[] = [];
+
+  // Pre-allocated buffers to avoid allocation every call, sized for n on init
+  private _derivBuffer: number[] = [];
+  private _alphasBuffer: number[] = [];
+  private _massMatrix: number[] = [];
+  private _tailMass: number[] = [];
 
   config: SimulationConfig = {
     meta: {
@@ -47,7 +54,7 @@ export class NPendulum extends BaseSimulation {
       tags: [],
     },
     defaultParams: {
-      n: { value: 3, min: 2, max: 10, step: 1, label: 'Number of Pendulums' },
+      n: { value: 3, min: 2, max: 100, step: 1, label: 'Number of Pendulums' },
       segmentLength: { value: 0.8, min: 0.1, max: 2, step: 0.1, label: 'Segment Length (m)' },
       segmentMass: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Segment Mass (kg)' },
       gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
@@ -81,20 +88,44 @@ export class NPendulum extends BaseSimulation {
   };
 
   protected createInitialState(): number[] {
-    const p = this.params as Record<string, number>;
-    this.n = p.n;
+    const p = this.params as Record<string, unknown>;
+    const n = p.n as number;
+    this.n = n;
+
+    // Per-segment arrays take precedence over the uniform segment values
+    const lengths = p.lengths as number[] | undefined;
+    const masses = p.masses as number[] | undefined;
+    this.lengths = [];
+    this.masses = [];
+    for (let i = 0; i < n; i++) {
+      this.lengths.push(lengths?.[i] ?? (p.segmentLength as number));
+      this.masses.push(masses?.[i] ?? (p.segmentMass as number));
+    }
+
+    // tailMass[i] = m_i + m_(i+1) + ... + m_(n-1): mass carried below joint i
+    this._tailMass = new Array(n).fill(0);
+    let sum = 0;
+    for (let i = n - 1; i >= 0; i--) {
+      sum += this.masses[i];
+      this._tailMass[i] = sum;
+    }
+    this._massMatrix = new Array(n * n).fill(0);
+    this._derivBuffer = new Array(2 * n).fill(0);
+    this._alphasBuffer = new Array(n).fill(0);
 
     // State: [theta1, theta2, ..., thetaN, omega1, omega2, ..., omegaN]
     const state: number[] = [];
+    const initialAngles = p.initialAngles as number[] | undefined;
+    const initialVelocities = p.initialVelocities as number[] | undefined;
 
-    // Initial angles - spread from vertical
-    for (let i = 0; i < this.n; i++) {
-      state.push(p.initialSpread * (1 - i / this.n));
+    // Initial angles - spread from vertical unless given explicitly
+    for (let i = 0; i < n; i++) {
+      state.push(initialAngles?.[i] ?? (p.initialSpread as number) * (1 - i / n));
     }
 
-    // Initial velocities - all zero
-    for (let i = 0; i < this.n; i++) {
-      state.push(0);
+    // Initial velocities - zero unless given explicitly
+    for (let i = 0; i < n; i++) {
+      state.push(initialVelocities?.[i] ?? 0);
     }
 
     return state;
@@ -104,56 +135,48 @@ export class NPendulum extends BaseSimulation {
     const p = this.params as Record<string, number>;
     const n = this.n;
     const g = p.gravity;
-    const L = p.segmentLength;
     const damping = p.damping;
+    const L = this.lengths;
+    const M = this._massMatrix;
+    const rhs = this._alphasBuffer;
+    const tail = this._tailMass;
 
-    // Read thetas and omegas directly from state (avoid slice allocation)
     // state layout: [theta0, theta1, ..., theta(n-1), omega0, omega1, ..., omega(n-1)]
-
-    // For simplicity, use a numerical approximation of the mass matrix approach
-    // This is a simplified model that approximates the coupled equations
-
+    //
+    // Euler-Lagrange equations for a chain of point masses (row i divided by L_i):
+    //   Σ_j μ_ij L_j cos(θi - θj) α_j = -Σ_j μ_ij L_j sin(θi - θj) ω_j² - g μ_ii sin(θi)
+    // where μ_ij is the total mass at or below segment max(i, j)
     for (let i = 0; i < n; i++) {
       const theta_i = state[i];
-      const omega_i = state[n + i];
-      let alpha = 0;
-
-      // Gravity term
-      alpha -= (g / L) * Math.sin(theta_i) * (n - i);
-
-      // Coupling with previous pendulum
-      if (i > 0) {
-        const delta = theta_i - state[i - 1];
-        const omega_prev = state[n + i - 1];
-        alpha += (omega_prev * omega_prev * Math.sin(delta)) / 2;
+      let b = -g * tail[i] * Math.sin(theta_i);
+
+      for (let j = 0; j < n; j++) {
+        const mu = tail[i > j ? i : j];
+        const delta = theta_i - state[j];
+        const omega_j = state[n + j];
+        M[i * n + j] = mu * L[j] * Math.cos(delta);
+        b -= mu * L[j] * Math.sin(delta) * omega_j * omega_j;
       }
 
-      // Coupling with next pendulum
-      if (i < n - 1) {
-        const delta = state[i + 1] - theta_i;
-        const omega_next = state[n + i + 1];
-        alpha -= (omega_next * omega_next * Math.sin(delta)) / 2;
-      }
-
-      // Damping
-      alpha -= damping * omega_i;
-
-      this._alphasBuffer[i] = alpha;
+      rhs[i] = b;
     }
 
+    // Solve M·α = rhs (rhs is overwritten with α)
+    solveLinearSystem(M, rhs, n);
+
     // Build result: [omegas..., alphas...]
     for (let i = 0; i < n; i++) {
-      this._derivBuffer[i] = state[n + i];     // omega_i
-      this._derivBuffer[n + i] = this._alphasBuffer[i]; // alpha_i
+      const omega_i = state[n + i];
+      this._derivBuffer[i] = omega_i;
+      this._derivBuffer[n + i] = rhs[i] - damping * omega_i;
     }
 
     return this._derivBuffer;
   }
 
   protected stateToPhysics(state: number[]): PhysicsState {
-    const p = this.params as Record<string, number>;
     const n = this.n;
-    const L = p.segmentLength;
+    const L = this.lengths;
 
     const thetas = state.slice(0, n);
     const omegas = state.slice(n);
@@ -167,11 +190,11 @@ export class NPendulum extends BaseSimulation {
       vy = 0;
 
     for (let i = 0; i < n; i++) {
-      x += L * Math.sin(thetas[i]);
-      y -= L * Math.cos(thetas[i]);
+      x += L[i] * Math.sin(thetas[i]);
+      y -= L[i] * Math.cos(thetas[i]);
 
-      vx += L * omegas[i] * Math.cos(thetas[i]);
-      vy += L * omegas[i] * Math.sin(thetas[i]);
+      vx += L[i] * omegas[i] * Math.cos(thetas[i]);
+      vy += L[i] * omegas[i] * Math.sin(thetas[i]);
 
       positions.push({ x, y, z: 0 });
       velocities.push({ x: vx, y: vy, z: 0 });
@@ -187,8 +210,8 @@ export class NPendulum extends BaseSimulation {
   getEnergy(): EnergyState {
     const p = this.params as Record<string, number>;
     const n = this.n;
-    const L = p.segmentLength;
-    const m = p.segmentMass;
+    const L = this.lengths;
+    const m = this.masses;
     const g = p.gravity;
 
     const thetas = this.state.slice(0, n);
@@ -198,17 +221,19 @@ export class NPendulum extends BaseSimulation {
     let potential = 0;
 
     let y = 0;
+    let depth = 0;
     let vx = 0,
       vy = 0;
 
     for (let i = 0; i < n; i++) {
-      y -= L * Math.cos(thetas[i]);
+      y -= L[i] * Math.cos(thetas[i]);
+      depth += L[i];
 
-      vx += L * omegas[i] * Math.cos(thetas[i]);
-      vy += L * omegas[i] * Math.sin(thetas[i]);
+      vx += L[i] * omegas[i] * Math.cos(thetas[i]);
+      vy += L[i] * omegas[i] * Math.sin(thetas[i]);
 
-      kinetic += 0.5 * m * (vx * vx + vy * vy);
-      potential += m * g * (y + (i + 1) * L); // Reference: all hanging straight down
+      kinetic += 0.5 * m[i] * (vx * vx + vy * vy);
+      potential += m[i] * g * (y + depth); // Reference: all hanging straight down
     }
 
     return {
@@ -218,6 +243,10 @@ export class NPendulum extends BaseSimulation {
     };
   }
 
+  getAngleIndices(): number[] {
+    return Array.from({ length: this.n }, (_, i) => i);
+  }
+
   getPhaseSpace(): PhasePoint[] {
     const n = this.n;
     const thetas = this.state.slice(0, n);
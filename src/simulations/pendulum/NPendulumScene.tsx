@@ -8,29 +8,105 @@ import { useControls, button } from 'leva';
 import {
   SimulationCanvas,
   EnergyGraph,
+  LyapunovGraph,
+  PoincareSectionView,
+  SeparationGraph,
   SimulationInfo,
 } from '../../core/components';
 import { useSimulationStore, useThemeStore } from '../../core/stores';
-import { useSimulation } from '../templates';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
 import { NPendulum } from './NPendulum';
 import { PendulumRenderer } from './PendulumRenderer';
 import { exportToCSV } from '../../utils';
 import { themes } from '../../core/types';
-import type { EnergyState } from '../../core/types';
+import type { EnergyState, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+import { useEnsemble, useLyapunovEstimator, usePoincareSection } from '../../analysis';
+import type {
+  LyapunovSample,
+  PoincarePoint,
+  PoincareSectionConfig,
+  CrossingDirection,
+  SeparationSample,
+} from '../../analysis';
+
+// Placeholder surface while the section is disabled
+const DEFAULT_SECTION: PoincareSectionConfig = {
+  surfaceIndex: 0,
+  surfaceValue: 0,
+  direction: 'positive',
+  xIndex: 1,
+  yIndex: 0,
+};
+
+// Shadow copies are drawn this see-through over the live chain
+const SHADOW_OPACITY = 0.25;
+
+const createNPendulum = () => new NPendulum();
 
 interface SimulationRunnerProps {
   params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  // Integrate in a Web Worker instead of the render loop
+  worker: boolean;
+  lyapunovExponents: number;
+  poincare: PoincareSectionConfig | null;
+  poincareClearToken: number;
+  shadows: { count: number; epsilon: number } | null;
   onEnergyUpdate: (energy: EnergyState) => void;
+  onLyapunovUpdate: (history: LyapunovSample[]) => void;
+  onPoincareUpdate: (points: PoincarePoint[]) => void;
+  onSeparationUpdate: (history: SeparationSample[]) => void;
   onReset: () => void;
 }
 
-function SimulationRunner({ params, onEnergyUpdate, onReset }: SimulationRunnerProps) {
-  const { physicsState, energy, reset } = useSimulation(
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  worker,
+  lyapunovExponents,
+  poincare,
+  poincareClearToken,
+  shadows,
+  onEnergyUpdate,
+  onLyapunovUpdate,
+  onPoincareUpdate,
+  onSeparationUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
     NPendulum,
     params,
-    { autoStart: false, recordTrails: true, recordPhaseSpace: false }
+    { autoStart: false, recordTrails: true, recordPhaseSpace: false, integrationMethod, tolerances, worker }
   );
 
+  // Tangent-space Lyapunov estimation alongside the live run
+  useLyapunovEstimator(simulation, {
+    enabled: lyapunovExponents > 0,
+    exponents: lyapunovExponents,
+    onUpdate: onLyapunovUpdate,
+  });
+
+  // Poincaré section crossings, refined between integrator steps
+  usePoincareSection(simulation, {
+    enabled: poincare !== null,
+    config: poincare ?? DEFAULT_SECTION,
+    clearToken: poincareClearToken,
+    onUpdate: onPoincareUpdate,
+  });
+
+  // Perturbed copies integrated alongside the run
+  const shadowStates = useEnsemble(simulation, {
+    enabled: shadows !== null,
+    count: shadows?.count ?? 0,
+    epsilon: shadows?.epsilon ?? 0,
+    createSimulation: createNPendulum,
+    onUpdate: onSeparationUpdate,
+  });
+
   useEffect(() => {
     onEnergyUpdate(energy);
   }, [energy, onEnergyUpdate]);
@@ -46,19 +122,33 @@ function SimulationRunner({ params, onEnergyUpdate, onReset }: SimulationRunnerP
   }, [reset, onReset]);
 
   return (
-    <PendulumRenderer
-      state={physicsState}
-      pivotPosition={{ x: 0, y: 0, z: 0 }}
-      massRadius={0.12}
-      rodRadius={0.03}
-    />
+    <group>
+      {shadowStates.map((state, i) => (
+        <PendulumRenderer
+          key={i}
+          state={state}
+          pivotPosition={{ x: 0, y: 0, z: 0 }}
+          massRadius={0.12}
+          rodRadius={0.03}
+          useGlowEffect={false}
+          opacity={SHADOW_OPACITY}
+          trails={false}
+        />
+      ))}
+      <PendulumRenderer
+        state={physicsState}
+        pivotPosition={{ x: 0, y: 0, z: 0 }}
+        massRadius={0.12}
+        rodRadius={0.03}
+      />
+    </group>
   );
 }
 
 export function NPendulumScene() {
   // Simulation parameters
   const simParams = useControls('Pendulum Chain', {
-    n: { value: 5, min: 2, max: 10, step: 1, label: 'Number of Segments', hint: 'Number of pendulum segments in the chain (2-10)' },
+    n: { value: 5, min: 2, max: 60, step: 1, label: 'Number of Segments', hint: 'Number of pendulum segments in the chain (2-60)' },
     segmentLength: { value: 0.6, min: 0.1, max: 2, step: 0.1, label: 'Segment Length', hint: 'Length of each segment in meters' },
     segmentMass: { value: 1, min: 0.1, max: 5, step: 0.1, label: 'Segment Mass', hint: 'Mass of each pendulum bob in kilograms' },
     gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
@@ -90,6 +180,11 @@ export function NPendulumScene() {
     speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
   });
 
+  const { integrationMethod, tolerances } = useIntegratorControls();
+  const { worker } = useControls('Physics', {
+    worker: { value: true, label: 'Worker thread', hint: 'Integrate in a background thread so long chains do not stall rendering' },
+  });
+
   useControls('Visualization', {
     trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trails behind each mass in the chain' },
     trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points per mass' },
@@ -98,6 +193,45 @@ export function NPendulumScene() {
     'Clear Trails': button(() => clearTrails()),
   });
 
+  const { lyapunov, exponents } = useControls('Analysis', {
+    lyapunov: { value: false, label: 'Lyapunov', hint: 'Estimate Lyapunov exponents from the tangent dynamics (positive λ₁ = chaos)' },
+    exponents: { value: 2, min: 1, max: 8, step: 1, label: 'Exponents', hint: 'Number of exponents to track (largest first)', render: (get) => get('Analysis.lyapunov') },
+  });
+  const [lyapunovHistory, setLyapunovHistory] = useState<LyapunovSample[]>([]);
+
+  const { shadowsEnabled, shadowCount, shadowEpsilonLog } = useControls('Shadows', {
+    shadowsEnabled: { value: false, label: 'Enabled', hint: 'Run copies from initial angles nudged by ε and plot how fast they drift apart' },
+    shadowCount: { value: 6, min: 1, max: 24, step: 1, label: 'Copies', hint: 'Number of shadow chains; each costs as much as the live one', render: (get) => get('Shadows.shadowsEnabled') },
+    shadowEpsilonLog: { value: -6, min: -12, max: -1, step: 1, label: 'log₁₀ ε', hint: 'Size of the initial angle perturbation (rad)', render: (get) => get('Shadows.shadowsEnabled') },
+  });
+  const shadows = useMemo(
+    () => (shadowsEnabled ? { count: shadowCount, epsilon: 10 ** shadowEpsilonLog } : null),
+    [shadowsEnabled, shadowCount, shadowEpsilonLog]
+  );
+  const [separationHistory, setSeparationHistory] = useState<SeparationSample[]>([]);
+
+  const [poincareClearToken, setPoincareClearToken] = useState(0);
+  const { poincare, surfaceLink, surfaceValue, direction, plotLink } = useControls('Poincaré Section', {
+    poincare: { value: false, label: 'Enabled', hint: 'Record a point each time the trajectory crosses the surface' },
+    surfaceLink: { value: 1, min: 1, max: 60, step: 1, label: 'Surface θᵢ', hint: 'Segment whose angle defines the surface of section' },
+    surfaceValue: { value: 0, min: -Math.PI, max: Math.PI, step: 0.01, label: 'At angle', hint: 'Surface value of the chosen angle (radians)' },
+    direction: { value: 'positive', options: { 'ω > 0': 'positive', 'ω < 0': 'negative', Both: 'both' }, label: 'Direction', hint: 'Only count crossings in this direction' },
+    plotLink: { value: 2, min: 1, max: 60, step: 1, label: 'Plot θⱼ, ωⱼ', hint: 'Segment whose angle and angular velocity are plotted' },
+    'Clear Section': button(() => setPoincareClearToken((t) => t + 1)),
+  });
+  const n = simParams.n;
+  const sectionConfig = useMemo<PoincareSectionConfig>(() => {
+    const plotted = Math.min(plotLink, n) - 1;
+    return {
+      surfaceIndex: Math.min(surfaceLink, n) - 1,
+      surfaceValue,
+      direction: direction as CrossingDirection,
+      xIndex: plotted,
+      yIndex: n + plotted,
+    };
+  }, [n, surfaceLink, surfaceValue, direction, plotLink]);
+  const [poincarePoints, setPoincarePoints] = useState<PoincarePoint[]>([]);
+
   // Theme
   const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
 
@@ -148,17 +282,14 @@ export function NPendulumScene() {
 
   useControls('Export', {
     'Export CSV': button(() => {
-      const sim = new NPendulum();
-      sim.init(simParams);
-      sim.enableRecording(true); // Enable history recording for export
-      for (let i = 0; i < 1000; i++) sim.step(1 / 60);
-      exportToCSV(sim.export(), 'n-pendulum-data.csv');
+      const data = runSimulation(exportRunSpec('n-pendulum', simParams, integrationMethod, tolerances));
+      exportToCSV(data, 'n-pendulum-data.csv');
     }),
     Reset: button(() => {
       const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
       if (resetFn) resetFn();
     }),
-  });
+  }, [simParams, integrationMethod, tolerances]);
 
   // Memoize to avoid creating new NPendulum instance on every render
   const meta = useMemo(() => new NPendulum().config.meta, []);
@@ -177,7 +308,17 @@ export function NPendulumScene() {
       >
         <SimulationRunner
           params={simParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          worker={worker}
+          lyapunovExponents={lyapunov ? exponents : 0}
+          poincare={poincare ? sectionConfig : null}
+          poincareClearToken={poincareClearToken}
+          shadows={shadows}
           onEnergyUpdate={handleEnergyUpdate}
+          onLyapunovUpdate={setLyapunovHistory}
+          onPoincareUpdate={setPoincarePoints}
+          onSeparationUpdate={setSeparationHistory}
           onReset={handleReset}
         />
       </SimulationCanvas>
@@ -185,6 +326,21 @@ export function NPendulumScene() {
       <SimulationInfo meta={meta} params={simParams} showParams={false} />
 
       {showEnergy && <EnergyGraph history={energyHistory} />}
+
+      {/* Lyapunov convergence */}
+      {lyapunov && <LyapunovGraph history={lyapunovHistory} />}
+
+      {/* Shadow ensemble divergence */}
+      {shadows && <SeparationGraph history={separationHistory} epsilon={shadows.epsilon} />}
+
+      {/* Poincaré section */}
+      {poincare && (
+        <PoincareSectionView
+          points={poincarePoints}
+          xLabel={`θ${Math.min(plotLink, n)} (rad)`}
+          yLabel={`ω${Math.min(plotLink, n)} (rad/s)`}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,439 @@
+/**
+ * NewtonsCradle
+ * Row of touching pendulum bobs that pass momentum along through collisions
+ * Contacts are found by the stepper's event phase: either resolved as
+ * instantaneous impulses with a coefficient of restitution, or integrated
+ * through as Hertzian soft contact with Hunt-Crossley damping
+ *
+ * Model Assumptions:
+ * - Bobs are rigid spheres of equal radius on massless, inextensible rods
+ * - Every pendulum swings in the same plane; only neighbours can touch
+ * - Impulse model: collisions are instantaneous and frictionless, and a chain
+ *   of touching bobs is resolved one pair at a time until nothing approaches
+ * - Hertz model: contact force k·δ^(3/2)·(1 + 3(1 - e)/2 · δ̇/v₀) with δ the
+ *   overlap and v₀ the closing speed at first touch
+ * - Damping is linear in each angular velocity
+ * - Gravitational field is uniform (constant g)
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  PhasePoint,
+  SimulationEvent,
+  CollisionRecord,
+  ExportData,
+  Vector3,
+} from '../../core/types';
+
+export type ContactModel = 'impulse' | 'hertz';
+
+export interface NewtonsCradleParams {
+  count: number;
+  length: number;
+  mass: number;
+  radius: number;
+  gap: number;
+  gravity: number;
+  damping: number;
+  restitution: number;
+  contactModel: ContactModel;
+  contactStiffness: number;
+  liftedLeft: number;
+  liftedRight: number;
+  liftAngle: number;
+  // Per-bob masses, overriding the uniform mass
+  masses?: number[];
+}
+
+// Bobs closer than this count as touching when a chain of impulses is resolved (m)
+const CONTACT_TOLERANCE = 1e-9;
+
+// Sweeps over the row before a chain of impulses is given up as unresolved
+const MAX_IMPULSE_SWEEPS = 1000;
+
+// Fixed step for soft contact, short enough to resolve millisecond contacts
+const HERTZ_TIMESTEP = 1 / 12000;
+
+// Contact geometry between neighbours i and i + 1
+interface PairContact {
+  // Surface separation; negative while overlapping (m)
+  gap: number;
+  // Unit normal from bob i to bob i + 1
+  nx: number;
+  ny: number;
+  // Projections of each bob's swing direction onto the normal
+  a: number;
+  b: number;
+  // Normal closing rate; negative while approaching (m/s)
+  vRel: number;
+}
+
+export class NewtonsCradle extends BaseSimulation {
+  private count: number = 5;
+  private masses: number[] = [];
+
+  // Pre-allocated buffers, sized for the bob count on init
+  private _derivBuffer: number[] = [];
+  private _eventBuffer: number[] = [];
+  private _contact: PairContact = { gap: 0, nx: 1, ny: 0, a: 1, b: 1, vRel: 0 };
+
+  // Closing speed at first touch per pair, for Hunt-Crossley damping
+  private impactSpeeds: number[] = [];
+  // Soft contacts in progress, completed when the pair separates
+  private openContacts: (CollisionRecord | null)[] = [];
+
+  private collisions: CollisionRecord[] = [];
+  private collisionCount: number = 0;
+  private lastCollision: CollisionRecord | null = null;
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'newtons-cradle',
+      name: "Newton's Cradle",
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      count: { value: 5, min: 2, max: 8, step: 1, label: 'Bobs' },
+      length: { value: 1.5, min: 0.3, max: 3, step: 0.1, label: 'Length (m)' },
+      mass: { value: 0.5, min: 0.05, max: 5, step: 0.05, label: 'Mass (kg)' },
+      radius: { value: 0.1, min: 0.02, max: 0.3, step: 0.01, label: 'Bob Radius (m)' },
+      gap: { value: 0, min: 0, max: 0.05, step: 0.001, label: 'Gap (m)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping' },
+      restitution: { value: 1, min: 0, max: 1, step: 0.01, label: 'Restitution e' },
+      contactModel: { value: 'impulse', label: 'Contact Model' },
+      contactStiffness: { value: 1e6, min: 1e4, max: 1e8, label: 'Hertz Stiffness (N/m^1.5)' },
+      liftedLeft: { value: 1, min: 0, max: 7, step: 1, label: 'Lifted Left' },
+      liftedRight: { value: 0, min: 0, max: 7, step: 1, label: 'Lifted Right' },
+      liftAngle: { value: 0.6, min: 0, max: 1.4, step: 0.01, label: 'Lift Angle (rad)' },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: false,
+      trailLength: 300,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: true,
+    },
+    camera: {
+      position: { x: 0, y: -0.6, z: 5 },
+      target: { x: 0, y: -1, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): NewtonsCradleParams {
+    return this.params as unknown as NewtonsCradleParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    const n = p.count;
+    this.count = n;
+    this.masses = Array.from({ length: n }, (_, i) => p.masses?.[i] ?? p.mass);
+    this._derivBuffer = new Array(2 * n).fill(0);
+    this._eventBuffer = new Array(n - 1).fill(0);
+    this.config.physics.fixedTimestep = p.contactModel === 'hertz' ? HERTZ_TIMESTEP : 1 / 240;
+    this.clearCollisions();
+
+    // State: [θ₀ … θₙ₋₁, ω₀ … ωₙ₋₁]; lifted bobs are pulled out together and stay touching
+    const left = Math.min(p.liftedLeft, n);
+    const right = Math.min(p.liftedRight, n - left);
+    const state = new Array<number>(2 * n).fill(0);
+    for (let i = 0; i < left; i++) state[i] = -p.liftAngle;
+    for (let i = n - right; i < n; i++) state[i] = p.liftAngle;
+    return state;
+  }
+
+  reset(): void {
+    super.reset();
+    this.clearCollisions();
+  }
+
+  private clearCollisions(): void {
+    this.impactSpeeds = new Array(this.count - 1).fill(0);
+    this.openContacts = new Array(this.count - 1).fill(null);
+    this.collisions = [];
+    this.collisionCount = 0;
+    this.lastCollision = null;
+  }
+
+  /**
+   * Spacing between neighbouring pivots: bobs just touch when hanging, plus the gap
+   */
+  private get spacing(): number {
+    return 2 * this.p.radius + this.p.gap;
+  }
+
+  /**
+   * Geometry and closing rate of the pair (i, i + 1), written into a shared object
+   */
+  private pairContact(i: number, state: number[]): PairContact {
+    const p = this.p;
+    const n = this.count;
+    const s1 = Math.sin(state[i]);
+    const c1 = Math.cos(state[i]);
+    const s2 = Math.sin(state[i + 1]);
+    const c2 = Math.cos(state[i + 1]);
+
+    const dx = this.spacing + p.length * (s2 - s1);
+    const dy = -p.length * (c2 - c1);
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1e-12;
+
+    const contact = this._contact;
+    contact.nx = dx / distance;
+    contact.ny = dy / distance;
+    contact.gap = distance - 2 * p.radius;
+    // A bob moves along (cosθ, sinθ) at speed Lω
+    contact.a = c1 * contact.nx + s1 * contact.ny;
+    contact.b = c2 * contact.nx + s2 * contact.ny;
+    contact.vRel = p.length * (state[n + i + 1] * contact.b - state[n + i] * contact.a);
+    return contact;
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const n = this.count;
+
+    for (let i = 0; i < n; i++) {
+      const omega = state[n + i];
+      this._derivBuffer[i] = omega;
+      this._derivBuffer[n + i] = (-p.gravity / p.length) * Math.sin(state[i]) - p.damping * omega;
+    }
+
+    if (p.contactModel === 'hertz') {
+      for (let i = 0; i < n - 1; i++) {
+        const contact = this.pairContact(i, state);
+        if (contact.gap >= 0) continue;
+
+        // Hunt-Crossley: elastic Hertz force with damping proportional to it,
+        // tuned so a collision starting at speed v₀ leaves at about e·v₀
+        const overlap = -contact.gap;
+        const impactSpeed = this.impactSpeeds[i];
+        const dampingFactor =
+          impactSpeed > 0 ? (3 * (1 - p.restitution) * -contact.vRel) / (2 * impactSpeed) : 0;
+        const force = Math.max(p.contactStiffness * overlap ** 1.5 * (1 + dampingFactor), 0);
+
+        // Push the pair apart along the normal; torque is force · L · (swing direction · n)
+        this._derivBuffer[n + i] -= (force * contact.a) / (this.masses[i] * p.length);
+        this._derivBuffer[n + i + 1] += (force * contact.b) / (this.masses[i + 1] * p.length);
+      }
+    }
+
+    return this._derivBuffer;
+  }
+
+  /**
+   * Surface gap of every neighbouring pair; contact begins when one falls through zero
+   */
+  protected eventFunctions(_t: number, state: number[]): number[] {
+    for (let i = 0; i < this.count - 1; i++) {
+      this._eventBuffer[i] = this.pairContact(i, state).gap;
+    }
+    return this._eventBuffer;
+  }
+
+  protected handleEvent(event: SimulationEvent, state: number[]): number[] {
+    const pair = event.index;
+
+    if (this.p.contactModel === 'hertz') {
+      if (event.direction < 0) {
+        // Contact begins: remember the closing speed and the totals going in
+        this.impactSpeeds[pair] = Math.max(-this.pairContact(pair, state).vRel, 0);
+        this.openContacts[pair] = {
+          time: event.time,
+          bodies: [pair, pair + 1],
+          impactSpeed: this.impactSpeeds[pair],
+          energyBefore: this.computeEnergy(state).total,
+          energyAfter: 0,
+          momentumBefore: this.computeMomentum(state),
+          momentumAfter: 0,
+        };
+      } else {
+        const record = this.openContacts[pair];
+        if (record) {
+          record.energyAfter = this.computeEnergy(state).total;
+          record.momentumAfter = this.computeMomentum(state);
+          this.openContacts[pair] = null;
+          this.addCollision(record);
+        }
+      }
+      return state;
+    }
+
+    // Impulse model only acts when a contact closes
+    if (event.direction > 0) return state;
+    this.resolveImpulses(state, event.time);
+    return state;
+  }
+
+  /**
+   * Apply collision impulses along the row until no touching pair approaches
+   * Each impulse J along the normal changes the bobs' angular velocities by
+   * ∓J·a/(mL) and ±J·b/(mL); J is chosen so the closing rate reverses to -e times itself.
+   */
+  private resolveImpulses(state: number[], time: number): void {
+    const p = this.p;
+    const n = this.count;
+
+    for (let sweep = 0; sweep < MAX_IMPULSE_SWEEPS; sweep++) {
+      let applied = false;
+      for (let i = 0; i < n - 1; i++) {
+        const { gap, vRel, a, b } = this.pairContact(i, state);
+        if (gap > CONTACT_TOLERANCE || vRel >= 0) continue;
+
+        const energyBefore = this.computeEnergy(state).total;
+        const momentumBefore = this.computeMomentum(state);
+        const impactSpeed = -vRel;
+
+        const effectiveInverseMass = (a * a) / this.masses[i] + (b * b) / this.masses[i + 1];
+        const impulse = ((1 + p.restitution) * impactSpeed) / effectiveInverseMass;
+        state[n + i] -= (impulse * a) / (this.masses[i] * p.length);
+        state[n + i + 1] += (impulse * b) / (this.masses[i + 1] * p.length);
+        applied = true;
+
+        this.addCollision({
+          time,
+          bodies: [i, i + 1],
+          impactSpeed,
+          energyBefore,
+          energyAfter: this.computeEnergy(state).total,
+          momentumBefore,
+          momentumAfter: this.computeMomentum(state),
+        });
+      }
+      if (!applied) break;
+    }
+  }
+
+  /**
+   * Count a collision, keeping the full list only while recording for export
+   */
+  private addCollision(record: CollisionRecord): void {
+    this.collisionCount++;
+    this.lastCollision = record;
+    if (this.recordingEnabled && this.collisions.length < this.maxHistoryLength) {
+      this.collisions.push(record);
+    }
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const p = this.p;
+    const n = this.count;
+    const pivots = this.getPivots();
+    const positions: Vector3[] = [];
+    const velocities: Vector3[] = [];
+
+    for (let i = 0; i < n; i++) {
+      const sinT = Math.sin(state[i]);
+      const cosT = Math.cos(state[i]);
+      const v = p.length * state[n + i];
+      positions.push({ x: pivots[i].x + p.length * sinT, y: -p.length * cosT, z: 0 });
+      velocities.push({ x: v * cosT, y: v * sinT, z: 0 });
+    }
+
+    return {
+      time: this.time,
+      positions,
+      velocities,
+    };
+  }
+
+  /**
+   * Energy of an arbitrary state, including elastic energy stored in soft contacts
+   */
+  private computeEnergy(state: number[]): EnergyState {
+    const p = this.p;
+    const n = this.count;
+    let kinetic = 0;
+    let potential = 0;
+
+    for (let i = 0; i < n; i++) {
+      const v = p.length * state[n + i];
+      kinetic += 0.5 * this.masses[i] * v * v;
+      potential += this.masses[i] * p.gravity * p.length * (1 - Math.cos(state[i]));
+    }
+    if (p.contactModel === 'hertz') {
+      for (let i = 0; i < n - 1; i++) {
+        const gap = this.pairContact(i, state).gap;
+        if (gap < 0) potential += 0.4 * p.contactStiffness * (-gap) ** 2.5;
+      }
+    }
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  /**
+   * Horizontal linear momentum of the bobs, the quantity collisions exchange (kg·m/s)
+   */
+  private computeMomentum(state: number[]): number {
+    const p = this.p;
+    const n = this.count;
+    let momentum = 0;
+    for (let i = 0; i < n; i++) {
+      momentum += this.masses[i] * p.length * state[n + i] * Math.cos(state[i]);
+    }
+    return momentum;
+  }
+
+  getEnergy(): EnergyState {
+    return this.computeEnergy(this.state);
+  }
+
+  getAngleIndices(): number[] {
+    return Array.from({ length: this.count }, (_, i) => i);
+  }
+
+  getMomentum(): number {
+    return this.computeMomentum(this.state);
+  }
+
+  getPhaseSpace(): PhasePoint[] {
+    const n = this.count;
+    const points: PhasePoint[] = [];
+    for (let i = 0; i < n; i++) {
+      points.push({ angle: this.state[i], angularVelocity: this.state[n + i], time: this.time });
+    }
+    return points;
+  }
+
+  /**
+   * Pivot of each pendulum along the top bar, centred on the origin
+   */
+  getPivots(): Vector3[] {
+    const n = this.p.count;
+    return Array.from({ length: n }, (_, i) => ({ x: (i - (n - 1) / 2) * this.spacing, y: 0, z: 0 }));
+  }
+
+  /**
+   * Collisions since the start of the run
+   */
+  getCollisionCount(): number {
+    return this.collisionCount;
+  }
+
+  getLastCollision(): CollisionRecord | null {
+    return this.lastCollision;
+  }
+
+  export(): ExportData {
+    return {
+      ...super.export(),
+      collisions: [...this.collisions],
+    };
+  }
+}
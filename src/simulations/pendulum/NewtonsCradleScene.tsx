@@ -0,0 +1,344 @@
+/**
+ * NewtonsCradleScene
+ * Complete scene for Newton's cradle with rigid or soft collisions
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Box } from '@react-three/drei';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  PhaseSpaceView,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { NewtonsCradle } from './NewtonsCradle';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV, exportCollisionsToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { CollisionRecord, EnergyState, IntegrationMethod, Vector3 } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// How often the collision summary is pushed to the UI (ms)
+const COLLISION_UPDATE_INTERVAL = 100;
+
+interface CollisionSummary {
+  count: number;
+  last: CollisionRecord | null;
+  momentum: number;
+}
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  pivots: Vector3[];
+  radius: number;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onCollisionUpdate: (summary: CollisionSummary) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  pivots,
+  radius,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onCollisionUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    NewtonsCradle,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Collision count and the most recent collision, throttled
+  const lastCollisionUpdateRef = useRef<number>(0);
+  useEffect(() => {
+    const sim = simulation.current;
+    if (!(sim instanceof NewtonsCradle)) return;
+
+    const now = performance.now();
+    if (now - lastCollisionUpdateRef.current >= COLLISION_UPDATE_INTERVAL) {
+      lastCollisionUpdateRef.current = now;
+      onCollisionUpdate({
+        count: sim.getCollisionCount(),
+        last: sim.getLastCollision(),
+        momentum: sim.getMomentum(),
+      });
+    }
+  }, [energy, simulation, onCollisionUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  // The count can change a frame before the simulation is rebuilt
+  if (!physicsState || physicsState.positions.length !== pivots.length) return null;
+
+  const frameWidth = pivots[pivots.length - 1].x - pivots[0].x + 4 * radius;
+
+  return (
+    <group>
+      {/* Top bar */}
+      <Box args={[frameWidth, 0.05, 0.15]} position={[0, 0.05, 0]}>
+        <meshStandardMaterial color={colors.pivot} metalness={0.7} roughness={0.3} />
+      </Box>
+
+      <PendulumRenderer
+        state={physicsState}
+        pivots={pivots}
+        massRadius={radius}
+        rodRadius={0.01}
+      />
+    </group>
+  );
+}
+
+export function NewtonsCradleScene() {
+  // Simulation parameters
+  const simParams = useControls('Cradle', {
+    count: { value: 5, min: 2, max: 8, step: 1, label: 'Bobs', hint: 'Number of balls in the cradle' },
+    length: { value: 1.5, min: 0.3, max: 3, step: 0.1, label: 'Length (m)', hint: 'Length of every suspension in meters' },
+    mass: { value: 0.5, min: 0.05, max: 5, step: 0.05, label: 'Mass (kg)', hint: 'Mass of every ball in kilograms' },
+    radius: { value: 0.1, min: 0.02, max: 0.3, step: 0.01, label: 'Radius (m)', hint: 'Ball radius; pivots are spaced one diameter apart' },
+    gap: { value: 0, min: 0, max: 0.05, step: 0.001, label: 'Gap (m)', hint: 'Extra spacing between hanging balls; zero means they just touch' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Air-drag style energy loss between collisions' },
+  });
+
+  const contact = useControls('Contact', {
+    contactModel: {
+      value: 'impulse',
+      options: { 'Impulse (rigid)': 'impulse', 'Hertz (soft)': 'hertz' },
+      label: 'Model',
+      hint: 'Instantaneous impulses at each touch, or a Hertzian spring force integrated through the contact',
+    },
+    restitution: { value: 1, min: 0, max: 1, step: 0.01, label: 'Restitution e', hint: 'Ratio of separating to closing speed (1 = perfectly elastic)' },
+    stiffnessLog: {
+      value: 6,
+      min: 4,
+      max: 8,
+      step: 0.1,
+      label: 'log₁₀ k',
+      hint: 'Hertz contact stiffness in N/m^1.5; stiffer contacts are shorter and transmit momentum more cleanly',
+      render: (get) => get('Contact.contactModel') === 'hertz',
+    },
+  });
+
+  const release = useControls('Release', {
+    liftedLeft: { value: 1, min: 0, max: 7, step: 1, label: 'Lifted Left', hint: 'Balls pulled out together on the left' },
+    liftedRight: { value: 0, min: 0, max: 7, step: 1, label: 'Lifted Right', hint: 'Balls pulled out together on the right' },
+    liftAngle: { value: 0.6, min: 0, max: 1.4, step: 0.01, label: 'Lift Angle', hint: 'Release angle of the lifted balls in radians' },
+  });
+
+  const allParams = useMemo(() => {
+    const { contactModel, restitution, stiffnessLog } = contact;
+    return { ...simParams, ...release, contactModel, restitution, contactStiffness: 10 ** stiffnessLog };
+  }, [simParams, contact, release]);
+
+  // Pivot layout only depends on the parameters
+  const pivots = useMemo(() => {
+    const sim = new NewtonsCradle();
+    sim.init(allParams);
+    return sim.getPivots();
+  }, [allParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls(
+    'Numerical integration scheme; collisions are located inside each step for every scheme'
+  );
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trails behind the balls' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase portraits (θ vs ω) for each ball' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the balls' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the suspensions' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trails' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+  const { phaseSpace } = useSimulationStore();
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  const [collisions, setCollisions] = useState<CollisionSummary | null>(null);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setCollisions(null);
+  }, [resetStore]);
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('newtons-cradle', allParams, integrationMethod, tolerances));
+      exportToCSV(data, 'newtons-cradle-data.csv');
+    }),
+    'Export Collisions': button(() => {
+      const data = runSimulation(exportRunSpec('newtons-cradle', allParams, integrationMethod, tolerances));
+      exportCollisionsToCSV(data, 'newtons-cradle-collisions.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [allParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new NewtonsCradle instance on every render
+  const meta = useMemo(() => new NewtonsCradle().config.meta, []);
+
+  const last = collisions?.last;
+  const energyChange = last ? last.energyAfter - last.energyBefore : 0;
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 0, y: -0.6, z: 5 }}
+        cameraTarget={{ x: 0, y: -1, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={allParams}
+          pivots={pivots}
+          radius={simParams.radius}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onCollisionUpdate={setCollisions}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+
+      {/* Collision log */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>
+          {contact.contactModel === 'hertz' ? 'Hertz soft contact' : 'Rigid impulses'}, e = {contact.restitution.toFixed(2)}
+        </div>
+        <div>collisions: {collisions?.count ?? 0}</div>
+        <div>momentum pₓ = {(collisions?.momentum ?? 0).toFixed(4)} kg·m/s</div>
+        {last && (
+          <div style={{ marginTop: 6 }}>
+            <div style={{ color: colors.textMuted }}>
+              last: balls {last.bodies[0] + 1}–{last.bodies[1] + 1} at t = {last.time.toFixed(3)} s
+            </div>
+            <div>v impact = {last.impactSpeed.toFixed(3)} m/s</div>
+            <div>
+              ΔE = {energyChange.toExponential(2)} J
+              <span style={{ color: colors.textMuted }}>
+                {' '}({last.energyBefore > 0 ? ((energyChange / last.energyBefore) * 100).toFixed(2) : '0.00'}%)
+              </span>
+            </div>
+            <div>Δp = {(last.momentumAfter - last.momentumBefore).toExponential(2)} kg·m/s</div>
+          </div>
+        )}
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showPhaseSpace && phaseSpace.length > 0 && (
+        <PhaseSpaceView
+          data={phaseSpace}
+          labels={Array.from({ length: simParams.count }, (_, i) => `${i + 1}`)}
+        />
+      )}
+    </div>
+  );
+}
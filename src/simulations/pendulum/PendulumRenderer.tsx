@@ -3,13 +3,14 @@
  * Reusable 3D renderer for any pendulum simulation
  */
 
-import { useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Sphere, Cylinder } from '@react-three/drei';
+import { Sphere, Cylinder, Torus } from '@react-three/drei';
 import * as THREE from 'three';
 import type { PhysicsState, Vector3 } from '../../core/types';
 import { useThemeStore, useSimulationStore } from '../../core/stores';
 import { Trail } from '../../core/components';
+import type { BobShape } from './rigidBody';
 
 interface PendulumRendererProps {
   state: PhysicsState | null;
@@ -17,6 +18,24 @@ interface PendulumRendererProps {
   massRadius?: number;
   rodRadius?: number;
   useGlowEffect?: boolean;
+  // Draw links as rigid rods or as coiled springs
+  linkStyle?: 'rod' | 'spring';
+  springCoils?: number;
+  springRadius?: number;
+  // Per-link overrides for compound pendulums: arm thickness, arm length
+  // extending behind the pivot, and bob shape and size
+  rodRadii?: number[];
+  linkOverhangs?: number[];
+  massShapes?: BobShape[];
+  massRadii?: number[];
+  // Side-by-side pendulums: mass i hangs from pivots[i] instead of the mass before it
+  pivots?: Vector3[];
+  // Coiled springs drawn between arbitrary points, e.g. coupling neighbouring pendulums
+  couplings?: { start: Vector3; end: Vector3 }[];
+  // Below 1 the pendulum is drawn see-through, e.g. for shadow copies overlaid on a run
+  opacity?: number;
+  // Draw the motion trails recorded in the store (off for overlays)
+  trails?: boolean;
 }
 
 export function PendulumRenderer({
@@ -25,47 +44,107 @@ export function PendulumRenderer({
   massRadius = 0.15,
   rodRadius = 0.03,
   useGlowEffect = true,
+  linkStyle = 'rod',
+  springCoils = 14,
+  springRadius = 0.1,
+  rodRadii,
+  linkOverhangs,
+  massShapes,
+  massRadii,
+  pivots,
+  couplings,
+  opacity = 1,
+  trails: drawTrails = true,
 }: PendulumRendererProps) {
   const colors = useThemeStore((s) => s.colors);
   const { trails, showTrails } = useSimulationStore();
+  const transparent = opacity < 1;
 
   if (!state) return null;
 
   const { positions } = state;
+  // A moving pivot reported by the model takes precedence over the prop
+  const pivot = state.pivot ?? pivotPosition;
 
   // Build rod segments
   const rods: { start: Vector3; end: Vector3; length: number }[] = [];
-  let prevPos = pivotPosition;
+  let prevPos = pivot;
 
-  for (const pos of positions) {
+  for (let i = 0; i < positions.length; i++) {
+    const pos = positions[i];
+    prevPos = pivots?.[i] ?? prevPos;
     const dx = pos.x - prevPos.x;
     const dy = pos.y - prevPos.y;
     const dz = pos.z - prevPos.z;
     const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
 
-    rods.push({ start: prevPos, end: pos, length });
+    // Extend the arm back past its pivot
+    const overhang = linkOverhangs?.[i] ?? 0;
+    const start =
+      overhang > 0 && length > 0
+        ? {
+            x: prevPos.x - (dx / length) * overhang,
+            y: prevPos.y - (dy / length) * overhang,
+            z: prevPos.z - (dz / length) * overhang,
+          }
+        : prevPos;
+
+    rods.push({ start, end: pos, length });
     prevPos = pos;
   }
 
   return (
     <group>
-      {/* Pivot point */}
-      <Sphere position={[pivotPosition.x, pivotPosition.y, pivotPosition.z]} args={[0.08, 16, 16]}>
-        <meshStandardMaterial
-          color={colors.pivot}
-          metalness={0.8}
-          roughness={0.2}
-        />
-      </Sphere>
+      {/* Pivot points */}
+      {(pivots ?? [pivot]).map((p, i) => (
+        <Sphere key={i} position={[p.x, p.y, p.z]} args={[0.08, 16, 16]}>
+          <meshStandardMaterial
+            color={colors.pivot}
+            metalness={0.8}
+            roughness={0.2}
+            transparent={transparent}
+            opacity={opacity}
+            depthWrite={!transparent}
+          />
+        </Sphere>
+      ))}
+
+      {/* Rods or springs */}
+      {rods.map((rod, i) =>
+        linkStyle === 'spring' ? (
+          <Spring
+            key={i}
+            start={rod.start}
+            end={rod.end}
+            coils={springCoils}
+            coilRadius={springRadius}
+            wireRadius={rodRadius / 2}
+            color={colors.rod}
+            opacity={opacity}
+          />
+        ) : (
+          <Rod
+            key={i}
+            start={rod.start}
+            end={rod.end}
+            radius={rodRadii?.[i] ?? rodRadius}
+            color={colors.rod}
+            opacity={opacity}
+          />
+        )
+      )}
 
-      {/* Rods */}
-      {rods.map((rod, i) => (
-        <Rod
+      {/* Coupling springs */}
+      {couplings?.map((spring, i) => (
+        <Spring
           key={i}
-          start={rod.start}
-          end={rod.end}
-          radius={rodRadius}
-          color={colors.rod}
+          start={spring.start}
+          end={spring.end}
+          coils={springCoils}
+          coilRadius={springRadius}
+          wireRadius={rodRadius / 2}
+          color={colors.secondary}
+          opacity={opacity}
         />
       ))}
 
@@ -74,15 +153,18 @@ export function PendulumRenderer({
         <Mass
           key={i}
           position={pos}
-          radius={massRadius}
+          shape={massShapes?.[i] ?? 'sphere'}
+          radius={massRadii?.[i] ?? massRadius}
           color={colors.mass}
           useGlow={useGlowEffect}
           index={i}
+          opacity={opacity}
         />
       ))}
 
       {/* Trails - using optimized GPU-based Line rendering */}
       {showTrails &&
+        drawTrails &&
         trails.map((trail, i) => (
           <Trail
             key={i}
@@ -101,6 +183,7 @@ interface RodProps {
   end: Vector3;
   radius: number;
   color: string;
+  opacity: number;
 }
 
 // Reusable Three.js objects to avoid allocation every frame
@@ -109,7 +192,7 @@ const _up = new THREE.Vector3(0, 1, 0);
 const _quaternion = new THREE.Quaternion();
 const _euler = new THREE.Euler();
 
-function Rod({ start, end, radius, color }: RodProps) {
+function Rod({ start, end, radius, color, opacity }: RodProps) {
   const meshRef = useRef<THREE.Mesh>(null);
 
   // Calculate position and rotation without creating new objects
@@ -144,20 +227,96 @@ function Rod({ start, end, radius, color }: RodProps) {
         color={color}
         metalness={0.6}
         roughness={0.3}
+        transparent={opacity < 1}
+        opacity={opacity}
+        depthWrite={opacity >= 1}
       />
     </Cylinder>
   );
 }
 
+interface SpringProps {
+  start: Vector3;
+  end: Vector3;
+  coils: number;
+  coilRadius: number;
+  wireRadius: number;
+  color: string;
+  opacity: number;
+}
+
+// Fraction of the spring length taken by the straight leads at each end
+const SPRING_LEAD = 0.08;
+
+/**
+ * Coiled spring between two points
+ * The helix is built once at unit length and stretched along its axis, so the
+ * coils spread and bunch like a real spring without rebuilding geometry.
+ */
+function Spring({ start, end, coils, coilRadius, wireRadius, color, opacity }: SpringProps) {
+  const geometry = useMemo(() => {
+    const points: THREE.Vector3[] = [new THREE.Vector3(0, -0.5, 0)];
+    const samples = coils * 16;
+    for (let i = 0; i <= samples; i++) {
+      const u = i / samples;
+      const angle = u * coils * 2 * Math.PI;
+      points.push(
+        new THREE.Vector3(
+          coilRadius * Math.sin(angle),
+          -0.5 + SPRING_LEAD + u * (1 - 2 * SPRING_LEAD),
+          coilRadius * Math.cos(angle)
+        )
+      );
+    }
+    points.push(new THREE.Vector3(0, 0.5, 0));
+    const curve = new THREE.CatmullRomCurve3(points);
+    return new THREE.TubeGeometry(curve, points.length * 2, wireRadius, 6, false);
+  }, [coils, coilRadius, wireRadius]);
+
+  // Dispose the previous geometry when it is rebuilt or on unmount
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const dz = end.z - start.z;
+  const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+  // Same orientation as Rod: the local y axis points from start to end
+  _direction.set(dx, dy, dz).normalize();
+  _up.set(0, 1, 0);
+  _quaternion.setFromUnitVectors(_up, _direction);
+  _euler.setFromQuaternion(_quaternion);
+
+  return (
+    <mesh
+      geometry={geometry}
+      position={[(start.x + end.x) / 2, (start.y + end.y) / 2, (start.z + end.z) / 2]}
+      rotation={[_euler.x, _euler.y, _euler.z]}
+      scale={[1, length, 1]}
+    >
+      <meshStandardMaterial
+        color={color}
+        metalness={0.6}
+        roughness={0.3}
+        transparent={opacity < 1}
+        opacity={opacity}
+        depthWrite={opacity >= 1}
+      />
+    </mesh>
+  );
+}
+
 interface MassProps {
   position: Vector3;
+  shape: BobShape;
   radius: number;
   color: string;
   useGlow: boolean;
   index: number;
+  opacity: number;
 }
 
-function Mass({ position, radius, color, useGlow, index }: MassProps) {
+function Mass({ position, shape, radius, color, useGlow, index, opacity }: MassProps) {
   const meshRef = useRef<THREE.Mesh>(null);
 
   // Subtle animation
@@ -168,19 +327,51 @@ function Mass({ position, radius, color, useGlow, index }: MassProps) {
     }
   });
 
+  const material = (
+    <meshStandardMaterial
+      color={color}
+      emissive={color}
+      emissiveIntensity={useGlow ? 0.2 : 0}
+      metalness={0.3}
+      roughness={0.4}
+      transparent={opacity < 1}
+      opacity={opacity}
+      depthWrite={opacity >= 1}
+    />
+  );
+
+  // Disks and rings lie in the plane of motion, facing the camera
+  if (shape === 'disk') {
+    return (
+      <Cylinder
+        ref={meshRef}
+        position={[position.x, position.y, position.z]}
+        rotation={[Math.PI / 2, 0, 0]}
+        args={[radius, radius, radius * 0.2, 32]}
+      >
+        {material}
+      </Cylinder>
+    );
+  }
+  if (shape === 'ring') {
+    return (
+      <Torus
+        ref={meshRef}
+        position={[position.x, position.y, position.z]}
+        args={[radius, radius * 0.12, 12, 48]}
+      >
+        {material}
+      </Torus>
+    );
+  }
+
   return (
     <Sphere
       ref={meshRef}
       position={[position.x, position.y, position.z]}
       args={[radius, 32, 32]}
     >
-      <meshStandardMaterial
-        color={color}
-        emissive={color}
-        emissiveIntensity={useGlow ? 0.2 : 0}
-        metalness={0.3}
-        roughness={0.4}
-      />
+      {material}
     </Sphere>
   );
 }
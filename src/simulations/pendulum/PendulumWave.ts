@@ -0,0 +1,191 @@
+/**
+ * PendulumWave
+ * Row of independent simple pendulums whose lengths are tuned so that, over
+ * one pattern period Γ, the longest completes N oscillations, the next N + 1,
+ * and so on. Released together they drift out of phase into travelling waves,
+ * standing waves and apparent chaos before lining up again at t = Γ.
+ *
+ * Model Assumptions:
+ * - Each pendulum is a SimplePendulum; they do not interact
+ * - Pivots sit on a common bar along z and every pendulum swings in x-y
+ * - All pendulums are released from rest at the same angle
+ * - Lengths come from the small-angle period 2π√(L/g), or optionally from
+ *   the exact period 4√(L/g)·K(sin(θ₀/2)) at the release amplitude
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import { SimplePendulum } from './SimplePendulum';
+import { completeEllipticK } from '../../utils/physics';
+import type { SimulationConfig, PhysicsState, EnergyState } from '../../core/types';
+
+export interface PendulumWaveParams {
+  count: number;
+  patternPeriod: number;
+  oscillations: number;
+  spacing: number;
+  mass: number;
+  gravity: number;
+  damping: number;
+  amplitude: number;
+  exactPeriod: boolean;
+}
+
+export class PendulumWave extends BaseSimulation {
+  // One SimplePendulum per string, longest first, supplying its equations of
+  // motion and energy; the interleaved state is integrated here as a whole
+  private pendulums: SimplePendulum[] = [];
+  // String lengths and pivot positions along z, resolved on init
+  private lengths: number[] = [];
+  private offsets: number[] = [];
+
+  // Pre-allocated buffer for derivatives to avoid allocation every call
+  private _derivBuffer: number[] = [];
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'pendulum-wave',
+      name: 'Pendulum Wave',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      count: { value: 15, min: 15, max: 24, step: 1, label: 'Pendulums' },
+      patternPeriod: { value: 60, min: 10, max: 180, step: 1, label: 'Pattern Period Γ (s)' },
+      oscillations: { value: 51, min: 5, max: 80, step: 1, label: 'Oscillations of Longest in Γ' },
+      spacing: { value: 0.1, min: 0.03, max: 0.3, step: 0.01, label: 'Spacing (m)' },
+      mass: { value: 0.2, min: 0.01, max: 2, step: 0.01, label: 'Mass (kg)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping' },
+      amplitude: { value: 0.35, min: 0.01, max: 1.5, step: 0.01, label: 'Release Angle (rad)' },
+      exactPeriod: { value: false, label: 'Exact Large-Angle Period' },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: false,
+      trailLength: 200,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: false,
+    },
+    camera: {
+      position: { x: 1.6, y: 0.2, z: 1.8 },
+      target: { x: 0, y: -0.3, z: 0 },
+      fov: 50,
+    },
+  };
+
+  private get p(): PendulumWaveParams {
+    return this.params as unknown as PendulumWaveParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    this.lengths = this.getLengths();
+    this.offsets = this.getOffsets();
+    this.pendulums = this.lengths.map((length) => {
+      const pendulum = new SimplePendulum();
+      pendulum.init({
+        length,
+        mass: p.mass,
+        gravity: p.gravity,
+        damping: p.damping,
+        initialAngle: p.amplitude,
+        initialVelocity: 0,
+      });
+      return pendulum;
+    });
+    this._derivBuffer = new Array(2 * p.count).fill(0);
+
+    // State: [θ₀, ω₀, θ₁, ω₁, …], one pair per pendulum
+    return this.pendulums.flatMap((pendulum) => pendulum.getState());
+  }
+
+  protected computeDerivatives(t: number, state: number[]): number[] {
+    // Each pair evolves under its own pendulum's equations
+    this.pendulums.forEach((pendulum, i) => {
+      const [thetaDot, omegaDot] = pendulum.evaluateDerivatives(t, state.slice(2 * i, 2 * i + 2));
+      this._derivBuffer[2 * i] = thetaDot;
+      this._derivBuffer[2 * i + 1] = omegaDot;
+    });
+    return this._derivBuffer;
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const { lengths, offsets } = this;
+
+    return {
+      time: this.time,
+      positions: lengths.map((length, i) => ({
+        x: length * Math.sin(state[2 * i]),
+        y: -length * Math.cos(state[2 * i]),
+        z: offsets[i],
+      })),
+      velocities: lengths.map((length, i) => ({
+        x: length * state[2 * i + 1] * Math.cos(state[2 * i]),
+        y: length * state[2 * i + 1] * Math.sin(state[2 * i]),
+        z: 0,
+      })),
+    };
+  }
+
+  getEnergy(): EnergyState {
+    let kinetic = 0;
+    let potential = 0;
+    this.pendulums.forEach((pendulum, i) => {
+      const energy = pendulum.evaluateEnergy(this.time, this.state.slice(2 * i, 2 * i + 2));
+      kinetic += energy.kinetic;
+      potential += energy.potential;
+    });
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  getAngleIndices(): number[] {
+    return this.pendulums.map((_, i) => 2 * i);
+  }
+
+  /**
+   * Target period of each pendulum, Γ / (N + i) (s)
+   */
+  getPeriods(): number[] {
+    const p = this.p;
+    return Array.from({ length: p.count }, (_, i) => p.patternPeriod / (p.oscillations + i));
+  }
+
+  /**
+   * Length that gives each target period (m)
+   * Small angle: L = g(T/2π)². Exact: L = g(T / 4K(sin(θ₀/2)))², so the
+   * pattern still closes at Γ when released at a large angle.
+   */
+  getLengths(): number[] {
+    const p = this.p;
+    const quarterFactor = p.exactPeriod ? 4 * completeEllipticK(Math.sin(p.amplitude / 2)) : 2 * Math.PI;
+    return this.getPeriods().map((period) => p.gravity * (period / quarterFactor) ** 2);
+  }
+
+  /**
+   * Position of each pivot along the bar, centred on the origin (m)
+   */
+  getOffsets(): number[] {
+    const p = this.p;
+    return Array.from({ length: p.count }, (_, i) => (i - (p.count - 1) / 2) * p.spacing);
+  }
+
+  /**
+   * How much longer the true period is than the small-angle one at the
+   * release amplitude, T / T₀ = 2K(sin(θ₀/2)) / π
+   * With small-angle lengths this stretches the pattern period by the same factor.
+   */
+  getPeriodStretch(): number {
+    return (2 * completeEllipticK(Math.sin(this.p.amplitude / 2))) / Math.PI;
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * PendulumWaveScene
+ * Complete scene for the pendulum wave machine
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import { Box } from '@react-three/drei';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { PendulumWave } from './PendulumWave';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// How often the pattern clock is pushed to the UI (ms)
+const CLOCK_UPDATE_INTERVAL = 100;
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onTimeUpdate: (time: number) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onTimeUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const colors = useThemeStore((s) => s.colors);
+  const { physicsState, energy, reset } = useSimulation(
+    PendulumWave,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: false, integrationMethod, tolerances }
+  );
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Simulation time for the pattern clock, throttled
+  const lastClockUpdateRef = useRef<number>(0);
+  const time = physicsState?.time ?? 0;
+  useEffect(() => {
+    const now = performance.now();
+    if (now - lastClockUpdateRef.current >= CLOCK_UPDATE_INTERVAL || time === 0) {
+      lastClockUpdateRef.current = now;
+      onTimeUpdate(time);
+    }
+  }, [time, onTimeUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  if (!physicsState || physicsState.positions.length === 0) return null;
+
+  // Every string hangs from the bar directly above its bob
+  const pivots = physicsState.positions.map((pos) => ({ x: 0, y: 0, z: pos.z }));
+  const barLength = pivots[pivots.length - 1].z - pivots[0].z + 0.1;
+
+  return (
+    <group>
+      {/* Support bar */}
+      <Box args={[0.04, 0.04, barLength]} position={[0, 0.02, 0]}>
+        <meshStandardMaterial color={colors.pivot} metalness={0.6} roughness={0.4} />
+      </Box>
+
+      <PendulumRenderer
+        state={physicsState}
+        pivots={pivots}
+        massRadius={0.025}
+        rodRadius={0.003}
+      />
+    </group>
+  );
+}
+
+export function PendulumWaveScene() {
+  // Simulation parameters
+  const simParams = useControls('Wave Machine', {
+    count: { value: 15, min: 15, max: 24, step: 1, label: 'Pendulums', hint: 'Number of pendulums along the bar' },
+    patternPeriod: { value: 60, min: 10, max: 180, step: 1, label: 'Pattern Period Γ (s)', hint: 'Time after which all pendulums line up again' },
+    oscillations: { value: 51, min: 5, max: 80, step: 1, label: 'Oscillations N', hint: 'Swings of the longest pendulum per pattern period; each next one makes one more' },
+    amplitude: { value: 0.35, min: 0.01, max: 1.5, step: 0.01, label: 'Release Angle', hint: 'Angle all pendulums are released from, in radians' },
+    exactPeriod: { value: false, label: 'Exact Period', hint: 'Solve lengths from the exact large-angle period so the pattern closes at Γ even for wide swings' },
+    spacing: { value: 0.1, min: 0.03, max: 0.3, step: 0.01, label: 'Spacing (m)', hint: 'Distance between neighbouring pivots along the bar' },
+    mass: { value: 0.2, min: 0.01, max: 2, step: 0.01, label: 'Mass (kg)', hint: 'Mass of every bob in kilograms' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (0 = ideal, no friction)' },
+  });
+
+  // Lengths and timing only depend on the parameters
+  const layout = useMemo(() => {
+    const sim = new PendulumWave();
+    sim.init(simParams);
+    return { lengths: sim.getLengths(), stretch: sim.getPeriodStretch() };
+  }, [simParams]);
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trails behind the pendulum bobs' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob masses' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the strings' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trails' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  const [time, setTime] = useState(0);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setTime(0);
+  }, [resetStore]);
+
+  // Small-angle lengths keep every ratio but run slow by the amplitude stretch,
+  // so the pattern still repeats, only later than Γ
+  const realignPeriod = simParams.exactPeriod ? simParams.patternPeriod : simParams.patternPeriod * layout.stretch;
+  const patternPhase = (time % realignPeriod) / realignPeriod;
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('pendulum-wave', simParams, integrationMethod, tolerances));
+      exportToCSV(data, 'pendulum-wave-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [simParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new PendulumWave instance on every render
+  const meta = useMemo(() => new PendulumWave().config.meta, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 1.6, y: 0.2, z: 1.8 }}
+        cameraTarget={{ x: 0, y: -0.3, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={simParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onTimeUpdate={setTime}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+
+      {/* Lengths and pattern clock */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 20,
+          background: `${colors.panel}dd`,
+          borderRadius: 8,
+          padding: 10,
+          border: `1px solid ${colors.panelBorder}`,
+          fontFamily: 'monospace',
+          fontSize: 12,
+          color: colors.text,
+        }}
+      >
+        <div style={{ color: colors.textMuted, marginBottom: 4 }}>
+          {simParams.oscillations}…{simParams.oscillations + simParams.count - 1} swings per {simParams.patternPeriod} s
+        </div>
+        <div>
+          L = {(layout.lengths[0] * 100).toFixed(2)} … {(layout.lengths[layout.lengths.length - 1] * 100).toFixed(2)} cm
+        </div>
+        <div>
+          lengths from {simParams.exactPeriod ? 'exact period at θ₀' : 'small-angle period'}
+        </div>
+        <div>
+          realigns every {realignPeriod.toFixed(2)} s
+          {!simParams.exactPeriod && (
+            <span style={{ color: colors.textMuted }}> (+{((layout.stretch - 1) * 100).toFixed(2)}%)</span>
+          )}
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 6 }}>
+          <span>pattern</span>
+          <div style={{ width: 120, height: 8, background: colors.panelBorder, borderRadius: 2 }}>
+            <div
+              style={{
+                width: `${patternPhase * 100}%`,
+                height: '100%',
+                background: colors.primary,
+                borderRadius: 2,
+              }}
+            />
+          </div>
+          <span style={{ color: colors.textMuted }}>{(time % realignPeriod).toFixed(1)} s</span>
+        </div>
+      </div>
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+    </div>
+  );
+}
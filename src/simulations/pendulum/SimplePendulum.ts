@@ -18,7 +18,7 @@ import type {
   EnergyState,
   PhasePoint,
 } from '../../core/types';
-import { polarToCartesian } from '../../utils/physics';
+import { polarToCartesian, completeEllipticK, pendulumPeriod } from '../../utils/physics';
 
 export interface SimplePendulumParams {
   length: number;
@@ -143,6 +143,10 @@ export class SimplePendulum extends BaseSimulation {
     };
   }
 
+  getAngleIndices(): number[] {
+    return [0];
+  }
+
   getPhaseSpace(): PhasePoint[] {
     const [theta, omega] = this.state;
     return [{ angle: theta, angularVelocity: omega, time: this.time }];
@@ -155,4 +159,34 @@ export class SimplePendulum extends BaseSimulation {
     const p = this.p;
     return 2 * Math.PI * Math.sqrt(p.length / p.gravity);
   }
+
+  /**
+   * Turning-point angle θ₀ of the current swing, from the energy
+   * 1 - cos θ₀ = 1 - cos θ + Lω²/2g; π once the pendulum goes over the top
+   */
+  getAmplitude(): number {
+    return 2 * Math.asin(Math.min(this.getModulus(), 1));
+  }
+
+  /**
+   * Exact period of the current motion, ignoring damping
+   * Swinging: 4√(L/g)·K(k). Going over the top: the time for one revolution,
+   * (2/k)√(L/g)·K(1/k). Infinite on the separatrix k = 1.
+   */
+  getExactPeriod(): number {
+    const p = this.p;
+    const k = this.getModulus();
+    if (k < 1) return pendulumPeriod(p.length, p.gravity, this.getAmplitude());
+    return (2 / k) * Math.sqrt(p.length / p.gravity) * completeEllipticK(1 / k);
+  }
+
+  /**
+   * Elliptic modulus k = sin(θ₀/2) of the current state
+   */
+  private getModulus(): number {
+    const p = this.p;
+    const [theta, omega] = this.state;
+    const height = 1 - Math.cos(theta) + (p.length * omega * omega) / (2 * p.gravity);
+    return Math.sqrt(Math.max(height, 0) / 2);
+  }
 }
@@ -10,31 +10,119 @@ import {
   EnergyGraph,
   PhaseSpaceView,
   SimulationInfo,
+  PeriodAmplitudeGraph,
+  SpectrumGraph,
+  SweepResultsView,
 } from '../../core/components';
 import { useSimulationStore, useThemeStore } from '../../core/stores';
-import { useSimulation } from '../templates';
+import { usePoincareSection, useSpectrum, spectrumWindowOptions, spectrumSizeOptions } from '../../analysis';
+import type {
+  PoincarePoint,
+  PoincareSectionConfig,
+  Spectrum,
+  SpectrumSignal,
+  SpectrumWindow,
+} from '../../analysis';
+import { useSimulation, useIntegratorControls, useParameterSweep } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
 import { SimplePendulum } from './SimplePendulum';
 import { PendulumRenderer } from './PendulumRenderer';
-import { exportToCSV } from '../../utils';
+import { exportToCSV, pendulumPeriod } from '../../utils';
 import { themes } from '../../core/types';
-import type { EnergyState } from '../../core/types';
+import type { EnergyState, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+
+// Current swing and its period, exact from the energy and timed from the run
+interface PeriodReadout {
+  amplitude: number;
+  exact: number;
+  measured: number | null;
+}
+
+// How often the period readout is pushed to the UI (ms)
+const PERIOD_UPDATE_INTERVAL = 100;
+
+// Upward passes through the bottom, one per period (or per revolution)
+const PERIOD_SECTION: PoincareSectionConfig = {
+  surfaceIndex: 0,
+  surfaceValue: 0,
+  direction: 'positive',
+  angular: true,
+  xIndex: 0,
+  yIndex: 1,
+  maxPoints: 2,
+};
+
+// Amplitudes sampled for the period-amplitude curve
+const CURVE_SAMPLES = 120;
+
+// Signals the spectrum can be taken of
+const SPECTRUM_SIGNALS: Record<string, SpectrumSignal> = {
+  'θ': { kind: 'state', index: 0 },
+  'ω': { kind: 'state', index: 1 },
+  KE: { kind: 'energy', component: 'kinetic' },
+  PE: { kind: 'energy', component: 'potential' },
+};
 
 interface SimulationRunnerProps {
   params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
   onEnergyUpdate: (energy: EnergyState) => void;
+  onPeriodUpdate: (period: PeriodReadout) => void;
+  spectrum: { signal: SpectrumSignal; window: SpectrumWindow; size: number } | null;
+  onSpectrumUpdate: (spectrum: Spectrum | null) => void;
   onReset: () => void;
 }
 
-function SimulationRunner({ params, onEnergyUpdate, onReset }: SimulationRunnerProps) {
-  const { physicsState, energy, reset } = useSimulation(
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onPeriodUpdate,
+  spectrum,
+  onSpectrumUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
     SimplePendulum,
     params,
-    { autoStart: false, recordTrails: true, recordPhaseSpace: true }
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
   );
 
+  // Last two crossings, interpolated between integrator steps
+  const crossingsRef = useRef<PoincarePoint[]>([]);
+  const handleCrossings = useCallback((points: PoincarePoint[]) => {
+    crossingsRef.current = points;
+  }, []);
+  usePoincareSection(simulation, { enabled: true, config: PERIOD_SECTION, onUpdate: handleCrossings });
+
+  useSpectrum(simulation, {
+    enabled: spectrum !== null,
+    signal: spectrum?.signal ?? SPECTRUM_SIGNALS['θ'],
+    window: spectrum?.window ?? 'hann',
+    size: spectrum?.size ?? spectrumSizeOptions[0],
+    onUpdate: onSpectrumUpdate,
+  });
+
+  const lastPeriodUpdateRef = useRef<number>(0);
   useEffect(() => {
     onEnergyUpdate(energy);
-  }, [energy, onEnergyUpdate]);
+
+    const sim = simulation.current;
+    const now = performance.now();
+    if (!(sim instanceof SimplePendulum) || now - lastPeriodUpdateRef.current < PERIOD_UPDATE_INTERVAL) return;
+    lastPeriodUpdateRef.current = now;
+
+    // Both crossings must come from the current run, not one before a reset
+    const [previous, latest] = crossingsRef.current;
+    const measured =
+      previous && latest && previous.orbit === latest.orbit && latest.time <= sim.getTime()
+        ? latest.time - previous.time
+        : null;
+    onPeriodUpdate({ amplitude: sim.getAmplitude(), exact: sim.getExactPeriod(), measured });
+  }, [energy, onEnergyUpdate, onPeriodUpdate, simulation]);
 
   useEffect(() => {
     (window as unknown as { __simReset?: () => void }).__simReset = () => {
@@ -93,15 +181,50 @@ export function SimplePendulumScene() {
     speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
   });
 
-  useControls('Visualization', {
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  const { periodGraph } = useControls('Visualization', {
     trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the pendulum bob' },
     trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
     energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
     phaseSpace: { value: showPhaseSpace, onChange: setShowPhaseSpace, hint: 'Show phase portrait (angle θ vs angular velocity ω)' },
     grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    periodGraph: { value: true, label: 'Period Graph', hint: 'Plot the exact period against amplitude, with the current swing marked' },
     'Clear Trails': button(() => clearTrails()),
   });
 
+  const spectrumControls = useControls('Spectrum', {
+    enabled: { value: false, label: 'Enabled', hint: 'Show the windowed FFT of a signal, recorded from when it is enabled' },
+    signal: { value: 'θ', options: Object.keys(SPECTRUM_SIGNALS), hint: 'Angle, angular velocity, kinetic or potential energy' },
+    window: { value: 'hann', options: spectrumWindowOptions, hint: 'Taper applied before the FFT (Blackman leaks least, Hann resolves closer lines)' },
+    size: { value: 4096, options: spectrumSizeOptions, label: 'FFT size', hint: 'Most recent samples analysed (50 per second of simulation time)' },
+    maxFrequency: { value: 2, min: 0.5, max: 25, step: 0.5, label: 'Max freq (Hz)', hint: 'Highest frequency shown' },
+    logScale: { value: true, label: 'Log scale', hint: 'Plot amplitude in dB relative to the strongest bin' },
+  });
+  const spectrumSettings = useMemo(
+    () =>
+      spectrumControls.enabled
+        ? {
+            signal: SPECTRUM_SIGNALS[spectrumControls.signal],
+            window: spectrumControls.window as SpectrumWindow,
+            size: spectrumControls.size,
+          }
+        : null,
+    [spectrumControls.enabled, spectrumControls.signal, spectrumControls.window, spectrumControls.size]
+  );
+  const [spectrum, setSpectrum] = useState<Spectrum | null>(null);
+
+  // Batch runs over one or two parameters, e.g. the period against amplitude
+  const schema = useMemo(() => new SimplePendulum().config.defaultParams, []);
+  const sweep = useParameterSweep({
+    model: 'simple-pendulum',
+    schema,
+    params: simParams,
+    integrationMethod,
+    tolerances,
+    defaults: { x: 'initialAngle', metric: 'period' },
+  });
+
   // Theme
   const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
 
@@ -146,27 +269,67 @@ export function SimplePendulumScene() {
     }
   }, []);
 
+  const [period, setPeriod] = useState<PeriodReadout | null>(null);
+
   const handleReset = useCallback(() => {
     resetStore();
     setEnergyHistory([]);
+    setPeriod(null);
   }, [resetStore]);
 
-  // Theoretical period display
-  const theoreticalPeriod = 2 * Math.PI * Math.sqrt(simParams.length / simParams.gravity);
+  // Small-angle period, and the exact period across all swing amplitudes
+  const smallAnglePeriod = 2 * Math.PI * Math.sqrt(simParams.length / simParams.gravity);
+  const periodCurve = useMemo(
+    () =>
+      Array.from({ length: CURVE_SAMPLES }, (_, i) => {
+        const amplitude = (i / CURVE_SAMPLES) * Math.PI;
+        return { amplitude, period: pendulumPeriod(simParams.length, simParams.gravity, amplitude) };
+      }),
+    [simParams.length, simParams.gravity]
+  );
+
+  // Theoretical lines: the swing frequency, doubled for energies, which peak twice per swing
+  const swingFrequency = 1 / (period && Number.isFinite(period.exact) ? period.exact : smallAnglePeriod);
+  const spectrumMarkers =
+    SPECTRUM_SIGNALS[spectrumControls.signal].kind === 'energy'
+      ? [{ frequency: 2 * swingFrequency, label: '2f' }]
+      : [{ frequency: swingFrequency, label: 'f' }];
+
+  const percent = (value: number, reference: number) => {
+    const difference = ((value - reference) / reference) * 100;
+    return `${difference >= 0 ? '+' : ''}${difference.toFixed(3)}%`;
+  };
+  const periodStats = [
+    { label: 'T₀ (small angle)', value: `${smallAnglePeriod.toFixed(4)}s` },
+    ...(period
+      ? [
+          {
+            label: 'T (exact)',
+            value: Number.isFinite(period.exact)
+              ? `${period.exact.toFixed(4)}s (${percent(period.exact, smallAnglePeriod)})`
+              : '∞ (separatrix)',
+          },
+          {
+            label: 'T (measured)',
+            value:
+              period.measured !== null
+                ? `${period.measured.toFixed(4)}s (${percent(period.measured, period.exact)} vs exact)`
+                : 'timing…',
+          },
+        ]
+      : []),
+  ];
 
   useControls('Export', {
     'Export CSV': button(() => {
-      const sim = new SimplePendulum();
-      sim.init(simParams);
-      sim.enableRecording(true); // Enable history recording for export
-      for (let i = 0; i < 1000; i++) sim.step(1 / 60);
-      exportToCSV(sim.export(), 'simple-pendulum-data.csv');
+      const data = runSimulation(exportRunSpec('simple-pendulum', simParams, integrationMethod, tolerances));
+      exportToCSV(data, 'simple-pendulum-data.csv');
     }),
     Reset: button(() => {
       const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
       if (resetFn) resetFn();
     }),
-  });
+  }, [simParams, integrationMethod, tolerances]);
 
   // Memoize to avoid creating new SimplePendulum instance on every render
   const meta = useMemo(() => new SimplePendulum().config.meta, []);
@@ -181,36 +344,39 @@ export function SimplePendulumScene() {
       >
         <SimulationRunner
           params={simParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
           onEnergyUpdate={handleEnergyUpdate}
+          onPeriodUpdate={setPeriod}
+          spectrum={spectrumSettings}
+          onSpectrumUpdate={setSpectrum}
           onReset={handleReset}
         />
       </SimulationCanvas>
 
-      <SimulationInfo meta={meta} params={simParams} showParams={false} />
-
-      {/* Theoretical period info */}
-      <div
-        style={{
-          position: 'absolute',
-          top: 180,
-          left: 20,
-          background: `${colors.panel}dd`,
-          borderRadius: 8,
-          padding: 10,
-          border: `1px solid ${colors.panelBorder}`,
-          fontFamily: 'monospace',
-          fontSize: 12,
-          color: colors.text,
-        }}
-      >
-        <div style={{ color: colors.textMuted, marginBottom: 4 }}>Theoretical Period (small angle)</div>
-        <div>T = 2π√(L/g) = {theoreticalPeriod.toFixed(4)}s</div>
-      </div>
+      <SimulationInfo meta={meta} params={simParams} showParams={false} stats={periodStats} />
 
       {showEnergy && <EnergyGraph history={energyHistory} />}
       {showPhaseSpace && phaseSpace.length > 0 && (
         <PhaseSpaceView data={phaseSpace} labels={['θ']} />
       )}
+      {spectrumControls.enabled && (
+        <SpectrumGraph
+          spectrum={spectrum}
+          maxFrequency={spectrumControls.maxFrequency}
+          logScale={spectrumControls.logScale}
+          markers={spectrumMarkers}
+          signalLabel={spectrumControls.signal}
+        />
+      )}
+      {periodGraph && (
+        <PeriodAmplitudeGraph
+          curve={periodCurve}
+          smallAnglePeriod={smallAnglePeriod}
+          current={period ?? undefined}
+        />
+      )}
+      {sweep.view && <SweepResultsView {...sweep.view} />}
     </div>
   );
 }
@@ -0,0 +1,255 @@
+/**
+ * SphericalPendulum
+ * Point mass on a rigid rod free to swing in any direction about the pivot
+ * Generic orbits are rosettes: the apsides precess in the sense of rotation
+ *
+ * Model Assumptions:
+ * - Rod is rigid, massless, and inextensible
+ * - All mass is concentrated at a point mass (bob)
+ * - Pivot is a frictionless ball joint; damping is linear in the angular rates
+ * - Gravitational field is uniform (constant g)
+ *
+ * Coordinates: θ is the polar angle from the downward vertical, φ the azimuth
+ * about the vertical. The scene is y-up, so the bob sits at
+ * (L sinθ cosφ, -L cosθ, L sinθ sinφ). φ is left unwrapped so the azimuth
+ * advance can be read straight off the state.
+ */
+
+import { BaseSimulation } from '../templates/BaseSimulation';
+import type {
+  SimulationConfig,
+  PhysicsState,
+  EnergyState,
+  PhasePoint,
+  Vector3,
+} from '../../core/types';
+import { clamp } from '../../utils/physics';
+
+export interface SphericalPendulumParams {
+  length: number;
+  mass: number;
+  gravity: number;
+  damping: number;
+  initialPolar: number;
+  initialAzimuth: number;
+  initialPolarVelocity: number;
+  initialAzimuthalVelocity: number;
+}
+
+// sinθ is kept at least this far from zero in the azimuthal equation, which
+// is singular when the bob passes directly under the pivot
+const MIN_SIN_POLAR = 1e-9;
+
+// Bisection iterations for the turning points of the polar motion
+const TURNING_POINT_ITERATIONS = 60;
+
+export class SphericalPendulum extends BaseSimulation {
+  // Pre-allocated buffer for derivatives to avoid allocation every call
+  private _derivBuffer: number[] = [0, 0, 0, 0];
+  // Scratch vectors for quantities derived from the bob's position
+  private _position: Vector3 = { x: 0, y: 0, z: 0 };
+  private _velocity: Vector3 = { x: 0, y: 0, z: 0 };
+
+  config: SimulationConfig = {
+    meta: {
+      id: 'spherical-pendulum',
+      name: 'Spherical Pendulum',
+      description: '',
+      category: 'pendulum',
+      tags: [],
+    },
+    defaultParams: {
+      length: { value: 2, min: 0.1, max: 10, step: 0.1, label: 'Length (m)' },
+      mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)' },
+      gravity: { value: 9.81, min: 0.1, max: 25, step: 0.01, label: 'Gravity (m/s²)' },
+      damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping' },
+      initialPolar: {
+        value: 0.6,
+        min: 0.01,
+        max: Math.PI - 0.01,
+        step: 0.01,
+        label: 'Initial θ (rad)',
+      },
+      initialAzimuth: {
+        value: 0,
+        min: -Math.PI,
+        max: Math.PI,
+        step: 0.01,
+        label: 'Initial φ (rad)',
+      },
+      initialPolarVelocity: {
+        value: 0,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial θ̇ (rad/s)',
+      },
+      initialAzimuthalVelocity: {
+        value: 1.2,
+        min: -10,
+        max: 10,
+        step: 0.1,
+        label: 'Initial φ̇ (rad/s)',
+      },
+    },
+    physics: {
+      gravity: 9.81,
+      damping: 0,
+      integrationMethod: 'rk4',
+      fixedTimestep: 1 / 240,
+    },
+    visualization: {
+      showTrails: true,
+      trailLength: 1000,
+      showVectors: false,
+      showEnergy: true,
+      showPhaseSpace: false,
+    },
+    camera: {
+      position: { x: 4, y: 2, z: 5 },
+      target: { x: 0, y: -1, z: 0 },
+      fov: 50,
+    },
+  };
+
+  protected get p(): SphericalPendulumParams {
+    return this.params as unknown as SphericalPendulumParams;
+  }
+
+  protected createInitialState(): number[] {
+    const p = this.p;
+    // State: [theta, phi, thetaDot, phiDot]
+    return [p.initialPolar, p.initialAzimuth, p.initialPolarVelocity, p.initialAzimuthalVelocity];
+  }
+
+  protected computeDerivatives(_t: number, state: number[]): number[] {
+    const p = this.p;
+    const [theta, , thetaDot, phiDot] = state;
+
+    const sinT = Math.sin(theta);
+    const cosT = Math.cos(theta);
+    const safeSin = Math.abs(sinT) < MIN_SIN_POLAR ? (sinT < 0 ? -MIN_SIN_POLAR : MIN_SIN_POLAR) : sinT;
+
+    // Euler-Lagrange equations of L = ½mL²(θ̇² + sin²θ φ̇²) + mgL cosθ
+    const thetaDDot = sinT * cosT * phiDot * phiDot - (p.gravity / p.length) * sinT - p.damping * thetaDot;
+    const phiDDot = (-2 * cosT * thetaDot * phiDot) / safeSin - p.damping * phiDot;
+
+    // Reuse pre-allocated buffer
+    this._derivBuffer[0] = thetaDot;
+    this._derivBuffer[1] = phiDot;
+    this._derivBuffer[2] = thetaDDot;
+    this._derivBuffer[3] = phiDDot;
+    return this._derivBuffer;
+  }
+
+  protected stateToPhysics(state: number[]): PhysicsState {
+    const position = { x: 0, y: 0, z: 0 };
+    const velocity = { x: 0, y: 0, z: 0 };
+    this.toCartesian(state, position, velocity);
+
+    return {
+      time: this.time,
+      positions: [position],
+      velocities: [velocity],
+    };
+  }
+
+  /**
+   * Bob position and velocity in scene coordinates (y up)
+   * Energy and angular momentum are computed from these, so subclasses that
+   * use a different chart only need to override this
+   */
+  protected toCartesian(state: number[], position: Vector3, velocity: Vector3): void {
+    const L = this.p.length;
+    const [theta, phi, thetaDot, phiDot] = state;
+
+    const sinT = Math.sin(theta);
+    const cosT = Math.cos(theta);
+    const sinP = Math.sin(phi);
+    const cosP = Math.cos(phi);
+
+    position.x = L * sinT * cosP;
+    position.y = -L * cosT;
+    position.z = L * sinT * sinP;
+    velocity.x = L * (cosT * cosP * thetaDot - sinT * sinP * phiDot);
+    velocity.y = L * sinT * thetaDot;
+    velocity.z = L * (cosT * sinP * thetaDot + sinT * cosP * phiDot);
+  }
+
+  getEnergy(): EnergyState {
+    const p = this.p;
+    const r = this._position;
+    const v = this._velocity;
+    this.toCartesian(this.state, r, v);
+
+    const kinetic = 0.5 * p.mass * (v.x * v.x + v.y * v.y + v.z * v.z);
+    const potential = p.mass * p.gravity * (p.length + r.y);
+
+    return {
+      kinetic,
+      potential,
+      total: kinetic + potential,
+    };
+  }
+
+  getPhaseSpace(): PhasePoint[] {
+    const [theta, , thetaDot] = this.state;
+    return [{ angle: theta, angularVelocity: thetaDot, time: this.time }];
+  }
+
+  /**
+   * Angular momentum about the vertical axis, Lz = m L² sin²θ φ̇
+   * Conserved in the undamped model since φ is cyclic
+   */
+  getAngularMomentumZ(state: number[] = this.state): number {
+    const r = this._position;
+    const v = this._velocity;
+    this.toCartesian(state, r, v);
+    return this.p.mass * (r.x * v.z - r.z * v.x);
+  }
+
+  /**
+   * Polar angles [θmin, θmax] between which the current orbit oscillates
+   * Roots of the effective potential at the current energy and Lz
+   */
+  getTurningPoints(): [number, number] {
+    const p = this.p;
+    const inertia = p.mass * p.length * p.length;
+    const lz = this.getAngularMomentumZ();
+    const energy = this.getEnergy().total;
+
+    const effective = (theta: number) => {
+      const s = Math.sin(theta);
+      return (lz * lz) / (2 * inertia * s * s) + p.mass * p.gravity * p.length * (1 - Math.cos(theta));
+    };
+
+    // Without Lz the orbit is planar and swings symmetrically through θ = 0
+    if (lz === 0) {
+      return [0, Math.acos(Math.max(-1, 1 - energy / (p.mass * p.gravity * p.length)))];
+    }
+
+    // The current θ always lies inside the well, so it brackets both roots
+    this.toCartesian(this.state, this._position, this._velocity);
+    const theta = Math.acos(clamp(-this._position.y / p.length, -1, 1));
+    const bisect = (a: number, b: number, rising: boolean) => {
+      for (let i = 0; i < TURNING_POINT_ITERATIONS; i++) {
+        const mid = (a + b) / 2;
+        if ((effective(mid) > energy) === rising) b = mid;
+        else a = mid;
+      }
+      return (a + b) / 2;
+    };
+
+    return [bisect(MIN_SIN_POLAR, theta, false), bisect(theta, Math.PI - MIN_SIN_POLAR, true)];
+  }
+
+  /**
+   * Small-amplitude apsidal precession rate (3/8) θmin θmax √(g/L)
+   * Signed with the sense of rotation (rad/s)
+   */
+  getTheoreticalPrecessionRate(): number {
+    const p = this.p;
+    const [thetaMin, thetaMax] = this.getTurningPoints();
+    return Math.sign(this.getAngularMomentumZ()) * (3 / 8) * thetaMin * thetaMax * Math.sqrt(p.gravity / p.length);
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * SphericalPendulumScene
+ * Complete scene for the spherical pendulum simulation
+ */
+
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useControls, button } from 'leva';
+import {
+  SimulationCanvas,
+  EnergyGraph,
+  GroundTrackView,
+  SimulationInfo,
+} from '../../core/components';
+import { useSimulationStore, useThemeStore } from '../../core/stores';
+import { useSimulation, useIntegratorControls } from '../templates';
+import { runSimulation, exportRunSpec } from '../runner';
+import { SphericalPendulum } from './SphericalPendulum';
+import { PendulumRenderer } from './PendulumRenderer';
+import { exportToCSV } from '../../utils';
+import { themes } from '../../core/types';
+import type { EnergyState, IntegrationMethod, Vector2 } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils';
+import { useApsideTracker } from '../../analysis';
+import type { Apside, ApsideTrackerConfig } from '../../analysis';
+
+// Apoapsides are maxima of θ, located in the unwrapped azimuth φ
+const APSIDE_CONFIG: ApsideTrackerConfig = {
+  radius: (state) => state[0],
+  radialVelocity: (state) => state[2],
+  azimuth: (state) => state[1],
+};
+
+// Ground track history and how often it is pushed to the UI (ms)
+const MAX_TRACK_POINTS = 2000;
+const ORBIT_UPDATE_INTERVAL = 100;
+
+interface OrbitInfo {
+  track: Vector2[];
+  angularMomentum: number;
+  turningPoints: [number, number];
+  theoreticalRate: number;
+}
+
+interface SimulationRunnerProps {
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  onEnergyUpdate: (energy: EnergyState) => void;
+  onOrbitUpdate: (orbit: OrbitInfo) => void;
+  onApsideUpdate: (apsides: Apside[], precessionRate: number) => void;
+  onReset: () => void;
+}
+
+function SimulationRunner({
+  params,
+  integrationMethod,
+  tolerances,
+  onEnergyUpdate,
+  onOrbitUpdate,
+  onApsideUpdate,
+  onReset,
+}: SimulationRunnerProps) {
+  const { simulation, physicsState, energy, reset } = useSimulation(
+    SphericalPendulum,
+    params,
+    { autoStart: false, recordTrails: true, recordPhaseSpace: true, integrationMethod, tolerances }
+  );
+
+  useApsideTracker(simulation, {
+    enabled: true,
+    config: APSIDE_CONFIG,
+    onUpdate: onApsideUpdate,
+  });
+
+  useEffect(() => {
+    onEnergyUpdate(energy);
+  }, [energy, onEnergyUpdate]);
+
+  // Ground track and conserved quantities, throttled
+  const trackRef = useRef<Vector2[]>([]);
+  const lastTimeRef = useRef<number>(0);
+  const lastOrbitUpdateRef = useRef<number>(0);
+
+  useEffect(() => {
+    const sim = simulation.current;
+    if (!physicsState || !(sim instanceof SphericalPendulum)) return;
+
+    // Time went backwards: the simulation was reset or re-initialized
+    if (physicsState.time < lastTimeRef.current) trackRef.current = [];
+    lastTimeRef.current = physicsState.time;
+
+    const bob = physicsState.positions[0];
+    trackRef.current.push({ x: bob.x, y: bob.z });
+    if (trackRef.current.length > MAX_TRACK_POINTS) trackRef.current.shift();
+
+    const now = performance.now();
+    if (now - lastOrbitUpdateRef.current >= ORBIT_UPDATE_INTERVAL) {
+      lastOrbitUpdateRef.current = now;
+      onOrbitUpdate({
+        track: [...trackRef.current],
+        angularMomentum: sim.getAngularMomentumZ(),
+        turningPoints: sim.getTurningPoints(),
+        theoreticalRate: sim.getTheoreticalPrecessionRate(),
+      });
+    }
+  }, [physicsState, simulation, onOrbitUpdate]);
+
+  useEffect(() => {
+    (window as unknown as { __simReset?: () => void }).__simReset = () => {
+      reset();
+      trackRef.current = [];
+      onReset();
+    };
+    return () => {
+      delete (window as unknown as { __simReset?: () => void }).__simReset;
+    };
+  }, [reset, onReset]);
+
+  return (
+    <PendulumRenderer
+      state={physicsState}
+      pivotPosition={{ x: 0, y: 0, z: 0 }}
+      massRadius={0.15}
+      rodRadius={0.03}
+    />
+  );
+}
+
+export function SphericalPendulumScene() {
+  // Simulation parameters
+  const simParams = useControls('Pendulum Parameters', {
+    length: { value: 2, min: 0.1, max: 5, step: 0.1, label: 'Length (m)', hint: 'Length of the pendulum rod in meters' },
+    mass: { value: 1, min: 0.1, max: 10, step: 0.1, label: 'Mass (kg)', hint: 'Mass of the pendulum bob in kilograms' },
+    gravity: { value: 9.81, min: 0.1, max: 25, step: 0.1, label: 'Gravity (m/s²)', hint: 'Gravitational acceleration (Earth: 9.81, Moon: 1.62)' },
+    damping: { value: 0, min: 0, max: 1, step: 0.01, label: 'Damping', hint: 'Energy dissipation coefficient (0 = ideal, Lz conserved)' },
+    initialPolar: { value: 0.6, min: 0.01, max: Math.PI - 0.01, step: 0.01, label: 'Initial θ', hint: 'Starting polar angle from the downward vertical (radians)' },
+    initialAzimuth: { value: 0, min: -Math.PI, max: Math.PI, step: 0.01, label: 'Initial φ', hint: 'Starting azimuth about the vertical (radians)' },
+    initialPolarVelocity: { value: 0, min: -10, max: 10, step: 0.1, label: 'Initial θ̇', hint: 'Initial polar angular velocity (rad/s)' },
+    initialAzimuthalVelocity: { value: 1.2, min: -10, max: 10, step: 0.1, label: 'Initial φ̇', hint: 'Initial azimuthal angular velocity (rad/s); 0 gives a planar swing' },
+  });
+
+  // Playback controls
+  const {
+    isPlaying,
+    speed,
+    showTrails,
+    showEnergy,
+    showPhaseSpace,
+    showGrid,
+    maxTrailLength,
+    play,
+    pause,
+    reset: resetStore,
+    setSpeed,
+    setShowTrails,
+    setShowEnergy,
+    setShowPhaseSpace,
+    setShowGrid,
+    setMaxTrailLength,
+    clearTrails,
+  } = useSimulationStore();
+
+  useControls('Playback', {
+    playing: { value: isPlaying, onChange: (v) => (v ? play() : pause()), hint: 'Start or pause the simulation' },
+    speed: { value: speed, min: 0.1, max: 5, step: 0.1, onChange: setSpeed, hint: 'Simulation speed multiplier (1x = real-time)' },
+  });
+
+  const { integrationMethod, tolerances } = useIntegratorControls();
+
+  useControls('Visualization', {
+    trails: { value: showTrails, onChange: setShowTrails, hint: 'Show motion trail behind the pendulum bob' },
+    trailLength: { value: maxTrailLength, min: 100, max: 2000, step: 100, onChange: setMaxTrailLength, hint: 'Maximum number of trail points to display' },
+    energy: { value: showEnergy, onChange: setShowEnergy, hint: 'Show real-time energy graph (KE, PE, Total)' },
+    groundTrack: { value: showPhaseSpace, onChange: setShowPhaseSpace, label: 'ground track', hint: 'Show the top-down path of the bob with its apsides' },
+    grid: { value: showGrid, onChange: setShowGrid, hint: 'Show reference grid in the scene' },
+    'Clear Trails': button(() => clearTrails()),
+  });
+
+  // Theme
+  const { themeName, setTheme, setColorOverride, colors } = useThemeStore();
+
+  useControls('Theme', {
+    preset: { value: themeName, options: Object.keys(themes), onChange: setTheme, hint: 'Visual theme preset (dark, neon, scientific)' },
+  });
+  useControls('Colors', {
+    mass: { value: colors.mass, onChange: (v: string) => setColorOverride('mass', v), hint: 'Color of the pendulum bob mass' },
+    rod: { value: colors.rod, onChange: (v: string) => setColorOverride('rod', v), hint: 'Color of the pendulum rod' },
+    trail: { value: colors.trail, onChange: (v: string) => setColorOverride('trail', v), hint: 'Color of the motion trail' },
+  });
+
+  // Energy history - limited to ~30 seconds of data to prevent memory buildup
+  const MAX_ENERGY_HISTORY = 900;
+  const [energyHistory, setEnergyHistory] = useState<EnergyState[]>([]);
+
+  // Throttle energy updates to avoid creating new arrays every frame
+  const lastEnergyUpdateRef = useRef<number>(0);
+  const energyBufferRef = useRef<EnergyState[]>([]);
+  const ENERGY_UPDATE_INTERVAL = 33; // ~30fps instead of 60fps
+
+  const handleEnergyUpdate = useCallback((energy: EnergyState) => {
+    if (energy.total > 0) {
+      const now = performance.now();
+      energyBufferRef.current.push(energy);
+
+      if (now - lastEnergyUpdateRef.current >= ENERGY_UPDATE_INTERVAL) {
+        lastEnergyUpdateRef.current = now;
+        const buffered = energyBufferRef.current;
+        energyBufferRef.current = [];
+
+        setEnergyHistory((prev) => {
+          const newLength = Math.min(prev.length + buffered.length, MAX_ENERGY_HISTORY);
+          const startIdx = prev.length + buffered.length - newLength;
+          const result = startIdx > 0
+            ? [...prev.slice(startIdx), ...buffered]
+            : [...prev, ...buffered];
+          return result.length > MAX_ENERGY_HISTORY ? result.slice(-MAX_ENERGY_HISTORY) : result;
+        });
+      }
+    }
+  }, []);
+
+  // Orbit geometry and apsidal precession
+  const [orbit, setOrbit] = useState<OrbitInfo | null>(null);
+  const [apsides, setApsides] = useState<Apside[]>([]);
+  const [precessionRate, setPrecessionRate] = useState(0);
+  const handleApsideUpdate = useCallback((next: Apside[], rate: number) => {
+    setApsides(next);
+    setPrecessionRate(rate);
+  }, []);
+
+  const handleReset = useCallback(() => {
+    resetStore();
+    setEnergyHistory([]);
+    setOrbit(null);
+  }, [resetStore]);
+
+  // Apsides projected onto the ground plane
+  const apsideMarkers = useMemo(
+    () =>
+      apsides.map((a) => ({
+        x: simParams.length * Math.sin(a.radius) * Math.cos(a.azimuth),
+        y: simParams.length * Math.sin(a.radius) * Math.sin(a.azimuth),
+      })),
+    [apsides, simParams.length]
+  );
+
+  useControls('Export', {
+    'Export CSV': button(() => {
+      const data = runSimulation(exportRunSpec('spherical-pendulum', simParams, integrationMethod, tolerances));
+      exportToCSV(data, 'spherical-pendulum-data.csv');
+    }),
+    Reset: button(() => {
+      const resetFn = (window as unknown as { __simReset?: () => void }).__simReset;
+      if (resetFn) resetFn();
+    }),
+  }, [simParams, integrationMethod, tolerances]);
+
+  // Memoize to avoid creating new SphericalPendulum instance on every render
+  const meta = useMemo(() => new SphericalPendulum().config.meta, []);
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
+      <SimulationCanvas
+        cameraPosition={{ x: 4, y: 2, z: 5 }}
+        cameraTarget={{ x: 0, y: -1, z: 0 }}
+        enablePostProcessing={false} // DISABLED FOR MEMORY TEST
+        lowPowerMode={true} // ENABLED FOR MEMORY TEST
+      >
+        <SimulationRunner
+          params={simParams}
+          integrationMethod={integrationMethod}
+          tolerances={tolerances}
+          onEnergyUpdate={handleEnergyUpdate}
+          onOrbitUpdate={setOrbit}
+          onApsideUpdate={handleApsideUpdate}
+          onReset={handleReset}
+        />
+      </SimulationCanvas>
+
+      <SimulationInfo meta={meta} params={simParams} showParams={false} />
+
+      {/* Conserved quantity and precession info */}
+      {orbit && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 180,
+            left: 20,
+            background: `${colors.panel}dd`,
+            borderRadius: 8,
+            padding: 10,
+            border: `1px solid ${colors.panelBorder}`,
+            fontFamily: 'monospace',
+            fontSize: 12,
+            color: colors.text,
+          }}
+        >
+          <div style={{ color: colors.textMuted, marginBottom: 4 }}>Orbit</div>
+          <div>Lz = mL²sin²θ φ̇ = {orbit.angularMomentum.toFixed(6)}</div>
+          <div>
+            θ ∈ [{orbit.turningPoints[0].toFixed(3)}, {orbit.turningPoints[1].toFixed(3)}] rad
+          </div>
+          <div style={{ color: colors.textMuted, margin: '6px 0 4px' }}>Apsidal Precession</div>
+          <div>measured: {apsides.length >= 2 ? `${precessionRate.toFixed(5)} rad/s` : '—'}</div>
+          <div>(3/8)θ₁θ₂√(g/L) = {orbit.theoreticalRate.toFixed(5)} rad/s</div>
+        </div>
+      )}
+
+      {showEnergy && <EnergyGraph history={energyHistory} />}
+      {showPhaseSpace && orbit && (
+        <GroundTrackView
+          points={orbit.track}
+          markers={apsideMarkers}
+          radius={simParams.length}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,14 @@
 export { SimplePendulum, type SimplePendulumParams } from './SimplePendulum';
 export { DoublePendulum, type DoublePendulumParams } from './DoublePendulum';
 export { NPendulum, type NPendulumParams } from './NPendulum';
+export { DrivenPendulum, type DrivenPendulumParams } from './DrivenPendulum';
+export { SphericalPendulum, type SphericalPendulumParams } from './SphericalPendulum';
+export { FoucaultPendulum, EARTH_ROTATION_RATE, type FoucaultPendulumParams } from './FoucaultPendulum';
+export { ElasticPendulum, type ElasticPendulumParams, type ElasticModeEnergies } from './ElasticPendulum';
+export { CartPole, type CartPoleParams } from './CartPole';
+export { KapitzaPendulum, invertedKapitzaSystem, type KapitzaPendulumParams } from './KapitzaPendulum';
+export { CoupledPendulums, type CoupledPendulumsParams, type NormalMode } from './CoupledPendulums';
+export { PendulumWave, type PendulumWaveParams } from './PendulumWave';
+export { NewtonsCradle, type NewtonsCradleParams, type ContactModel } from './NewtonsCradle';
+export { MagneticPendulum, type MagneticPendulumParams } from './MagneticPendulum';
+export * from './rigidBody';
@@ -0,0 +1,107 @@
+/**
+ * Rigid Bodies
+ * Mass properties of pendulum links made of a uniform arm and a shaped bob
+ *
+ * Everything is expressed in the link frame: y runs along the link from its
+ * pivot towards the bob, z is normal to the plane of motion, and x completes
+ * the right-handed set. Distances along the link are measured from the pivot.
+ * Planar motion only involves the z component of the inertia tensor, but the
+ * full tensor is kept so custom bodies can be described completely.
+ */
+
+export type BobShape = 'point' | 'sphere' | 'disk' | 'ring';
+
+// Symmetric inertia tensor about the centre of mass (kg·m²)
+export interface InertiaTensor {
+  xx: number;
+  yy: number;
+  zz: number;
+  xy: number;
+  xz: number;
+  yz: number;
+}
+
+export interface RigidLink {
+  mass: number;
+  // Distance of the centre of mass from the link's pivot along the link (m)
+  centerOfMass: number;
+  inertia: InertiaTensor;
+}
+
+export const ZERO_INERTIA: InertiaTensor = { xx: 0, yy: 0, zz: 0, xy: 0, xz: 0, yz: 0 };
+
+/**
+ * Thin uniform arm running from `offset` behind the pivot to `length` beyond it
+ * A non-zero offset models a pivot drilled into the arm rather than at its end.
+ */
+export function uniformRod(mass: number, length: number, offset = 0): RigidLink {
+  const span = length + offset;
+  const transverse = (mass * span * span) / 12;
+  return {
+    mass,
+    centerOfMass: (length - offset) / 2,
+    inertia: { ...ZERO_INERTIA, xx: transverse, zz: transverse },
+  };
+}
+
+/**
+ * Bob of the given shape centred `distance` along the link
+ * Disks and rings lie in the plane of motion, so they spin about their axis.
+ */
+export function shapedBob(shape: BobShape, mass: number, radius: number, distance: number): RigidLink {
+  const r2 = mass * radius * radius;
+  let inertia: InertiaTensor;
+
+  switch (shape) {
+    case 'sphere':
+      inertia = { ...ZERO_INERTIA, xx: 0.4 * r2, yy: 0.4 * r2, zz: 0.4 * r2 };
+      break;
+    case 'disk':
+      inertia = { ...ZERO_INERTIA, xx: 0.25 * r2, yy: 0.25 * r2, zz: 0.5 * r2 };
+      break;
+    case 'ring':
+      inertia = { ...ZERO_INERTIA, xx: 0.5 * r2, yy: 0.5 * r2, zz: r2 };
+      break;
+    case 'point':
+    default:
+      inertia = { ...ZERO_INERTIA };
+      break;
+  }
+
+  return { mass, centerOfMass: distance, inertia };
+}
+
+/**
+ * Lump parts attached to the same link into one rigid body
+ * Each tensor is moved to the combined centre of mass with the parallel-axis
+ * theorem; the parts sit on the link axis, so only xx and zz pick up m d².
+ */
+export function combineLinks(parts: RigidLink[]): RigidLink {
+  let mass = 0;
+  let moment = 0;
+  for (const part of parts) {
+    mass += part.mass;
+    moment += part.mass * part.centerOfMass;
+  }
+  const centerOfMass = mass > 0 ? moment / mass : 0;
+
+  const inertia = { ...ZERO_INERTIA };
+  for (const part of parts) {
+    const d = part.centerOfMass - centerOfMass;
+    inertia.xx += part.inertia.xx + part.mass * d * d;
+    inertia.yy += part.inertia.yy;
+    inertia.zz += part.inertia.zz + part.mass * d * d;
+    inertia.xy += part.inertia.xy;
+    inertia.xz += part.inertia.xz;
+    inertia.yz += part.inertia.yz;
+  }
+
+  return { mass, centerOfMass, inertia };
+}
+
+/**
+ * Moment of inertia about the pivot axis, I_zz + m c²
+ */
+export function pivotInertia(link: RigidLink): number {
+  return link.inertia.zz + link.mass * link.centerOfMass * link.centerOfMass;
+}
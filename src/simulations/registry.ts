@@ -0,0 +1,55 @@
+/**
+ * Simulation Registry
+ * Model classes keyed by their meta id, for code that picks a model by name
+ * (run specs, batch jobs). Imports no React or Three.js, so it loads in Node.
+ */
+
+import type { BaseSimulation } from './templates/BaseSimulation';
+import {
+  SimplePendulum,
+  DoublePendulum,
+  NPendulum,
+  DrivenPendulum,
+  SphericalPendulum,
+  FoucaultPendulum,
+  ElasticPendulum,
+  CartPole,
+  KapitzaPendulum,
+  CoupledPendulums,
+  PendulumWave,
+  NewtonsCradle,
+  MagneticPendulum,
+} from './pendulum';
+
+export type SimulationConstructor = new () => BaseSimulation;
+
+const modelClasses: SimulationConstructor[] = [
+  SimplePendulum,
+  DoublePendulum,
+  NPendulum,
+  DrivenPendulum,
+  SphericalPendulum,
+  FoucaultPendulum,
+  ElasticPendulum,
+  CartPole,
+  KapitzaPendulum,
+  CoupledPendulums,
+  PendulumWave,
+  NewtonsCradle,
+  MagneticPendulum,
+];
+
+export const simulationRegistry: Record<string, SimulationConstructor> = Object.fromEntries(
+  modelClasses.map((Model) => [new Model().config.meta.id, Model])
+);
+
+/**
+ * New, uninitialized instance of the model with this meta id
+ */
+export function createSimulationById(id: string): BaseSimulation {
+  const Model = simulationRegistry[id];
+  if (!Model) {
+    throw new Error(`Unknown model "${id}" (expected one of: ${Object.keys(simulationRegistry).join(', ')})`);
+  }
+  return new Model();
+}
@@ -0,0 +1,198 @@
+/**
+ * Headless Runner
+ * Runs any registered model from a plain run spec, without React or Three.js,
+ * and returns the same ExportData the in-app Export buttons produce
+ *
+ * Rows are sampled at a fixed rate in simulation time. Fixed-step integrators
+ * record every n-th step, with n rounded so a row lands on a step boundary;
+ * the adaptive integrator is stepped straight to each sample time.
+ */
+
+import type { ExportData, IntegrationMethod, PhasePoint, PhysicsState, EnergyState } from '../core/types';
+import { integrationMethodOptions } from '../core/types';
+import { DEFAULT_ABSOLUTE_TOLERANCE, DEFAULT_RELATIVE_TOLERANCE } from '../utils/physics';
+import type { AdaptiveTolerances } from '../utils/physics';
+import { createSimulationById } from './registry';
+import type { BaseSimulation } from './templates/BaseSimulation';
+
+export interface RunSpec {
+  // Meta id of the model, e.g. 'double-pendulum'
+  model: string;
+  // Overrides of the model's default parameters
+  params?: Record<string, unknown>;
+  integrator?: IntegrationMethod;
+  // Step size for fixed-step integrators (s); defaults to the model's own
+  timestep?: number;
+  // Error tolerances for the adaptive integrator
+  tolerances?: { absolute?: number; relative?: number };
+  // Simulated time (s)
+  duration: number;
+  // Rows per second of simulated time
+  sampleRate?: number;
+}
+
+export const DEFAULT_SAMPLE_RATE = 60;
+
+// Simulated time covered by the in-app Export buttons (s)
+export const EXPORT_DURATION = 20;
+
+const SPEC_KEYS = ['model', 'params', 'integrator', 'timestep', 'tolerances', 'duration', 'sampleRate'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function positiveNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Check a parsed JSON/YAML document against the run spec shape
+ * Unknown keys and parameters are rejected, so a typo cannot silently fall
+ * back to a default.
+ */
+export function parseRunSpec(raw: unknown): RunSpec {
+  if (!isRecord(raw)) throw new Error('Run spec must be a mapping');
+
+  for (const key of Object.keys(raw)) {
+    if (!SPEC_KEYS.includes(key)) {
+      throw new Error(`Unknown run spec key "${key}" (expected one of: ${SPEC_KEYS.join(', ')})`);
+    }
+  }
+
+  if (typeof raw.model !== 'string') throw new Error('model must be a model id string');
+  const sim = createSimulationById(raw.model);
+  const spec: RunSpec = { model: raw.model, duration: positiveNumber(raw.duration, 'duration') };
+
+  if (raw.params !== undefined) {
+    if (!isRecord(raw.params)) throw new Error('params must be a mapping');
+    const known = Object.keys(sim.config.defaultParams);
+    for (const key of Object.keys(raw.params)) {
+      if (!known.includes(key)) {
+        throw new Error(`Unknown parameter "${key}" for ${raw.model} (expected one of: ${known.join(', ')})`);
+      }
+    }
+    spec.params = raw.params;
+  }
+
+  if (raw.integrator !== undefined) {
+    const methods: unknown[] = Object.values(integrationMethodOptions);
+    if (!methods.includes(raw.integrator)) {
+      throw new Error(`integrator must be one of: ${methods.join(', ')}`);
+    }
+    spec.integrator = raw.integrator as IntegrationMethod;
+  }
+
+  if (raw.timestep !== undefined) spec.timestep = positiveNumber(raw.timestep, 'timestep');
+  if (raw.sampleRate !== undefined) spec.sampleRate = positiveNumber(raw.sampleRate, 'sampleRate');
+
+  if (raw.tolerances !== undefined) {
+    if (!isRecord(raw.tolerances)) throw new Error('tolerances must be a mapping of absolute and relative');
+    spec.tolerances = {};
+    for (const [key, value] of Object.entries(raw.tolerances)) {
+      if (key !== 'absolute' && key !== 'relative') {
+        throw new Error(`Unknown tolerance "${key}" (expected absolute or relative)`);
+      }
+      spec.tolerances[key] = positiveNumber(value, `tolerances.${key}`);
+    }
+  }
+
+  return spec;
+}
+
+/**
+ * Initialized instance of the spec's model with its integrator settings applied
+ */
+export function createRunSimulation(spec: RunSpec): BaseSimulation {
+  const sim = createSimulationById(spec.model);
+  sim.init(spec.params ?? {});
+  if (spec.integrator) sim.setIntegrationMethod(spec.integrator);
+  if (spec.timestep) sim.config.physics.fixedTimestep = spec.timestep;
+  if (spec.tolerances) {
+    sim.setTolerances(
+      spec.tolerances.absolute ?? DEFAULT_ABSOLUTE_TOLERANCE,
+      spec.tolerances.relative ?? DEFAULT_RELATIVE_TOLERANCE
+    );
+  }
+  return sim;
+}
+
+/**
+ * Run spec for a scene's Export buttons: the model with the scene's current
+ * parameters and integrator settings, over EXPORT_DURATION at the default
+ * sample rate, so a download matches a CLI run of the same spec
+ */
+export function exportRunSpec(
+  model: string,
+  params: Record<string, unknown>,
+  integrator: IntegrationMethod,
+  tolerances: AdaptiveTolerances
+): RunSpec {
+  return {
+    model,
+    params,
+    integrator,
+    tolerances: { absolute: tolerances.absoluteTolerance, relative: tolerances.relativeTolerance },
+    duration: EXPORT_DURATION,
+    sampleRate: DEFAULT_SAMPLE_RATE,
+  };
+}
+
+/**
+ * Run a spec to completion and collect its time series
+ * The first row is the initial state at t = 0.
+ * @param configure Extra setup the spec cannot express (e.g. a scene's
+ *   cart-pole controller), applied before the first step
+ */
+export function runSimulation(spec: RunSpec, configure?: (sim: BaseSimulation) => void): ExportData {
+  const sim = createRunSimulation(spec);
+  configure?.(sim);
+  // Models with event logs (collisions) only keep them while recording
+  sim.enableRecording(true);
+
+  const time: number[] = [];
+  const positions: PhysicsState['positions'][] = [];
+  const velocities: PhysicsState['velocities'][] = [];
+  const energy: EnergyState[] = [];
+  const phaseSpace: PhasePoint[][] = [];
+
+  const record = (physics: PhysicsState) => {
+    time.push(sim.getTime());
+    positions.push([...physics.positions]);
+    velocities.push([...physics.velocities]);
+    energy.push(sim.getEnergy());
+    sim.getPhaseSpace?.().forEach((point, i) => {
+      (phaseSpace[i] ??= []).push(point);
+    });
+  };
+
+  const interval = 1 / (spec.sampleRate ?? DEFAULT_SAMPLE_RATE);
+  record(sim.getPhysicsState());
+
+  if (sim.getIntegrationMethod() === 'dopri5') {
+    const samples = Math.floor(spec.duration / interval + 1e-9);
+    for (let i = 1; i <= samples; i++) {
+      record(sim.step(i * interval - sim.getTime()));
+    }
+  } else {
+    const h = sim.config.physics.fixedTimestep;
+    const stepsPerSample = Math.max(1, Math.round(interval / h));
+    const steps = Math.round(spec.duration / h);
+    for (let i = 1; i <= steps; i++) {
+      const physics = sim.step(h);
+      if (i % stepsPerSample === 0) record(physics);
+    }
+  }
+
+  const { meta, params, collisions } = sim.export();
+  return {
+    meta,
+    params,
+    timeSeries: { time, positions, velocities, energy },
+    phaseSpace: phaseSpace.length > 0 ? phaseSpace : undefined,
+    collisions,
+  };
+}
@@ -12,8 +12,33 @@ import type {
   PhasePoint,
   ExportData,
   Vector3,
+  IntegrationMethod,
+  IntegrationStats,
+  StepObserver,
+  SimulationEvent,
 } from '../../core/types';
-import { rk4, euler } from '../../utils/physics';
+import {
+  rk4,
+  euler,
+  leapfrog,
+  yoshida4,
+  implicitMidpoint,
+  gaussLegendre4,
+  dormandPrince,
+  evaluateDenseOutput,
+  adaptiveStepFactor,
+  createIntegratorWorkspace,
+  DEFAULT_ABSOLUTE_TOLERANCE,
+  DEFAULT_RELATIVE_TOLERANCE,
+} from '../../utils/physics';
+import type { DenseOutput, IntegratorWorkspace, State } from '../../utils/physics';
+
+// Upper bound on events resolved inside one step, so chattering contacts cannot stall a frame
+const MAX_EVENTS_PER_STEP = 64;
+
+// Event times are located to within this many seconds, relative to the time
+// itself once that exceeds 1 s
+const EVENT_TIME_TOLERANCE = 1e-12;
 
 export abstract class BaseSimulation implements Simulation {
   abstract config: SimulationConfig;
@@ -35,6 +60,26 @@ export abstract class BaseSimulation implements Simulation {
   // Flag to control history recording - disable during real-time playback
   protected recordingEnabled: boolean = false;
 
+  // Per-instance integrator scratch buffers (grow to fit the state)
+  private workspace: IntegratorWorkspace = createIntegratorWorkspace();
+
+  // Listeners notified after every integrator step (for event/section detection)
+  private stepObservers: StepObserver[] = [];
+
+  // Listeners notified when the state jumps without being integrated
+  private discontinuityObservers: (() => void)[] = [];
+
+  // Step counters (rejections only happen with the adaptive integrator)
+  protected stats: IntegrationStats = { acceptedSteps: 0, rejectedSteps: 0, lastStepSize: 0 };
+
+  // Adaptive integrator frontier: the solver runs ahead of `time` and the
+  // reported state is interpolated from the last accepted step's dense output
+  private adaptiveTime: number = 0;
+  private adaptiveState: State | null = null;
+  private adaptiveDerivative: State | null = null;
+  private adaptiveStepSize: number = 0;
+  private adaptiveDense: DenseOutput | null = null;
+
   /**
    * Initialize the simulation with parameters
    */
@@ -43,6 +88,7 @@ export abstract class BaseSimulation implements Simulation {
     this.time = 0;
     this.state = this.createInitialState();
     this.initialState = [...this.state];
+    this.resetIntegrator();
     this.clearHistory();
   }
 
@@ -72,30 +118,40 @@ export abstract class BaseSimulation implements Simulation {
    */
   protected abstract stateToPhysics(state: number[]): PhysicsState;
 
+  /**
+   * Event functions for models with discontinuities, e.g. contact gaps - optional
+   * An event fires whenever one of them changes sign during a step.
+   */
+  protected eventFunctions?(t: number, state: number[]): number[];
+
+  /**
+   * Resolve an event located by the stepper and return the state to continue from - optional
+   * Collision models apply their impulses here.
+   */
+  protected handleEvent?(event: SimulationEvent, state: number[]): number[];
+
+  /**
+   * Indices of the state entries that are swing angles - optional
+   * Each is zero hanging straight down and unwrapped, so |θ| > π means the
+   * bob went over the top. Angle-based analysis is only offered for models
+   * that declare them.
+   */
+  getAngleIndices?(): number[];
+
   /**
    * Step the simulation forward
+   * Fixed-step methods advance by fixedTimestep; the adaptive method advances by dt.
+   * Steps are split at events, which the model resolves before integration resumes.
    */
   step(dt: number): PhysicsState {
     const { integrationMethod, fixedTimestep } = this.config.physics;
-    const actualDt = fixedTimestep || dt;
 
-    // Choose integration method
-    switch (integrationMethod) {
-      case 'euler':
-        this.state = euler(this.state, this.time, actualDt, (t, s) =>
-          this.computeDerivatives(t, s)
-        );
-        break;
-      case 'rk4':
-      default:
-        this.state = rk4(this.state, this.time, actualDt, (t, s) =>
-          this.computeDerivatives(t, s)
-        );
-        break;
+    if (integrationMethod === 'dopri5') {
+      this.stepAdaptive(dt);
+    } else {
+      this.stepFixed(fixedTimestep || dt);
     }
 
-    this.time += actualDt;
-
     // Get physics state
     const physicsState = this.stateToPhysics(this.state);
 
@@ -105,6 +161,228 @@ export abstract class BaseSimulation implements Simulation {
     return physicsState;
   }
 
+  /**
+   * Single step of the configured fixed-step integrator, from state at t over h
+   */
+  private advance(state: number[], t: number, h: number): number[] {
+    const derivatives = (time: number, s: number[]) => this.computeDerivatives(time, s);
+
+    switch (this.config.physics.integrationMethod) {
+      case 'euler':
+        return euler(state, t, h, derivatives);
+      case 'verlet':
+        return leapfrog(state, t, h, derivatives);
+      case 'yoshida4':
+        return yoshida4(state, t, h, derivatives);
+      case 'midpoint':
+        return implicitMidpoint(state, t, h, derivatives);
+      case 'gauss4':
+        return gaussLegendre4(state, t, h, derivatives);
+      case 'rk4':
+      default:
+        return rk4(state, t, h, derivatives, this.workspace);
+    }
+  }
+
+  /**
+   * Advance by one fixed step h, stopping at every event inside it
+   * Each event is located by bisecting the length of a fresh sub-step from the
+   * last stop, so the integrator's order is kept up to the event time.
+   */
+  private stepFixed(h: number): void {
+    let t = this.time;
+    let state = this.state;
+    let remaining = h;
+    let next = this.advance(state, t, remaining);
+
+    for (let count = 0; this.eventFunctions && count < MAX_EVENTS_PER_STEP; count++) {
+      const before = [...this.eventFunctions(t, state)];
+      if (!this.findCrossing(before, this.eventFunctions(t + remaining, next))) break;
+
+      // Shrink the sub-step until it ends just past the first crossing
+      let lo = 0;
+      let hi = remaining;
+      let atEvent = next;
+      while (hi - lo > EVENT_TIME_TOLERANCE) {
+        const mid = (lo + hi) / 2;
+        const trial = this.advance(state, t, mid);
+        if (this.findCrossing(before, this.eventFunctions(t + mid, trial))) {
+          hi = mid;
+          atEvent = trial;
+        } else {
+          lo = mid;
+        }
+      }
+
+      const crossing = this.findCrossing(before, this.eventFunctions(t + hi, atEvent));
+      this.notifyStepObservers(t, state, t + hi, atEvent);
+      t += hi;
+      remaining -= hi;
+      state = crossing && this.handleEvent ? this.handleEvent({ ...crossing, time: t }, [...atEvent]) : atEvent;
+      next = remaining > 0 ? this.advance(state, t, remaining) : state;
+    }
+
+    if (remaining > 0) this.notifyStepObservers(t, state, t + remaining, next);
+    this.state = next;
+    this.time += h;
+    this.stats.acceptedSteps++;
+    this.stats.lastStepSize = h;
+  }
+
+  /**
+   * First event function whose sign differs between two evaluations
+   */
+  private findCrossing(before: number[], after: number[]): { index: number; direction: 1 | -1 } | null {
+    for (let i = 0; i < before.length; i++) {
+      if (before[i] > 0 && after[i] <= 0) return { index: i, direction: -1 };
+      if (before[i] <= 0 && after[i] > 0) return { index: i, direction: 1 };
+    }
+    return null;
+  }
+
+  /**
+   * Advance to time + dt with Dormand-Prince, taking as many internal steps as the
+   * tolerances require and sampling the dense output at the target time
+   */
+  private stepAdaptive(dt: number): void {
+    const { fixedTimestep, absoluteTolerance, relativeTolerance } = this.config.physics;
+    const tolerances = {
+      absoluteTolerance: absoluteTolerance ?? DEFAULT_ABSOLUTE_TOLERANCE,
+      relativeTolerance: relativeTolerance ?? DEFAULT_RELATIVE_TOLERANCE,
+    };
+    const target = this.time + dt;
+    const derivatives = (t: number, s: number[]) => this.computeDerivatives(t, s);
+
+    if (!this.adaptiveState) {
+      this.adaptiveTime = this.time;
+      this.adaptiveState = [...this.state];
+      this.adaptiveDerivative = null;
+      this.adaptiveDense = null;
+      this.adaptiveStepSize = this.adaptiveStepSize || fixedTimestep || dt;
+    }
+
+    while (this.adaptiveTime < target) {
+      const h = this.adaptiveStepSize;
+      const result = dormandPrince(
+        this.adaptiveState,
+        this.adaptiveTime,
+        h,
+        derivatives,
+        tolerances,
+        this.adaptiveDerivative ?? undefined
+      );
+      const factor = adaptiveStepFactor(result.errorNorm);
+
+      // Accept if within tolerance, or if the step has collapsed to round-off size
+      const minStep = 1e-12 * Math.max(1, Math.abs(this.adaptiveTime));
+      if ((result.errorNorm <= 1 || h <= minStep) && this.eventFunctions) {
+        const before = [...this.eventFunctions(this.adaptiveTime, this.adaptiveState)];
+        if (this.findCrossing(before, this.eventFunctions(this.adaptiveTime + h, result.state))) {
+          // Locate the event on the step's dense output and restart from it.
+          // The offset into the step is bisected rather than the absolute time,
+          // which runs out of resolution long before a run does.
+          const stepStart = this.adaptiveTime;
+          const tolerance = EVENT_TIME_TOLERANCE * Math.max(1, Math.abs(stepStart));
+          let lo = 0;
+          let hi = h;
+          let atEvent = result.state;
+          while (hi - lo > tolerance) {
+            const mid = (lo + hi) / 2;
+            if (mid === lo || mid === hi) break;
+            const trial = evaluateDenseOutput(result.dense, stepStart + mid);
+            if (this.findCrossing(before, this.eventFunctions(stepStart + mid, trial))) {
+              hi = mid;
+              atEvent = trial;
+            } else {
+              lo = mid;
+            }
+          }
+
+          const eventTime = stepStart + hi;
+          const crossing = this.findCrossing(before, this.eventFunctions(eventTime, atEvent));
+          this.notifyStepObservers(stepStart, this.adaptiveState, eventTime, atEvent);
+          this.adaptiveTime = eventTime;
+          this.adaptiveState =
+            crossing && this.handleEvent ? this.handleEvent({ ...crossing, time: eventTime }, [...atEvent]) : atEvent;
+          // The derivative jumps at the event; the dense output stays valid up to it
+          this.adaptiveDerivative = null;
+          this.adaptiveDense = result.dense;
+          this.stats.acceptedSteps++;
+          this.stats.lastStepSize = hi;
+          continue;
+        }
+      }
+
+      if (result.errorNorm <= 1 || h <= minStep) {
+        this.notifyStepObservers(this.adaptiveTime, this.adaptiveState, this.adaptiveTime + h, result.state);
+        this.adaptiveTime += h;
+        this.adaptiveState = result.state;
+        this.adaptiveDerivative = result.finalDerivative;
+        this.adaptiveDense = result.dense;
+        this.adaptiveStepSize = h * factor;
+        this.stats.acceptedSteps++;
+        this.stats.lastStepSize = h;
+      } else {
+        this.adaptiveStepSize = h * Math.min(factor, 1);
+        this.stats.rejectedSteps++;
+      }
+    }
+
+    // Sample at the target time (inside the last accepted step, or at the frontier)
+    this.state =
+      this.adaptiveDense && target < this.adaptiveTime
+        ? evaluateDenseOutput(this.adaptiveDense, target)
+        : [...this.adaptiveState];
+    this.time = target;
+  }
+
+  /**
+   * Register a listener for every integrator step; returns an unsubscribe function
+   * For the adaptive integrator these are the internal accepted steps, not frame samples.
+   */
+  addStepObserver(observer: StepObserver): () => void {
+    this.stepObservers.push(observer);
+    return () => {
+      this.stepObservers = this.stepObservers.filter((o) => o !== observer);
+    };
+  }
+
+  /**
+   * Register a listener for jumps in the trajectory (setState); returns an
+   * unsubscribe function
+   * Step observers see no step across the jump, so anything accumulated from
+   * consecutive steps (section orbits, sampled signals) should start over.
+   */
+  addDiscontinuityObserver(observer: () => void): () => void {
+    this.discontinuityObservers.push(observer);
+    return () => {
+      this.discontinuityObservers = this.discontinuityObservers.filter((o) => o !== observer);
+    };
+  }
+
+  private notifyStepObservers(
+    previousTime: number,
+    previousState: number[],
+    time: number,
+    state: number[]
+  ): void {
+    if (this.stepObservers.length === 0) return;
+    const previous = { time: previousTime, state: previousState };
+    const current = { time, state };
+    for (const observer of this.stepObservers) observer(previous, current);
+  }
+
+  /**
+   * Discard adaptive integrator state and step counters
+   */
+  protected resetIntegrator(): void {
+    this.adaptiveState = null;
+    this.adaptiveDerivative = null;
+    this.adaptiveDense = null;
+    this.adaptiveStepSize = 0;
+    this.stats = { acceptedSteps: 0, rejectedSteps: 0, lastStepSize: 0 };
+  }
+
   /**
    * Record current state to history
    * NOTE: Disabled by default during real-time playback to prevent memory leaks.
@@ -177,6 +455,7 @@ export abstract class BaseSimulation implements Simulation {
   reset(): void {
     this.time = 0;
     this.state = [...this.initialState];
+    this.resetIntegrator();
     this.clearHistory();
   }
 
@@ -197,6 +476,68 @@ export abstract class BaseSimulation implements Simulation {
     };
   }
 
+  /**
+   * Positions and velocities of the current state, as step() returns them
+   */
+  getPhysicsState(): PhysicsState {
+    return this.stateToPhysics(this.state);
+  }
+
+  /**
+   * Get a copy of the raw state vector
+   */
+  getState(): number[] {
+    return [...this.state];
+  }
+
+  /**
+   * Replace the raw state vector and time, e.g. to start a perturbed copy of a run
+   * The integrator restarts from the new state; recorded history is kept, and
+   * discontinuity observers are told the trajectory jumped
+   */
+  setState(state: number[], time: number = this.time): void {
+    this.state = [...state];
+    this.time = time;
+    this.resetIntegrator();
+    for (const observer of this.discontinuityObservers) observer();
+  }
+
+  /**
+   * Follow a state integrated elsewhere (a physics worker) as if this instance
+   * had stepped to it, so step observers on a main-thread mirror keep working
+   */
+  syncState(state: number[], time: number): void {
+    const next = [...state];
+    this.notifyStepObservers(this.time, this.state, time, next);
+    this.state = next;
+    this.time = time;
+    this.resetIntegrator();
+  }
+
+  /**
+   * Evaluate the equations of motion at an arbitrary state (used by analysis tools)
+   * The returned array may be a reused buffer, so copy it before the next call.
+   */
+  evaluateDerivatives(t: number, state: number[]): number[] {
+    return this.computeDerivatives(t, state);
+  }
+
+  /**
+   * Evaluate the energy at an arbitrary state (used by analysis tools)
+   */
+  evaluateEnergy(t: number, state: number[]): EnergyState {
+    const savedTime = this.time;
+    const savedState = this.state;
+    this.time = t;
+    this.state = state;
+    try {
+      return this.getEnergy();
+    } finally {
+      this.time = savedTime;
+      this.state = savedState;
+    }
+  }
+
   /**
    * Get current simulation time
    */
@@ -211,6 +552,40 @@ export abstract class BaseSimulation implements Simulation {
     return { ...this.params };
   }
 
+  /**
+   * Get the active integration method
+   */
+  getIntegrationMethod(): IntegrationMethod {
+    return this.config.physics.integrationMethod;
+  }
+
+  /**
+   * Switch integration method (takes effect on the next step)
+   */
+  setIntegrationMethod(method: IntegrationMethod): void {
+    if (method !== this.config.physics.integrationMethod) {
+      this.resetIntegrator();
+    }
+    this.config.physics.integrationMethod = method;
+  }
+
+  /**
+   * Set error tolerances for the adaptive integrator
+   */
+  setTolerances(absoluteTolerance: number, relativeTolerance: number): void {
+    this.config.physics.absoluteTolerance = absoluteTolerance;
+    this.config.physics.relativeTolerance = relativeTolerance;
+    // Restart from the current state so the next step uses the new tolerances
+    this.adaptiveState = null;
+  }
+
+  /**
+   * Get accepted/rejected step counts
+   */
+  getIntegrationStats(): IntegrationStats {
+    return { ...this.stats };
+  }
+
   /**
    * Update parameters (requires re-initialization for some)
    */
@@ -0,0 +1,219 @@
+/**
+ * SimulationWorker
+ * Main-thread handle on a physics loop running in a dedicated Web Worker
+ *
+ * The worker owns the integration: it steps its own copy of the model against
+ * the wall clock and writes every state into a StateRing. Each frame the
+ * renderer replays the new states onto a main-thread mirror of the model,
+ * whose getters (energy, phase space, model-specific readouts) and step
+ * observers (Poincaré sections, spectra) then work exactly as if it were
+ * being stepped locally. Only state in the state vector crosses over, so
+ * models that keep extra bookkeeping outside it (collision logs, say) only
+ * have it in the worker.
+ *
+ * Commands travel over the typed protocol below. A reset or parameter change
+ * starts a new generation; states the worker wrote before it saw the command
+ * are skipped.
+ */
+
+import type { BaseSimulation } from './BaseSimulation';
+import { StateRing } from './stateRing';
+import type { IntegrationMethod, IntegrationStats } from '../../core/types';
+import { DEFAULT_ABSOLUTE_TOLERANCE, DEFAULT_RELATIVE_TOLERANCE } from '../../utils/physics';
+import type { AdaptiveTolerances } from '../../utils/physics';
+
+// Where the worker should continue from after a reset or parameter change
+interface RestartCommand {
+  generation: number;
+  params: Record<string, unknown>;
+  state: number[];
+  time: number;
+  // Shared ring to write into from now on (the first one, or one resized
+  // for a new state dimension); null keeps the current ring or transfer mode
+  ring: SharedArrayBuffer | null;
+}
+
+export type SimulationCommand =
+  | (RestartCommand & {
+      type: 'init';
+      model: string;
+      integrationMethod: IntegrationMethod;
+      tolerances: AdaptiveTolerances;
+      speed: number;
+      playing: boolean;
+    })
+  | (RestartCommand & { type: 'restart' })
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'speed'; speed: number }
+  | { type: 'integrator'; method: IntegrationMethod }
+  | { type: 'tolerances'; tolerances: AdaptiveTolerances };
+
+export type SimulationReport =
+  // States as [generation, time, ...state] slots, when the ring is not shared
+  | { type: 'states'; dimension: number; slots: Float64Array }
+  | { type: 'stats'; stats: IntegrationStats }
+  | { type: 'error'; message: string };
+
+// States buffered between renders; several frames' worth at the highest speed
+const RING_CAPACITY = 2048;
+
+interface SimulationWorkerOptions {
+  speed: number;
+  playing: boolean;
+}
+
+export class SimulationWorker {
+  private worker: Worker;
+  private shared: boolean;
+  private ring: StateRing;
+  private generation: number = 0;
+  private lastRead: number = 0;
+  private scratch: number[];
+  private stats: IntegrationStats | null = null;
+  private failure: string | null = null;
+
+  /**
+   * Start a worker running the mirror's model, with its integrator settings,
+   * from the mirror's current state
+   */
+  constructor(mirror: BaseSimulation, options: SimulationWorkerOptions) {
+    this.shared = StateRing.canShare();
+    this.ring = StateRing.create(mirror.getState().length, RING_CAPACITY, this.shared);
+    this.scratch = new Array(this.ring.dimension).fill(0);
+
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<SimulationReport>) => this.receive(event.data);
+    this.worker.onerror = (event) => {
+      this.failure = event.message || 'Physics worker failed to start';
+    };
+
+    const { absoluteTolerance, relativeTolerance } = mirror.config.physics;
+    this.send({
+      type: 'init',
+      model: mirror.config.meta.id,
+      integrationMethod: mirror.getIntegrationMethod(),
+      tolerances: {
+        absoluteTolerance: absoluteTolerance ?? DEFAULT_ABSOLUTE_TOLERANCE,
+        relativeTolerance: relativeTolerance ?? DEFAULT_RELATIVE_TOLERANCE,
+      },
+      ...this.restartCommand(mirror, true),
+      ...options,
+    });
+  }
+
+  play(): void {
+    this.send({ type: 'play' });
+  }
+
+  pause(): void {
+    this.send({ type: 'pause' });
+  }
+
+  setSpeed(speed: number): void {
+    this.send({ type: 'speed', speed });
+  }
+
+  setIntegrationMethod(method: IntegrationMethod): void {
+    this.send({ type: 'integrator', method });
+  }
+
+  setTolerances(tolerances: AdaptiveTolerances): void {
+    this.send({ type: 'tolerances', tolerances });
+  }
+
+  /**
+   * Continue from the mirror's state after it was reset or re-initialized
+   */
+  restart(mirror: BaseSimulation): void {
+    this.send({ type: 'restart', ...this.restartCommand(mirror) });
+  }
+
+  /**
+   * Replay the states the worker has produced since the last call onto the
+   * mirror; returns whether it moved
+   * A mirror that fell more than the ring's capacity behind (a hidden tab, say)
+   * jumps straight to the newest state; its discontinuity observers are told,
+   * so analyses built up from consecutive steps start over.
+   * @param onState Called after each state is applied; `continuous` is false
+   *   for such a jump
+   */
+  sync(mirror: BaseSimulation, onState?: (continuous: boolean) => void): boolean {
+    const written = this.ring.getWritten();
+    const behind = written - this.lastRead > this.ring.capacity;
+    let moved = false;
+
+    for (let i = behind ? written - 1 : this.lastRead; i < written; i++) {
+      const { generation, time } = this.ring.read(i, this.scratch);
+      if (generation !== this.generation) continue;
+      if (behind) mirror.setState(this.scratch, time);
+      else mirror.syncState(this.scratch, time);
+      onState?.(!behind);
+      moved = true;
+    }
+
+    this.lastRead = written;
+    return moved;
+  }
+
+  /**
+   * Adaptive integrator counters, as last reported by the worker
+   */
+  getStats(): IntegrationStats | null {
+    return this.stats;
+  }
+
+  /**
+   * Why the worker stopped, if it did; the caller can carry on locally
+   */
+  getFailure(): string | null {
+    return this.failure;
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+  }
+
+  /**
+   * @param initial The worker has no ring yet, so a shared one must be sent
+   */
+  private restartCommand(mirror: BaseSimulation, initial = false): RestartCommand {
+    this.generation++;
+
+    // A new state dimension (a longer chain, say) needs a ring to match
+    const dimension = mirror.getState().length;
+    const resized = dimension !== this.ring.dimension;
+    if (resized) {
+      this.ring = StateRing.create(dimension, RING_CAPACITY, this.shared);
+      this.scratch = new Array(dimension).fill(0);
+      this.lastRead = 0;
+    }
+
+    return {
+      generation: this.generation,
+      params: mirror.getParams(),
+      state: mirror.getState(),
+      time: mirror.getTime(),
+      ring: this.shared && (initial || resized) ? (this.ring.buffer as SharedArrayBuffer) : null,
+    };
+  }
+
+  private receive(report: SimulationReport): void {
+    switch (report.type) {
+      case 'states':
+        // Batches written before a dimension change belong to an old generation
+        if (report.dimension === this.ring.dimension) this.ring.pushSlots(report.slots);
+        break;
+      case 'stats':
+        this.stats = report.stats;
+        break;
+      case 'error':
+        this.failure = report.message;
+        break;
+    }
+  }
+
+  private send(command: SimulationCommand): void {
+    this.worker.postMessage(command);
+  }
+}
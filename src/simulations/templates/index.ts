@@ -1,2 +1,5 @@
 export { BaseSimulation } from './BaseSimulation';
 export { useSimulation } from './useSimulation';
+export { useIntegratorControls } from './useIntegratorControls';
+export { useParameterSweep } from './useParameterSweep';
+export { SimulationWorker, type SimulationCommand, type SimulationReport } from './SimulationWorker';
@@ -0,0 +1,162 @@
+/**
+ * Playback
+ * How much simulation a frame of wall-clock time buys, shared by the
+ * main-thread loop in useSimulation and the physics worker
+ *
+ * Fixed-step integrators run off a time accumulator: each frame adds its
+ * (speed-scaled) duration, whole steps are taken while a full step's worth
+ * is banked, and the remainder carries over to the next frame. Simulated time
+ * therefore tracks wall-clock time without overshooting, and the sequence of
+ * physics states depends only on the timestep, never on the display's
+ * refresh rate. What is drawn is interpolated between the last two states by
+ * the fraction of a step left in the accumulator.
+ *
+ * When a worker integrates, the renderer instead follows the states it
+ * streams back, drawing them at a time that advances with the wall clock and
+ * interpolating between the two replayed states either side of it.
+ */
+
+import type { BaseSimulation } from './BaseSimulation';
+import type { PhysicsState, Vector3 } from '../../core/types';
+
+// Longest frame simulated in one go (s), so a stalled tab does not make the
+// physics jump or spiral into ever longer catch-up frames
+export const MAX_FRAME_DELTA = 0.05;
+
+// Streamed states kept to interpolate between; more than a frame's worth at
+// the highest speed and smallest timestep
+const STREAM_HISTORY = 256;
+
+export class PlaybackClock {
+  private accumulator: number = 0;
+  private previous: PhysicsState | null = null;
+  private current: PhysicsState | null = null;
+  // States replayed from a worker, oldest first, and the time drawn between them
+  private streamed: PhysicsState[] = [];
+  private streamTime: number = 0;
+
+  /**
+   * Advance a simulation by one frame of wall-clock time, already scaled by
+   * the playback speed
+   * Fixed-step integrators take as many whole steps as the accumulated time
+   * covers; the adaptive integrator chooses its own steps and samples at the
+   * frame boundary.
+   * @param onStep Called after every step, e.g. to stream states out of a worker
+   * @returns Whether any step was taken
+   */
+  advance(sim: BaseSimulation, dt: number, onStep?: (state: PhysicsState) => void): boolean {
+    if (sim.getIntegrationMethod() === 'dopri5') {
+      this.accumulator = 0;
+      this.previous = null;
+      this.current = sim.step(dt);
+      onStep?.(this.current);
+      return true;
+    }
+
+    const fixedDt = sim.config.physics.fixedTimestep;
+    // Anything else that moved the simulation (a reset, a restored state)
+    // leaves nothing to interpolate from
+    if (this.current && this.current.time !== sim.getTime()) this.reset();
+
+    this.accumulator += dt;
+    let stepped = false;
+    while (this.accumulator >= fixedDt) {
+      this.previous = this.current ?? sim.getPhysicsState();
+      this.current = sim.step(fixedDt);
+      this.accumulator -= fixedDt;
+      onStep?.(this.current);
+      stepped = true;
+    }
+    return stepped;
+  }
+
+  /**
+   * State to draw: the last two physics states blended by the time left over
+   * in the accumulator, or the simulation's current state when there is only
+   * one to go on
+   */
+  getRenderState(sim: BaseSimulation): PhysicsState {
+    const { previous, current } = this;
+    if (!previous || !current || current.time !== sim.getTime()) return sim.getPhysicsState();
+
+    const alpha = Math.min(this.accumulator / sim.config.physics.fixedTimestep, 1);
+    return interpolateState(previous, current, alpha);
+  }
+
+  /**
+   * Record a state integrated elsewhere (a physics worker), in step order
+   * @param continuous False when the trajectory jumped to this state, so
+   *   nothing before it should be interpolated from
+   */
+  follow(state: PhysicsState, continuous = true): void {
+    const last = this.streamed[this.streamed.length - 1];
+    if (!continuous || (last && state.time <= last.time)) this.streamed = [];
+    if (this.streamed.length === 0) this.streamTime = state.time;
+    this.streamed.push(state);
+    if (this.streamed.length > STREAM_HISTORY) this.streamed.shift();
+  }
+
+  /**
+   * Advance the drawing time through the followed states by one frame of
+   * wall-clock time, already scaled by the playback speed
+   * The time is held within the states received, so it waits for a worker
+   * that falls behind rather than extrapolating.
+   * @returns The state to draw, or null if nothing has been followed yet
+   */
+  elapse(dt: number): PhysicsState | null {
+    const states = this.streamed;
+    if (states.length === 0) return null;
+
+    const oldest = states[0];
+    const newest = states[states.length - 1];
+    this.streamTime = Math.min(Math.max(this.streamTime + dt, oldest.time), newest.time);
+
+    // First state at or after the drawing time
+    let i = states.length - 1;
+    while (i > 0 && states[i - 1].time >= this.streamTime) i--;
+    if (i === 0) return oldest;
+
+    const a = states[i - 1];
+    const b = states[i];
+    return interpolateState(a, b, (this.streamTime - a.time) / (b.time - a.time));
+  }
+
+  /**
+   * Drop leftover time and remembered states, after the simulation was reset
+   * or re-initialized
+   */
+  reset(): void {
+    this.accumulator = 0;
+    this.previous = null;
+    this.current = null;
+    this.streamed = [];
+  }
+}
+
+function lerp(a: number, b: number, alpha: number): number {
+  return a + (b - a) * alpha;
+}
+
+function lerpVector(a: Vector3, b: Vector3, alpha: number): Vector3 {
+  return { x: lerp(a.x, b.x, alpha), y: lerp(a.y, b.y, alpha), z: lerp(a.z, b.z, alpha) };
+}
+
+function lerpVectors(a: Vector3[], b: Vector3[], alpha: number): Vector3[] {
+  // A change in the number of bodies means the states are not comparable
+  if (a.length !== b.length) return b;
+  return b.map((v, i) => lerpVector(a[i], v, alpha));
+}
+
+/**
+ * Cartesian blend of two consecutive states; interpolating positions rather
+ * than angles keeps wrapped angles from sweeping the long way round
+ */
+function interpolateState(a: PhysicsState, b: PhysicsState, alpha: number): PhysicsState {
+  return {
+    ...b,
+    time: lerp(a.time, b.time, alpha),
+    positions: lerpVectors(a.positions, b.positions, alpha),
+    velocities: lerpVectors(a.velocities, b.velocities, alpha),
+    ...(a.pivot && b.pivot ? { pivot: lerpVector(a.pivot, b.pivot, alpha) } : {}),
+  };
+}
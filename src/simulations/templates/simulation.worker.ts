@@ -0,0 +1,127 @@
+/**
+ * Simulation Worker
+ * Physics loop for SimulationWorker: steps the model against the wall clock
+ * while playing and streams every state back to the main thread
+ */
+
+import type { BaseSimulation } from './BaseSimulation';
+import type { SimulationCommand, SimulationReport } from './SimulationWorker';
+import { PlaybackClock, MAX_FRAME_DELTA } from './playback';
+import { StateRing, encodeSlot } from './stateRing';
+import { createSimulationById } from '../registry';
+
+// Physics ticks per second while playing; a little above the display rate,
+// so the renderer rarely finds nothing new
+const TICK_INTERVAL = 1000 / 120;
+
+// Adaptive integrator counters are reported this often (ms)
+const STATS_INTERVAL = 250;
+
+let sim: BaseSimulation | null = null;
+// Null when states are transferred in batches instead
+let ring: StateRing | null = null;
+let generation = 0;
+let speed = 1;
+const clock = new PlaybackClock();
+let timer: ReturnType<typeof setInterval> | null = null;
+let lastTick = 0;
+let lastStats = 0;
+// Slots produced this tick, for transfer mode
+let pending: number[] = [];
+
+function post(report: SimulationReport, transfer: Transferable[] = []): void {
+  self.postMessage(report, { transfer });
+}
+
+function publish(current: BaseSimulation): void {
+  const state = current.getState();
+  if (ring) ring.push(generation, current.getTime(), state);
+  else encodeSlot(generation, current.getTime(), state, pending);
+}
+
+function tick(): void {
+  const now = performance.now();
+  const dt = Math.min((now - lastTick) / 1000, MAX_FRAME_DELTA) * speed;
+  lastTick = now;
+  if (!sim) return;
+
+  const current = sim;
+  try {
+    clock.advance(current, dt, () => publish(current));
+  } catch (error) {
+    setPlaying(false);
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  if (pending.length > 0) {
+    const slots = Float64Array.from(pending);
+    pending = [];
+    post({ type: 'states', dimension: current.getState().length, slots }, [slots.buffer]);
+  }
+
+  if (current.getIntegrationMethod() === 'dopri5' && now - lastStats >= STATS_INTERVAL) {
+    lastStats = now;
+    post({ type: 'stats', stats: current.getIntegrationStats() });
+  }
+}
+
+function setPlaying(playing: boolean): void {
+  if (timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (playing) {
+    lastTick = performance.now();
+    timer = setInterval(tick, TICK_INTERVAL);
+  }
+}
+
+/**
+ * Pick up from the main thread's mirror, dropping anything not yet sent
+ */
+function restart(current: BaseSimulation, command: Extract<SimulationCommand, { type: 'restart' }>): void {
+  generation = command.generation;
+  if (command.ring) ring = new StateRing(command.ring);
+  pending = [];
+  clock.reset();
+  current.init(command.params);
+  current.setState(command.state, command.time);
+}
+
+self.onmessage = (event: MessageEvent<SimulationCommand>) => {
+  const command = event.data;
+  switch (command.type) {
+    case 'init':
+      try {
+        sim = createSimulationById(command.model);
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+      sim.setIntegrationMethod(command.integrationMethod);
+      sim.setTolerances(command.tolerances.absoluteTolerance, command.tolerances.relativeTolerance);
+      speed = command.speed;
+      restart(sim, { ...command, type: 'restart' });
+      setPlaying(command.playing);
+      break;
+    case 'restart':
+      if (sim) restart(sim, command);
+      break;
+    case 'play':
+      setPlaying(true);
+      break;
+    case 'pause':
+      setPlaying(false);
+      break;
+    case 'speed':
+      speed = command.speed;
+      break;
+    case 'integrator':
+      sim?.setIntegrationMethod(command.method);
+      break;
+    case 'tolerances':
+      sim?.setTolerances(command.tolerances.absoluteTolerance, command.tolerances.relativeTolerance);
+      break;
+  }
+};
@@ -0,0 +1,106 @@
+/**
+ * State Ring
+ * Fixed-size ring of simulation states, written by the physics loop and read
+ * by the renderer
+ *
+ * Backed by a SharedArrayBuffer when the page is cross-origin isolated, so a
+ * worker writes straight into memory the main thread reads; otherwise by a
+ * plain ArrayBuffer that the main thread fills from batches the worker
+ * transfers to it. Each slot holds [generation, time, ...state]; the
+ * generation tells states from before a reset or parameter change apart.
+ *
+ * There is one writer. The write counter is published with Atomics after the
+ * slot is filled, so a reader that keeps within `capacity` slots of the
+ * writer never sees a half-written state.
+ */
+
+// Int32 header: [slots written, state dimension, capacity, unused]
+const HEADER_INTS = 4;
+const HEADER_BYTES = HEADER_INTS * Int32Array.BYTES_PER_ELEMENT;
+
+// Leading [generation, time] of every slot
+const SLOT_PREFIX = 2;
+
+export class StateRing {
+  readonly buffer: ArrayBufferLike;
+  readonly dimension: number;
+  readonly capacity: number;
+  private header: Int32Array;
+  private slots: Float64Array;
+  private stride: number;
+
+  /**
+   * New, empty ring
+   * @param shared Back it with a SharedArrayBuffer (needs cross-origin isolation)
+   */
+  static create(dimension: number, capacity: number, shared: boolean): StateRing {
+    const bytes = HEADER_BYTES + capacity * (SLOT_PREFIX + dimension) * Float64Array.BYTES_PER_ELEMENT;
+    const buffer = shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+    const header = new Int32Array(buffer, 0, HEADER_INTS);
+    header[1] = dimension;
+    header[2] = capacity;
+    return new StateRing(buffer);
+  }
+
+  /**
+   * Whether rings can be shared with workers on this page
+   */
+  static canShare(): boolean {
+    return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+  }
+
+  /**
+   * View onto an existing ring's memory (e.g. one received from the main thread)
+   */
+  constructor(buffer: ArrayBufferLike) {
+    this.buffer = buffer;
+    this.header = new Int32Array(buffer, 0, HEADER_INTS);
+    this.dimension = this.header[1];
+    this.capacity = this.header[2];
+    this.stride = SLOT_PREFIX + this.dimension;
+    this.slots = new Float64Array(buffer, HEADER_BYTES, this.capacity * this.stride);
+  }
+
+  /**
+   * Total slots ever written; slot i lives at i % capacity
+   */
+  getWritten(): number {
+    return Atomics.load(this.header, 0);
+  }
+
+  push(generation: number, time: number, state: ArrayLike<number>): void {
+    const written = this.header[0];
+    const offset = (written % this.capacity) * this.stride;
+    this.slots[offset] = generation;
+    this.slots[offset + 1] = time;
+    for (let i = 0; i < this.dimension; i++) this.slots[offset + SLOT_PREFIX + i] = state[i];
+    Atomics.store(this.header, 0, written + 1);
+  }
+
+  /**
+   * Append slots laid out as in the ring ([generation, time, ...state] each)
+   */
+  pushSlots(data: Float64Array): void {
+    for (let offset = 0; offset + this.stride <= data.length; offset += this.stride) {
+      this.push(data[offset], data[offset + 1], data.subarray(offset + SLOT_PREFIX, offset + this.stride));
+    }
+  }
+
+  /**
+   * Copy slot `index` into `state` and return its generation and time
+   * The caller must not read slots more than `capacity` behind getWritten().
+   */
+  read(index: number, state: number[]): { generation: number; time: number } {
+    const offset = (index % this.capacity) * this.stride;
+    for (let i = 0; i < this.dimension; i++) state[i] = this.slots[offset + SLOT_PREFIX + i];
+    return { generation: this.slots[offset], time: this.slots[offset + 1] };
+  }
+}
+
+/**
+ * Flat [generation, time, ...state] slot, for batching states into a transfer
+ */
+export function encodeSlot(generation: number, time: number, state: ArrayLike<number>, out: number[]): void {
+  out.push(generation, time);
+  for (let i = 0; i < state.length; i++) out.push(state[i]);
+}
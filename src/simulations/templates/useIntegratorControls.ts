@@ -0,0 +1,36 @@
+/**
+ * useIntegratorControls Hook
+ * Integrator picker and adaptive error tolerances in a scene's Physics folder
+ */
+
+import { useMemo } from 'react';
+import { useControls } from 'leva';
+import { integrationMethodOptions } from '../../core/types';
+import type { IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils/physics';
+
+const DEFAULT_HINT = 'Numerical integration scheme (symplectic and time-reversible methods keep energy error bounded)';
+
+interface UseIntegratorControlsReturn {
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+}
+
+/**
+ * @param hint Tooltip for the integrator picker, for models where the choice
+ *   means something more specific
+ */
+export function useIntegratorControls(hint: string = DEFAULT_HINT): UseIntegratorControlsReturn {
+  const { integrator, absTol, relTol } = useControls('Physics', {
+    integrator: { value: 'rk4', options: integrationMethodOptions, hint },
+    absTol: { value: -9, min: -14, max: -3, step: 1, label: 'log₁₀ atol', hint: 'Absolute error tolerance per step (adaptive integrator only)', render: (get) => get('Physics.integrator') === 'dopri5' },
+    relTol: { value: -9, min: -14, max: -3, step: 1, label: 'log₁₀ rtol', hint: 'Relative error tolerance per step (adaptive integrator only)', render: (get) => get('Physics.integrator') === 'dopri5' },
+  });
+
+  const tolerances = useMemo(
+    () => ({ absoluteTolerance: 10 ** absTol, relativeTolerance: 10 ** relTol }),
+    [absTol, relTol]
+  );
+
+  return { integrationMethod: integrator as IntegrationMethod, tolerances };
+}
@@ -0,0 +1,165 @@
+/**
+ * useParameterSweep Hook
+ * Leva 'Sweep' folder for any model: pick one or two parameters and their
+ * ranges, run every combination on the sweep workers, and export the results
+ *
+ * Every run starts from the scene's current parameters, integrator and
+ * tolerances, with the swept parameters overridden. Every metric the model
+ * supports is computed, so the plotted one can be switched after the sweep
+ * without rerunning it.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useControls, button } from 'leva';
+import { useSweep, sweepMetrics, supportedSweepMetrics, sweepSamplingOptions, formatSweepCSV } from '../../analysis';
+import type { SweepAxis, SweepSampling, SweepResults } from '../../analysis';
+import { downloadCSV } from '../../utils';
+import type { AdaptiveTolerances } from '../../utils';
+import type { IntegrationMethod, ParameterSchema } from '../../core/types';
+
+interface ParameterSweepOptions {
+  // Meta id of the model, as in run specs
+  model: string;
+  // Parameter choices and their default ranges
+  schema: ParameterSchema;
+  params: Record<string, unknown>;
+  integrationMethod: IntegrationMethod;
+  tolerances: AdaptiveTolerances;
+  // Initial choices of the folder
+  defaults: { x: string; y?: string; metric: string; duration?: number };
+}
+
+interface UseParameterSweepReturn {
+  // Props for SweepResultsView, or null while it is hidden or nothing has run
+  view: {
+    results: SweepResults;
+    version: number;
+    metric: number;
+    metricLabels: string[];
+    axisLabels: string[];
+    logScale: boolean;
+    progress: number;
+    error: string | null;
+  } | null;
+  // Parameter overrides that reproduce a point of the results
+  paramsAt: (point: number[]) => Record<string, number>;
+}
+
+const NO_PARAMETER = '';
+
+const scaleOptions = { Linear: 'linear', Log: 'log' };
+
+export function useParameterSweep({
+  model,
+  schema,
+  params,
+  integrationMethod,
+  tolerances,
+  defaults,
+}: ParameterSweepOptions): UseParameterSweepReturn {
+  const sweep = useSweep();
+
+  // Numeric parameters, by label
+  const parameterOptions = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(schema)
+          .filter(([, def]) => typeof def.value === 'number')
+          .map(([key, def]) => [def.label, key])
+      ),
+    [schema]
+  );
+  // Metrics that mean something for this model, e.g. no flip time without angles
+  const metricIds = useMemo(() => supportedSweepMetrics(model), [model]);
+  const metricOptions = useMemo(
+    () => Object.fromEntries(metricIds.map((id) => [sweepMetrics[id].label, id])),
+    [metricIds]
+  );
+
+  const xDef = schema[defaults.x];
+  const yDef = defaults.y ? schema[defaults.y] : undefined;
+
+  const [controls, set] = useControls('Sweep', () => ({
+    show: { value: false, label: 'Show Results', hint: 'Show the sweep plot and results table' },
+    xParam: { value: defaults.x, options: parameterOptions, label: 'Parameter 1', hint: 'First swept parameter (horizontal axis)' },
+    xMin: { value: xDef.min ?? 0, step: 0.01, label: 'From', hint: 'Start of the first parameter range' },
+    xMax: { value: xDef.max ?? 1, step: 0.01, label: 'To', hint: 'End of the first parameter range' },
+    xSteps: { value: 32, min: 2, max: 256, step: 1, label: 'Steps', hint: 'Grid points along the first parameter', render: (get) => get('Sweep.sampling') === 'grid' },
+    xScale: { value: 'linear', options: scaleOptions, label: 'Scale', hint: 'Space points evenly in the value or in its logarithm (positive ranges only)' },
+    yParam: { value: defaults.y ?? NO_PARAMETER, options: { None: NO_PARAMETER, ...parameterOptions }, label: 'Parameter 2', hint: 'Optional second swept parameter (vertical axis of the heatmap)' },
+    yMin: { value: yDef?.min ?? 0, step: 0.01, label: 'From', hint: 'Start of the second parameter range', render: (get) => get('Sweep.yParam') !== NO_PARAMETER },
+    yMax: { value: yDef?.max ?? 1, step: 0.01, label: 'To', hint: 'End of the second parameter range', render: (get) => get('Sweep.yParam') !== NO_PARAMETER },
+    ySteps: { value: 32, min: 2, max: 256, step: 1, label: 'Steps', hint: 'Grid points along the second parameter', render: (get) => get('Sweep.yParam') !== NO_PARAMETER && get('Sweep.sampling') === 'grid' },
+    yScale: { value: 'linear', options: scaleOptions, label: 'Scale', hint: 'Space points evenly in the value or in its logarithm (positive ranges only)', render: (get) => get('Sweep.yParam') !== NO_PARAMETER },
+    sampling: { value: 'grid', options: sweepSamplingOptions, label: 'Sampling', hint: 'Every grid combination, or a Latin hypercube sample covering each range evenly' },
+    samples: { value: 256, min: 8, max: 4096, step: 8, label: 'Samples', hint: 'Points drawn by Latin hypercube sampling', render: (get) => get('Sweep.sampling') === 'latin-hypercube' },
+    duration: { value: defaults.duration ?? 20, min: 1, max: 300, step: 1, label: 'Duration (s)', hint: 'Simulated time of each run' },
+    metric: { value: defaults.metric, options: metricOptions, label: 'Plot', hint: 'Metric plotted; all metrics are computed and exported' },
+    logScale: { value: false, label: 'Log scale', hint: 'Plot the metric on a log scale (useful for energy drift)' },
+  }));
+
+  // A newly chosen parameter starts out over its whole slider range
+  const { xParam, yParam } = controls;
+  useEffect(() => {
+    const def = schema[xParam];
+    if (def) set({ xMin: def.min ?? 0, xMax: def.max ?? 1 });
+  }, [xParam, schema, set]);
+  useEffect(() => {
+    const def = schema[yParam];
+    if (def) set({ yMin: def.min ?? 0, yMax: def.max ?? 1 });
+  }, [yParam, schema, set]);
+
+  useControls('Sweep', {
+    'Run Sweep': button(() => {
+      const axes: SweepAxis[] = [
+        { param: controls.xParam, min: controls.xMin, max: controls.xMax, steps: controls.xSteps, scale: controls.xScale as SweepAxis['scale'] },
+      ];
+      if (controls.yParam !== NO_PARAMETER) {
+        axes.push({ param: controls.yParam, min: controls.yMin, max: controls.yMax, steps: controls.ySteps, scale: controls.yScale as SweepAxis['scale'] });
+      }
+      set({ show: true });
+      sweep.start({
+        run: {
+          model,
+          params,
+          integrator: integrationMethod,
+          tolerances: { absolute: tolerances.absoluteTolerance, relative: tolerances.relativeTolerance },
+          duration: controls.duration,
+        },
+        axes,
+        sampling: controls.sampling as SweepSampling,
+        samples: controls.samples,
+        metrics: metricIds,
+      });
+    }),
+    'Cancel': button(() => sweep.cancel()),
+    'Export CSV': button(() => {
+      if (sweep.results) downloadCSV(formatSweepCSV(sweep.results), `${model}-sweep.csv`);
+    }),
+  }, [controls, model, metricIds, params, integrationMethod, tolerances, sweep.start, sweep.cancel, sweep.results]);
+
+  const { results } = sweep;
+  const metricLabels = useMemo(() => results?.metrics.map((id) => sweepMetrics[id].label) ?? [], [results]);
+  const axisLabels = useMemo(() => results?.axes.map((axis) => schema[axis.param]?.label ?? axis.param) ?? [], [results, schema]);
+
+  const paramsAt = useCallback(
+    (point: number[]) => Object.fromEntries(results?.axes.map((axis, i) => [axis.param, point[i]]) ?? []),
+    [results]
+  );
+
+  const view =
+    controls.show && results
+      ? {
+          results,
+          version: sweep.version,
+          metric: Math.max(results.metrics.indexOf(controls.metric), 0),
+          metricLabels,
+          axisLabels,
+          logScale: controls.logScale,
+          progress: sweep.progress,
+          error: sweep.error,
+        }
+      : null;
+
+  return { view, paramsAt };
+}
@@ -4,18 +4,28 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useSimulationStore } from '../../core/stores';
 import type { BaseSimulation } from './BaseSimulation';
-import type { PhysicsState, EnergyState, TrailPoint } from '../../core/types';
+import { SimulationWorker } from './SimulationWorker';
+import { PlaybackClock, MAX_FRAME_DELTA } from './playback';
+import type { PhysicsState, EnergyState, TrailPoint, IntegrationMethod } from '../../core/types';
+import type { AdaptiveTolerances } from '../../utils/physics';
 
 interface UseSimulationOptions {
   autoStart?: boolean;
   recordTrails?: boolean;
   recordPhaseSpace?: boolean;
+  integrationMethod?: IntegrationMethod;
+  tolerances?: AdaptiveTolerances;
+  // Integrate in a Web Worker; the returned simulation becomes a mirror that
+  // follows it state by state, so analysis hooks keep working on it
+  worker?: boolean;
 }
 
 interface UseSimulationReturn {
+  simulation: RefObject<BaseSimulation | null>;
   physicsState: PhysicsState | null;
   energy: EnergyState;
   reset: () => void;
@@ -27,9 +37,18 @@ export function useSimulation(
   initialParams: Record<string, unknown>,
   options: UseSimulationOptions = {}
 ): UseSimulationReturn {
-  const { autoStart = false, recordTrails = true, recordPhaseSpace = true } = options;
+  const {
+    autoStart = false,
+    recordTrails = true,
+    recordPhaseSpace = true,
+    integrationMethod,
+    tolerances,
+    worker = false,
+  } = options;
 
   const simulationRef = useRef<BaseSimulation | null>(null);
+  const workerRef = useRef<SimulationWorker | null>(null);
+  const clockRef = useRef(new PlaybackClock());
   const [physicsState, setPhysicsState] = useState<PhysicsState | null>(null);
   const [energy, setEnergy] = useState<EnergyState>({ kinetic: 0, potential: 0, total: 0 });
   const lastParamsRef = useRef<string>('');
@@ -41,6 +60,7 @@ export function useSimulation(
     addPhasePoints,
     setPhysicsState: setStorePhysicsState,
     setEnergy: setStoreEnergy,
+    setIntegrationStats,
     play,
     clearTrails,
     tick,
@@ -51,6 +71,7 @@ export function useSimulation(
     const sim = new SimulationClass();
     sim.init(initialParams);
     simulationRef.current = sim;
+    clockRef.current.reset();
 
     const state = sim.step(0);
     setPhysicsState(state);
@@ -65,15 +86,61 @@ export function useSimulation(
     };
   }, [SimulationClass]);
 
+  // Switch integrator without resetting the run
+  useEffect(() => {
+    if (integrationMethod && simulationRef.current) {
+      simulationRef.current.setIntegrationMethod(integrationMethod);
+      workerRef.current?.setIntegrationMethod(integrationMethod);
+    }
+    if (integrationMethod !== 'dopri5') {
+      setIntegrationStats(null);
+    }
+  }, [integrationMethod, SimulationClass, setIntegrationStats]);
+
+  const absoluteTolerance = tolerances?.absoluteTolerance;
+  const relativeTolerance = tolerances?.relativeTolerance;
+  useEffect(() => {
+    if (absoluteTolerance !== undefined && relativeTolerance !== undefined && simulationRef.current) {
+      simulationRef.current.setTolerances(absoluteTolerance, relativeTolerance);
+      workerRef.current?.setTolerances({ absoluteTolerance, relativeTolerance });
+    }
+  }, [absoluteTolerance, relativeTolerance, SimulationClass]);
+
+  // Hand the integration to a worker, picking up from the local instance
+  useEffect(() => {
+    const sim = simulationRef.current;
+    if (!worker || !sim) return;
+
+    const { isPlaying: playing, speed: currentSpeed } = useSimulationStore.getState();
+    const client = new SimulationWorker(sim, { playing, speed: currentSpeed });
+    workerRef.current = client;
+
+    return () => {
+      client.terminate();
+      workerRef.current = null;
+    };
+  }, [worker, SimulationClass]);
+
+  useEffect(() => {
+    if (isPlaying) workerRef.current?.play();
+    else workerRef.current?.pause();
+  }, [isPlaying, worker]);
+
+  useEffect(() => {
+    workerRef.current?.setSpeed(speed);
+  }, [speed, worker]);
+
   // Handle param changes
   useEffect(() => {
     const paramsString = JSON.stringify(initialParams);
     if (paramsString !== lastParamsRef.current && simulationRef.current) {
       lastParamsRef.current = paramsString;
       simulationRef.current.init(initialParams);
+      clockRef.current.reset();
       clearTrails();
 
       const state = simulationRef.current.step(0);
+      workerRef.current?.restart(simulationRef.current);
       setPhysicsState(state);
       setEnergy(simulationRef.current.getEnergy());
     }
@@ -87,15 +154,25 @@ export function useSimulation(
     if (!isPlaying || !simulationRef.current) return;
 
     const sim = simulationRef.current;
-    const dt = Math.min(delta, 0.05) * speed; // Cap delta to prevent instability
-    const fixedDt = sim.config.physics.fixedTimestep;
+    const client = workerRef.current;
 
-    // Use fixed timestep for stability
-    const steps = Math.ceil(dt / fixedDt);
     let state: PhysicsState | null = null;
 
-    for (let i = 0; i < steps; i++) {
-      state = sim.step(fixedDt);
+    if (client && !client.getFailure()) {
+      // The worker integrates; replay what it produced since the last frame
+      // and draw between those states at the wall clock's pace
+      const clock = clockRef.current;
+      client.sync(sim, (continuous) => clock.follow(sim.getPhysicsState(), continuous));
+      state = clock.elapse(Math.min(delta, MAX_FRAME_DELTA) * speed);
+      const stats = client.getStats();
+      if (stats && sim.getIntegrationMethod() === 'dopri5') setIntegrationStats(stats);
+    } else {
+      const dt = Math.min(delta, MAX_FRAME_DELTA) * speed; // Cap delta to prevent instability
+      clockRef.current.advance(sim, dt);
+      // Drawn between the last two steps, so motion stays smooth whether or
+      // not this frame completed one
+      state = clockRef.current.getRenderState(sim);
+      if (sim.getIntegrationMethod() === 'dopri5') setIntegrationStats(sim.getIntegrationStats());
     }
 
     if (state) {
@@ -131,8 +208,10 @@ export function useSimulation(
   const reset = useCallback(() => {
     if (simulationRef.current) {
       simulationRef.current.reset();
+      clockRef.current.reset();
       clearTrails();
       const state = simulationRef.current.step(0);
+      workerRef.current?.restart(simulationRef.current);
       setPhysicsState(state);
       setEnergy(simulationRef.current.getEnergy());
     }
@@ -142,14 +221,17 @@ export function useSimulation(
   const updateParams = useCallback((params: Record<string, unknown>) => {
     if (simulationRef.current) {
       simulationRef.current.init(params);
+      clockRef.current.reset();
       clearTrails();
       const state = simulationRef.current.step(0);
+      workerRef.current?.restart(simulationRef.current);
       setPhysicsState(state);
       setEnergy(simulationRef.current.getEnergy());
     }
   }, [clearTrails]);
 
   return {
+    simulation: simulationRef,
     physicsState,
     energy,
     reset,
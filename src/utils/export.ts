@@ -4,13 +4,13 @@
  */
 
 import type { ExportData } from '../core/types';
+import { formatCSV, formatCollisionsCSV, formatJSON } from './format';
 
 /**
  * Export data to JSON file
  */
 export function exportToJSON(data: ExportData, filename?: string): void {
-  const json = JSON.stringify(data, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
+  const blob = new Blob([formatJSON(data)], { type: 'application/json' });
   downloadBlob(blob, filename ?? `${data.meta.id}-export.json`);
 }
 
@@ -18,65 +18,23 @@ export function exportToJSON(data: ExportData, filename?: string): void {
  * Export time series data to CSV
  */
 export function exportToCSV(data: ExportData, filename?: string): void {
-  const { timeSeries, phaseSpace } = data;
-  const lines: string[] = [];
-
-  // Header
-  const headers = ['time'];
-  const numBodies = timeSeries.positions[0]?.length ?? 0;
-
-  for (let i = 0; i < numBodies; i++) {
-    headers.push(`x${i}`, `y${i}`, `z${i}`, `vx${i}`, `vy${i}`, `vz${i}`);
-  }
-  headers.push('kinetic', 'potential', 'total');
-
-  if (phaseSpace && phaseSpace.length > 0) {
-    for (let i = 0; i < phaseSpace.length; i++) {
-      headers.push(`theta${i}`, `omega${i}`);
-    }
-  }
-
-  lines.push(headers.join(','));
-
-  // Data rows
-  for (let t = 0; t < timeSeries.time.length; t++) {
-    const row: (string | number)[] = [timeSeries.time[t].toFixed(6)];
-
-    for (let i = 0; i < numBodies; i++) {
-      const pos = timeSeries.positions[t]?.[i] ?? { x: 0, y: 0, z: 0 };
-      const vel = timeSeries.velocities[t]?.[i] ?? { x: 0, y: 0, z: 0 };
-      row.push(
-        pos.x.toFixed(6),
-        pos.y.toFixed(6),
-        pos.z.toFixed(6),
-        vel.x.toFixed(6),
-        vel.y.toFixed(6),
-        vel.z.toFixed(6)
-      );
-    }
-
-    const energy = timeSeries.energy[t] ?? { kinetic: 0, potential: 0, total: 0 };
-    row.push(
-      energy.kinetic.toFixed(6),
-      energy.potential.toFixed(6),
-      energy.total.toFixed(6)
-    );
-
-    if (phaseSpace) {
-      for (let i = 0; i < phaseSpace.length; i++) {
-        const point = phaseSpace[i]?.[t];
-        if (point) {
-          row.push(point.angle.toFixed(6), point.angularVelocity.toFixed(6));
-        }
-      }
-    }
+  const blob = new Blob([formatCSV(data)], { type: 'text/csv' });
+  downloadBlob(blob, filename ?? `${data.meta.id}-export.csv`);
+}
 
-    lines.push(row.join(','));
-  }
+/**
+ * Export the per-collision energy and momentum log to CSV
+ */
+export function exportCollisionsToCSV(data: ExportData, filename?: string): void {
+  const blob = new Blob([formatCollisionsCSV(data)], { type: 'text/csv' });
+  downloadBlob(blob, filename ?? `${data.meta.id}-collisions.csv`);
+}
 
-  const csv = lines.join('\n');
-  const blob = new Blob([csv], { type: 'text/csv' });
-  downloadBlob(blob, filename ?? `${data.meta.id}-export.csv`);
+/**
+ * Download CSV text formatted elsewhere (e.g. sweep results)
+ */
+export function downloadCSV(csv: string, filename: string): void {
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), filename);
 }
 
 /**
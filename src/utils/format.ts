@@ -0,0 +1,106 @@
+/**
+ * Data Formatting
+ * Text layouts for exported simulation data, shared by the browser downloads
+ * and the headless runner (no DOM access here)
+ */
+
+import type { ExportData } from '../core/types';
+
+/**
+ * Export data as pretty-printed JSON
+ */
+export function formatJSON(data: ExportData): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Time series as CSV: time, per-body position and velocity, energies, then
+ * per-body phase coordinates when the model has them
+ */
+export function formatCSV(data: ExportData): string {
+  const { timeSeries, phaseSpace } = data;
+  const lines: string[] = [];
+
+  // Header
+  const headers = ['time'];
+  const numBodies = timeSeries.positions[0]?.length ?? 0;
+
+  for (let i = 0; i < numBodies; i++) {
+    headers.push(`x${i}`, `y${i}`, `z${i}`, `vx${i}`, `vy${i}`, `vz${i}`);
+  }
+  headers.push('kinetic', 'potential', 'total');
+
+  if (phaseSpace && phaseSpace.length > 0) {
+    for (let i = 0; i < phaseSpace.length; i++) {
+      headers.push(`theta${i}`, `omega${i}`);
+    }
+  }
+
+  lines.push(headers.join(','));
+
+  // Data rows
+  for (let t = 0; t < timeSeries.time.length; t++) {
+    const row: (string | number)[] = [timeSeries.time[t].toFixed(6)];
+
+    for (let i = 0; i < numBodies; i++) {
+      const pos = timeSeries.positions[t]?.[i] ?? { x: 0, y: 0, z: 0 };
+      const vel = timeSeries.velocities[t]?.[i] ?? { x: 0, y: 0, z: 0 };
+      row.push(
+        pos.x.toFixed(6),
+        pos.y.toFixed(6),
+        pos.z.toFixed(6),
+        vel.x.toFixed(6),
+        vel.y.toFixed(6),
+        vel.z.toFixed(6)
+      );
+    }
+
+    const energy = timeSeries.energy[t] ?? { kinetic: 0, potential: 0, total: 0 };
+    row.push(
+      energy.kinetic.toFixed(6),
+      energy.potential.toFixed(6),
+      energy.total.toFixed(6)
+    );
+
+    if (phaseSpace) {
+      for (let i = 0; i < phaseSpace.length; i++) {
+        const point = phaseSpace[i]?.[t];
+        if (point) {
+          row.push(point.angle.toFixed(6), point.angularVelocity.toFixed(6));
+        }
+      }
+    }
+
+    lines.push(row.join(','));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Per-collision energy and momentum log as CSV
+ */
+export function formatCollisionsCSV(data: ExportData): string {
+  const lines = [
+    'time,body_a,body_b,impact_speed,energy_before,energy_after,energy_change,momentum_before,momentum_after,momentum_change',
+  ];
+
+  for (const c of data.collisions ?? []) {
+    lines.push(
+      [
+        c.time.toFixed(6),
+        c.bodies[0],
+        c.bodies[1],
+        c.impactSpeed.toFixed(6),
+        c.energyBefore.toFixed(6),
+        c.energyAfter.toFixed(6),
+        (c.energyAfter - c.energyBefore).toExponential(6),
+        c.momentumBefore.toFixed(6),
+        c.momentumAfter.toFixed(6),
+        (c.momentumAfter - c.momentumBefore).toExponential(6),
+      ].join(',')
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -1,2 +1,4 @@
 export * from './physics';
 export * from './export';
+export * from './format';
+export * from './yaml';
@@ -10,11 +10,40 @@ export type State = number[];
 export type DerivativeFunc = (t: number, state: State) => State;
 
 /**
- * Euler integration (first-order, fast but less accurate)
- * OPTIMIZED: Uses pre-allocated buffer
+ * Scratch buffers for the explicit integrators
+ * Each simulation owns its own workspace so concurrent simulations never share
+ * buffers; they grow on demand to fit any state length.
  */
-const _euler_result: number[] = new Array(20).fill(0);
+export interface IntegratorWorkspace {
+  k1: number[];
+  k2: number[];
+  k3: number[];
+  k4: number[];
+  temp: number[];
+}
+
+export function createIntegratorWorkspace(size = 0): IntegratorWorkspace {
+  return {
+    k1: new Array(size).fill(0),
+    k2: new Array(size).fill(0),
+    k3: new Array(size).fill(0),
+    k4: new Array(size).fill(0),
+    temp: new Array(size).fill(0),
+  };
+}
+
+function ensureWorkspaceSize(workspace: IntegratorWorkspace, size: number): void {
+  if (workspace.k1.length >= size) return;
+  workspace.k1 = new Array(size).fill(0);
+  workspace.k2 = new Array(size).fill(0);
+  workspace.k3 = new Array(size).fill(0);
+  workspace.k4 = new Array(size).fill(0);
+  workspace.temp = new Array(size).fill(0);
+}
 
+/**
+ * Euler integration (first-order, fast but less accurate)
+ */
 export function euler(
   state: State,
   t: number,
@@ -23,93 +52,542 @@ export function euler(
 ): State {
   const n = state.length;
   const d = derivatives(t, state);
+  const result = new Array(n);
   for (let i = 0; i < n; i++) {
-    _euler_result[i] = state[i] + d[i] * dt;
+    result[i] = state[i] + d[i] * dt;
   }
-  return _euler_result.slice(0, n);
+  return result;
 }
 
+// Fixed-point iteration limits for the implicit schemes (Verlet's closing
+// half-kick and the Gauss-Legendre methods)
+const IMPLICIT_TOLERANCE = 1e-12;
+const IMPLICIT_MAX_ITERATIONS = 20;
+
 /**
  * Velocity Verlet integration (second-order, good for physics)
  * Requires acceleration function
+ *
+ * When accelerations depend on velocity (Coriolis and centripetal terms in the
+ * Lagrangian chains, damping) the closing half-kick v1 = vh + dt/2 * a(q1, v1)
+ * is implicit and is solved by fixed-point iteration, as in implicitMidpoint.
+ * That keeps the kick-drift-kick step symmetric, so it stays second order and
+ * yoshida4's composition stays fourth order. Velocity-independent forces
+ * converge on the first iteration, which is the textbook scheme.
  */
 export function verlet(
   positions: number[],
   velocities: number[],
   dt: number,
-  accelerations: (pos: number[], vel: number[]) => number[]
+  accelerations: (pos: number[], vel: number[], t: number) => number[],
+  t = 0
 ): { positions: number[]; velocities: number[] } {
+  const n = velocities.length;
+
   // Current accelerations
-  const a = accelerations(positions, velocities);
+  const a = accelerations(positions, velocities, t).slice();
 
-  // Update positions
-  const newPositions = positions.map(
-    (p, i) => p + velocities[i] * dt + 0.5 * a[i] * dt * dt
-  );
+  // Half-step velocities (kick)
+  const halfVelocities = velocities.map((v, i) => v + 0.5 * a[i] * dt);
 
-  // Compute new accelerations
-  const newA = accelerations(newPositions, velocities);
+  // Update positions (drift)
+  const newPositions = positions.map((p, i) => p + halfVelocities[i] * dt);
 
-  // Update velocities using average acceleration
-  const newVelocities = velocities.map(
-    (v, i) => v + 0.5 * (a[i] + newA[i]) * dt
-  );
+  // Closing half-kick at the new positions, predicted from the half-step velocity
+  let newA = accelerations(newPositions, halfVelocities, t + dt).slice();
+  const newVelocities = halfVelocities.map((v, i) => v + 0.5 * newA[i] * dt);
+
+  for (let iter = 0; iter < IMPLICIT_MAX_ITERATIONS; iter++) {
+    const next = accelerations(newPositions, newVelocities, t + dt);
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change = Math.max(change, Math.abs(next[i] - newA[i]));
+    newA = next.slice();
+    for (let i = 0; i < n; i++) newVelocities[i] = halfVelocities[i] + 0.5 * newA[i] * dt;
+
+    if (change * Math.abs(dt) < IMPLICIT_TOLERANCE) break;
+  }
 
   return { positions: newPositions, velocities: newVelocities };
 }
 
+/**
+ * Leapfrog step on a packed state [q0..q(n-1), v0..v(n-1)]
+ * Assumes dq/dt = v, which holds for every pendulum model's state layout.
+ * Symplectic when accelerations depend on positions only (e.g. the simple pendulum);
+ * for velocity-coupled chains it is symmetric (time-reversible) rather than
+ * symplectic in these coordinates, which still keeps the energy error from drifting.
+ */
+export function leapfrog(
+  state: State,
+  t: number,
+  dt: number,
+  derivatives: DerivativeFunc
+): State {
+  const half = state.length / 2;
+  const packed = new Array(state.length);
+
+  const result = verlet(
+    state.slice(0, half),
+    state.slice(half),
+    dt,
+    (pos, vel, time) => {
+      for (let i = 0; i < half; i++) {
+        packed[i] = pos[i];
+        packed[half + i] = vel[i];
+      }
+      return derivatives(time, packed).slice(half);
+    },
+    t
+  );
+
+  return [...result.positions, ...result.velocities];
+}
+
+/**
+ * Yoshida 4th order symplectic integration
+ * Composes three leapfrog steps with weights chosen to cancel the 3rd order error
+ */
+const _yoshida_w1 = 1 / (2 - Math.cbrt(2));
+const _yoshida_w0 = -Math.cbrt(2) / (2 - Math.cbrt(2));
+
+export function yoshida4(
+  state: State,
+  t: number,
+  dt: number,
+  derivatives: DerivativeFunc
+): State {
+  const dt1 = _yoshida_w1 * dt;
+  const dt0 = _yoshida_w0 * dt;
+
+  let s = leapfrog(state, t, dt1, derivatives);
+  s = leapfrog(s, t + dt1, dt0, derivatives);
+  return leapfrog(s, t + dt1 + dt0, dt1, derivatives);
+}
+
+/**
+ * Implicit midpoint rule (1-stage Gauss-Legendre, second-order, symplectic)
+ * Solves y1 = y + dt * f(t + dt/2, (y + y1)/2) by fixed-point iteration
+ */
+export function implicitMidpoint(
+  state: State,
+  t: number,
+  dt: number,
+  derivatives: DerivativeFunc
+): State {
+  const n = state.length;
+  const mid = new Array(n);
+
+  // Explicit Euler predictor for the stage slope
+  let k = derivatives(t, state).slice();
+
+  for (let iter = 0; iter < IMPLICIT_MAX_ITERATIONS; iter++) {
+    for (let i = 0; i < n; i++) mid[i] = state[i] + 0.5 * dt * k[i];
+    const next = derivatives(t + dt / 2, mid);
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change = Math.max(change, Math.abs(next[i] - k[i]));
+    k = next.slice();
+
+    if (change * Math.abs(dt) < IMPLICIT_TOLERANCE) break;
+  }
+
+  return state.map((y, i) => y + dt * k[i]);
+}
+
+/**
+ * 2-stage Gauss-Legendre integration (fourth-order, symplectic)
+ * Stage slopes are found by fixed-point iteration
+ */
+const _gl4_c1 = 0.5 - Math.sqrt(3) / 6;
+const _gl4_c2 = 0.5 + Math.sqrt(3) / 6;
+const _gl4_a11 = 0.25;
+const _gl4_a12 = 0.25 - Math.sqrt(3) / 6;
+const _gl4_a21 = 0.25 + Math.sqrt(3) / 6;
+const _gl4_a22 = 0.25;
+
+export function gaussLegendre4(
+  state: State,
+  t: number,
+  dt: number,
+  derivatives: DerivativeFunc
+): State {
+  const n = state.length;
+  const stage = new Array(n);
+
+  let k1 = derivatives(t, state).slice();
+  let k2 = k1.slice();
+
+  for (let iter = 0; iter < IMPLICIT_MAX_ITERATIONS; iter++) {
+    for (let i = 0; i < n; i++) stage[i] = state[i] + dt * (_gl4_a11 * k1[i] + _gl4_a12 * k2[i]);
+    const next1 = derivatives(t + _gl4_c1 * dt, stage).slice();
+
+    for (let i = 0; i < n; i++) stage[i] = state[i] + dt * (_gl4_a21 * k1[i] + _gl4_a22 * k2[i]);
+    const next2 = derivatives(t + _gl4_c2 * dt, stage).slice();
+
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      change = Math.max(change, Math.abs(next1[i] - k1[i]), Math.abs(next2[i] - k2[i]));
+    }
+    k1 = next1;
+    k2 = next2;
+
+    if (change * Math.abs(dt) < IMPLICIT_TOLERANCE) break;
+  }
+
+  return state.map((y, i) => y + 0.5 * dt * (k1[i] + k2[i]));
+}
+
 /**
  * Runge-Kutta 4th order integration (most accurate)
  * Best for scientific simulations
  *
- * OPTIMIZED: Uses pre-allocated buffers to avoid creating arrays every call.
- * This is critical for performance since RK4 runs at 480+ Hz.
+ * OPTIMIZED: Stage buffers come from the caller's workspace to avoid creating arrays
+ * every call. This is critical for performance since RK4 runs at 480+ Hz.
+ * Without a workspace, a temporary one is allocated for the call.
  */
-
-// Pre-allocated buffers for RK4 (sized for max expected state size of 20)
-const _rk4_k1: number[] = new Array(20).fill(0);
-const _rk4_k2: number[] = new Array(20).fill(0);
-const _rk4_k3: number[] = new Array(20).fill(0);
-const _rk4_k4: number[] = new Array(20).fill(0);
-const _rk4_temp: number[] = new Array(20).fill(0);
-const _rk4_result: number[] = new Array(20).fill(0);
-
 export function rk4(
   state: State,
   t: number,
   dt: number,
-  derivatives: DerivativeFunc
+  derivatives: DerivativeFunc,
+  workspace: IntegratorWorkspace = createIntegratorWorkspace(state.length)
 ): State {
   const n = state.length;
   const dt2 = dt / 2;
   const dt6 = dt / 6;
 
+  ensureWorkspaceSize(workspace, n);
+  const { k1, k2, k3, k4, temp } = workspace;
+
   // k1 = f(t, y)
   const k1Src = derivatives(t, state);
-  for (let i = 0; i < n; i++) _rk4_k1[i] = k1Src[i];
+  for (let i = 0; i < n; i++) k1[i] = k1Src[i];
 
   // temp = y + dt/2 * k1, then k2 = f(t + dt/2, temp)
-  for (let i = 0; i < n; i++) _rk4_temp[i] = state[i] + dt2 * _rk4_k1[i];
-  const k2Src = derivatives(t + dt2, _rk4_temp);
-  for (let i = 0; i < n; i++) _rk4_k2[i] = k2Src[i];
+  for (let i = 0; i < n; i++) temp[i] = state[i] + dt2 * k1[i];
+  const k2Src = derivatives(t + dt2, temp);
+  for (let i = 0; i < n; i++) k2[i] = k2Src[i];
 
   // temp = y + dt/2 * k2, then k3 = f(t + dt/2, temp)
-  for (let i = 0; i < n; i++) _rk4_temp[i] = state[i] + dt2 * _rk4_k2[i];
-  const k3Src = derivatives(t + dt2, _rk4_temp);
-  for (let i = 0; i < n; i++) _rk4_k3[i] = k3Src[i];
+  for (let i = 0; i < n; i++) temp[i] = state[i] + dt2 * k2[i];
+  const k3Src = derivatives(t + dt2, temp);
+  for (let i = 0; i < n; i++) k3[i] = k3Src[i];
 
   // temp = y + dt * k3, then k4 = f(t + dt, temp)
-  for (let i = 0; i < n; i++) _rk4_temp[i] = state[i] + dt * _rk4_k3[i];
-  const k4Src = derivatives(t + dt, _rk4_temp);
-  for (let i = 0; i < n; i++) _rk4_k4[i] = k4Src[i];
+  for (let i = 0; i < n; i++) temp[i] = state[i] + dt * k3[i];
+  const k4Src = derivatives(t + dt, temp);
+  for (let i = 0; i < n; i++) k4[i] = k4Src[i];
 
   // y(t + dt) = y + dt/6 * (k1 + 2*k2 + 2*k3 + k4)
+  // Fresh array since the caller may store the result
+  const result = new Array(n);
   for (let i = 0; i < n; i++) {
-    _rk4_result[i] = state[i] + dt6 * (_rk4_k1[i] + 2 * _rk4_k2[i] + 2 * _rk4_k3[i] + _rk4_k4[i]);
+    result[i] = state[i] + dt6 * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]);
+  }
+
+  return result;
+}
+
+/**
+ * Dormand-Prince 5(4) embedded Runge-Kutta step (adaptive, fifth-order)
+ * Attempts a single step of size h and returns the 5th order solution, a scaled
+ * error norm (accept when <= 1) and dense output coefficients for the step.
+ * Pass the previous step's final derivative as k1 to reuse it (FSAL).
+ */
+export interface DenseOutput {
+  t: number;
+  h: number;
+  coefficients: State[];
+}
+
+export interface DormandPrinceResult {
+  state: State;
+  errorNorm: number;
+  finalDerivative: State;
+  dense: DenseOutput;
+}
+
+export interface AdaptiveTolerances {
+  absoluteTolerance: number;
+  relativeTolerance: number;
+}
+
+export const DEFAULT_ABSOLUTE_TOLERANCE = 1e-9;
+export const DEFAULT_RELATIVE_TOLERANCE = 1e-9;
+
+// Butcher tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// Difference between 5th and 4th order weights (error estimate)
+const DP_E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40];
+// Dense output weights (Hairer, Norsett & Wanner)
+const DP_D = [
+  -12715105075 / 11282082432,
+  0,
+  87487479700 / 32700410799,
+  -10690763975 / 1880347072,
+  701980252875 / 199316789632,
+  -1453857185 / 822651844,
+  69997945 / 29380423,
+];
+
+export function dormandPrince(
+  state: State,
+  t: number,
+  h: number,
+  derivatives: DerivativeFunc,
+  tolerances: AdaptiveTolerances,
+  k1?: State
+): DormandPrinceResult {
+  const n = state.length;
+  const k: State[] = [k1 ? k1.slice() : derivatives(t, state).slice()];
+  const temp = new Array(n);
+
+  // Stages 2..7 (stage 7 is evaluated at the 5th order solution)
+  for (let s = 1; s < 7; s++) {
+    const a = DP_A[s];
+    for (let i = 0; i < n; i++) {
+      let sum = 0;
+      for (let j = 0; j < s; j++) sum += a[j] * k[j][i];
+      temp[i] = state[i] + h * sum;
+    }
+    k.push(derivatives(t + DP_C[s] * h, temp).slice());
+  }
+
+  // Stage 7 input is the 5th order solution
+  const next = temp.slice();
+
+  // Scaled RMS error norm
+  const { absoluteTolerance, relativeTolerance } = tolerances;
+  let errSq = 0;
+  for (let i = 0; i < n; i++) {
+    let err = 0;
+    for (let j = 0; j < 7; j++) err += DP_E[j] * k[j][i];
+    err *= h;
+    const scale =
+      absoluteTolerance +
+      relativeTolerance * Math.max(Math.abs(state[i]), Math.abs(next[i]));
+    errSq += (err / scale) * (err / scale);
+  }
+  const errorNorm = n > 0 ? Math.sqrt(errSq / n) : 0;
+
+  // Dense output: y(t + θh) = r0 + θ(r1 + (1-θ)(r2 + θ(r3 + (1-θ) r4)))
+  const r0 = state.slice();
+  const r1 = new Array(n);
+  const r2 = new Array(n);
+  const r3 = new Array(n);
+  const r4 = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const diff = next[i] - state[i];
+    const bspl = h * k[0][i] - diff;
+    r1[i] = diff;
+    r2[i] = bspl;
+    r3[i] = diff - h * k[6][i] - bspl;
+    let d = 0;
+    for (let j = 0; j < 7; j++) d += DP_D[j] * k[j][i];
+    r4[i] = h * d;
+  }
+
+  return {
+    state: next,
+    errorNorm,
+    finalDerivative: k[6],
+    dense: { t, h, coefficients: [r0, r1, r2, r3, r4] },
+  };
+}
+
+/**
+ * Evaluate Dormand-Prince dense output at time t within the step
+ */
+export function evaluateDenseOutput(dense: DenseOutput, t: number): State {
+  const theta = dense.h === 0 ? 1 : (t - dense.t) / dense.h;
+  const theta1 = 1 - theta;
+  const [r0, r1, r2, r3, r4] = dense.coefficients;
+  return r0.map(
+    (y, i) => y + theta * (r1[i] + theta1 * (r2[i] + theta * (r3[i] + theta1 * r4[i])))
+  );
+}
+
+/**
+ * Step size controller for embedded methods
+ * Returns the factor to scale h by given the last error norm
+ */
+export function adaptiveStepFactor(errorNorm: number, order = 5): number {
+  if (errorNorm === 0) return 5;
+  const factor = 0.9 * Math.pow(errorNorm, -1 / order);
+  return clamp(factor, 0.2, 5);
+}
+
+/**
+ * Solve the dense linear system A·x = b in place (Gaussian elimination with partial pivoting)
+ * A is a row-major n×n matrix; on return b holds the solution x.
+ * Both arrays are overwritten, so callers should pass scratch buffers.
+ */
+export function solveLinearSystem(A: number[], b: number[], n: number): number[] {
+  for (let col = 0; col < n; col++) {
+    // Pick the largest pivot in this column for numerical stability
+    let pivot = col;
+    let maxAbs = Math.abs(A[col * n + col]);
+    for (let row = col + 1; row < n; row++) {
+      const v = Math.abs(A[row * n + col]);
+      if (v > maxAbs) {
+        maxAbs = v;
+        pivot = row;
+      }
+    }
+
+    if (pivot !== col) {
+      for (let k = col; k < n; k++) {
+        const tmp = A[col * n + k];
+        A[col * n + k] = A[pivot * n + k];
+        A[pivot * n + k] = tmp;
+      }
+      const tmp = b[col];
+      b[col] = b[pivot];
+      b[pivot] = tmp;
+    }
+
+    // Eliminate entries below the pivot
+    const diag = A[col * n + col];
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row * n + col] / diag;
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) {
+        A[row * n + k] -= factor * A[col * n + k];
+      }
+      b[row] -= factor * b[col];
+    }
+  }
+
+  // Back substitution
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= A[row * n + k] * b[k];
+    }
+    b[row] = sum / A[row * n + row];
   }
 
-  // Return a copy (caller may store the result)
-  return _rk4_result.slice(0, n);
+  return b;
+}
+
+export interface SymmetricEigenResult {
+  // Eigenvalues in ascending order
+  values: number[];
+  // Unit eigenvectors, vectors[j] belongs to values[j]
+  vectors: number[][];
+}
+
+/**
+ * Eigen-decomposition of a real symmetric matrix (cyclic Jacobi rotations)
+ * A is a row-major n×n matrix and is left untouched. Meant for the small
+ * matrices of linearized mechanical systems, where Jacobi is robust and exact
+ * enough; cost grows as n³ per sweep.
+ */
+export function symmetricEigen(A: number[], n: number, tolerance = 1e-14, maxSweeps = 64): SymmetricEigenResult {
+  const a = A.slice(0, n * n);
+  // Accumulated rotations; column j converges to the j-th eigenvector
+  const v = new Array<number>(n * n).fill(0);
+  for (let i = 0; i < n; i++) v[i * n + i] = 1;
+
+  let scale = 0;
+  for (let i = 0; i < n * n; i++) scale += a[i] * a[i];
+  const threshold = tolerance * tolerance * (scale || 1);
+
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += 2 * a[p * n + q] * a[p * n + q];
+    }
+    if (offDiagonal <= threshold) break;
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p * n + q];
+        if (apq === 0) continue;
+
+        // Rotation angle that zeroes a[p][q], using the smaller root for stability
+        const theta = (a[q * n + q] - a[p * n + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k * n + p];
+          const akq = a[k * n + q];
+          a[k * n + p] = c * akp - s * akq;
+          a[k * n + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p * n + k];
+          const aqk = a[q * n + k];
+          a[p * n + k] = c * apk - s * aqk;
+          a[q * n + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k * n + p];
+          const vkq = v[k * n + q];
+          v[k * n + p] = c * vkp - s * vkq;
+          v[k * n + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[i * n + i] - a[j * n + j]);
+  return {
+    values: order.map((j) => a[j * n + j]),
+    vectors: order.map((j) => Array.from({ length: n }, (_, k) => v[k * n + j])),
+  };
+}
+
+/**
+ * Complete elliptic integral of the first kind K(k), modulus k in [0, 1)
+ * Uses the arithmetic-geometric mean, K(k) = π / (2·AGM(1, √(1 - k²))),
+ * which converges quadratically to machine precision in a handful of steps.
+ */
+export function completeEllipticK(k: number): number {
+  if (Math.abs(k) >= 1) return Infinity;
+  let a = 1;
+  let b = Math.sqrt(1 - k * k);
+  while (Math.abs(a - b) > 1e-15 * a) {
+    const mean = (a + b) / 2;
+    b = Math.sqrt(a * b);
+    a = mean;
+  }
+  return Math.PI / (2 * a);
+}
+
+/**
+ * Exact period of an undamped pendulum released from rest at amplitude θ₀
+ * T = 4√(L/g)·K(sin(θ₀/2)), which reduces to 2π√(L/g) for small swings and
+ * grows without bound as θ₀ approaches π
+ */
+export function pendulumPeriod(length: number, gravity: number, amplitude: number): number {
+  return 4 * Math.sqrt(length / gravity) * completeEllipticK(Math.sin(Math.abs(amplitude) / 2));
+}
+
+/**
+ * Cubic Hermite interpolation on [0, 1] from end values and scaled end slopes
+ */
+export function cubicHermite(p0: number, p1: number, m0: number, m1: number, tau: number): number {
+  const t2 = tau * tau;
+  const t3 = t2 * tau;
+  return (
+    (2 * t3 - 3 * t2 + 1) * p0 +
+    (t3 - 2 * t2 + tau) * m0 +
+    (-2 * t3 + 3 * t2) * p1 +
+    (t3 - t2) * m1
+  );
 }
 
 /**
@@ -0,0 +1,294 @@
+/**
+ * YAML Subset Parser
+ * Enough YAML for hand-written config files (run specs), with no dependencies
+ *
+ * Supported: block mappings and sequences nested by indentation, flow
+ * collections ([1, 2], {a: 1}), plain and quoted scalars, null, booleans,
+ * numbers (including .inf and .nan) and # comments. Anchors, tags, block
+ * scalars (| and >) and multiple documents are rejected with an error rather
+ * than misread.
+ */
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[\]{},:][^:#]*?)\s*:(?:\s+(.*))?$/;
+const NUMBER_PATTERN = /^[-+]?(\d[\d_]*\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Parse a YAML document into plain objects, arrays and scalars
+ */
+export function parseYaml(source: string): unknown {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '') return;
+    if (/^\t/.test(text)) fail(i + 1, 'tabs are not allowed for indentation');
+    if (text === '---' || text === '...') {
+      if (lines.length > 0) fail(i + 1, 'multiple documents are not supported');
+      return;
+    }
+    const indent = text.length - text.trimStart().length;
+    lines.push({ indent, text: text.trimStart(), number: i + 1 });
+  });
+
+  if (lines.length === 0) return null;
+
+  const parser = new BlockParser(lines);
+  const value = parser.parseBlock(lines[0].indent);
+  parser.expectEnd();
+  return value;
+}
+
+function fail(line: number, message: string): never {
+  throw new Error(`YAML line ${line}: ${message}`);
+}
+
+/**
+ * Drop a trailing comment, ignoring # inside quotes or glued to a word
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+class BlockParser {
+  private lines: Line[];
+  private pos: number = 0;
+
+  constructor(lines: Line[]) {
+    this.lines = lines;
+  }
+
+  parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos];
+    if (isSequenceItem(line.text)) return this.parseSequence(indent);
+    if (KEY_PATTERN.test(line.text)) return this.parseMapping(indent);
+
+    // A lone scalar or flow collection
+    this.pos++;
+    return parseInline(line.text, line.number);
+  }
+
+  expectEnd(): void {
+    const line = this.lines[this.pos];
+    if (line) fail(line.number, 'unexpected indentation');
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent !== indent || !isSequenceItem(line.text)) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.pos++;
+        items.push(this.parseNested(indent, line.number));
+      } else if (KEY_PATTERN.test(rest) && !/^[[{]/.test(rest)) {
+        // "- key: value" opens a mapping indented to where the key starts
+        const offset = line.text.length - rest.length;
+        this.lines[this.pos] = { indent: indent + offset, text: rest, number: line.number };
+        items.push(this.parseMapping(indent + offset));
+      } else {
+        this.pos++;
+        items.push(parseInline(rest, line.number));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line.number, 'unexpected indentation');
+      if (isSequenceItem(line.text)) break;
+
+      const match = KEY_PATTERN.exec(line.text);
+      if (!match) fail(line.number, `expected "key: value", got "${line.text}"`);
+      const key = match[1].startsWith('"') || match[1].startsWith("'") ? parseQuoted(match[1], line.number) : match[1];
+      if (Object.prototype.hasOwnProperty.call(map, key)) fail(line.number, `duplicate key "${key}"`);
+      this.pos++;
+
+      const rest = match[2]?.trim() ?? '';
+      if (rest !== '') {
+        map[key] = parseInline(rest, line.number);
+        continue;
+      }
+
+      // Value on the following lines; sequences may sit at the key's own indent
+      const next = this.lines[this.pos];
+      if (next && next.indent === indent && isSequenceItem(next.text)) {
+        map[key] = this.parseSequence(indent);
+      } else {
+        map[key] = this.parseNested(indent, line.number);
+      }
+    }
+
+    return map;
+  }
+
+  /**
+   * Block indented deeper than its parent, or null if there is none
+   */
+  private parseNested(parentIndent: number, lineNumber: number): unknown {
+    const next = this.lines[this.pos];
+    if (!next || next.indent <= parentIndent) return null;
+    if (lineNumber === next.number) fail(lineNumber, 'unexpected content');
+    return this.parseBlock(next.indent);
+  }
+}
+
+/**
+ * Scalar or flow collection written on one line
+ */
+function parseInline(text: string, line: number): unknown {
+  const parser = new FlowParser(text, line);
+  const value = parser.parseValue();
+  parser.expectEnd();
+  return value;
+}
+
+class FlowParser {
+  private text: string;
+  private line: number;
+  private pos: number = 0;
+
+  constructor(text: string, line: number) {
+    this.text = text;
+    this.line = line;
+  }
+
+  parseValue(): unknown {
+    this.skipSpace();
+    const c = this.text[this.pos];
+
+    if (c === '[') return this.parseList();
+    if (c === '{') return this.parseMap();
+    if (c === '"' || c === "'") return parseQuoted(this.readQuoted(), this.line);
+    if (c === '|' || c === '>') fail(this.line, 'block scalars are not supported');
+    if (c === '&' || c === '*' || c === '!') fail(this.line, 'anchors, aliases and tags are not supported');
+
+    return parseScalar(this.readPlain());
+  }
+
+  expectEnd(): void {
+    this.skipSpace();
+    if (this.pos < this.text.length) fail(this.line, `unexpected "${this.text.slice(this.pos)}"`);
+  }
+
+  private parseList(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++;
+    this.skipSpace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return items;
+    }
+    for (;;) {
+      items.push(this.parseValue());
+      this.skipSpace();
+      const c = this.text[this.pos++];
+      if (c === ']') return items;
+      if (c !== ',') fail(this.line, 'expected "," or "]" in flow sequence');
+    }
+  }
+
+  private parseMap(): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    this.pos++;
+    this.skipSpace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return map;
+    }
+    for (;;) {
+      this.skipSpace();
+      const c = this.text[this.pos];
+      const key = c === '"' || c === "'" ? parseQuoted(this.readQuoted(), this.line) : this.readPlain(':').trim();
+      this.skipSpace();
+      if (this.text[this.pos++] !== ':') fail(this.line, 'expected ":" in flow mapping');
+      map[key] = this.parseValue();
+      this.skipSpace();
+      const next = this.text[this.pos++];
+      if (next === '}') return map;
+      if (next !== ',') fail(this.line, 'expected "," or "}" in flow mapping');
+    }
+  }
+
+  private readQuoted(): string {
+    const quote = this.text[this.pos];
+    let end = this.pos + 1;
+    for (; end < this.text.length; end++) {
+      const c = this.text[end];
+      if (quote === '"' && c === '\\') {
+        end++;
+      } else if (c === quote) {
+        // '' is an escaped quote inside single quotes
+        if (quote === "'" && this.text[end + 1] === "'") {
+          end++;
+          continue;
+        }
+        break;
+      }
+    }
+    if (end >= this.text.length) fail(this.line, 'unterminated string');
+    const token = this.text.slice(this.pos, end + 1);
+    this.pos = end + 1;
+    return token;
+  }
+
+  private readPlain(extraStops: string = ''): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && !`,]}${extraStops}`.includes(this.text[this.pos])) this.pos++;
+    // Outside flow collections commas and brackets are ordinary characters
+    if (start === 0) this.pos = this.text.length;
+    return this.text.slice(start, this.pos).trim();
+  }
+
+  private skipSpace(): void {
+    while (this.text[this.pos] === ' ') this.pos++;
+  }
+}
+
+function parseQuoted(token: string, line: number): string {
+  if (token.startsWith("'")) return token.slice(1, -1).replace(/''/g, "'");
+  try {
+    return JSON.parse(token) as string;
+  } catch {
+    fail(line, `invalid string ${token}`);
+  }
+}
+
+function parseScalar(text: string): unknown {
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^true$/i.test(text)) return true;
+  if (/^false$/i.test(text)) return false;
+  if (NUMBER_PATTERN.test(text)) return Number(text.replace(/_/g, ''));
+  if (/^[-+]?\.inf$/i.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.nan$/i.test(text)) return NaN;
+  return text;
+}
@@ -2,6 +2,13 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  // The SSR build is the headless CLI (npm run build:cli), which needs no static assets
+  build: {
+    copyPublicDir: !isSsrBuild,
+    rollupOptions: isSsrBuild
+      ? { input: { simulate: 'scripts/simulate.ts', sweep: 'scripts/sweep.ts' } }
+      : undefined,
+  },
+}))